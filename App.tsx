@@ -1,14 +1,62 @@
 
 import * as React from 'react';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { AppStatus } from './types.ts';
+import { AppStatus, ConversationContext, CustomSign, HandFrame, HandSample, Message, Prediction, SignKind } from './types.ts';
+import AccuracyReport from './components/AccuracyReport.tsx';
+import { clipKey, getTtsProvider } from './utils/tts.ts';
+import { createRecognizer, RecognizerHandlers, SpeechRecognizer, TranscriptEvent } from './utils/recognizers.ts';
+import { SequenceItem, signLexicon, signWord, textToSigns } from './utils/signLookup.ts';
+import { createTranslator, TranslationTarget, translateGlossTo } from './utils/translators.ts';
+import { createTranslate, getLanguage } from './utils/i18n.ts';
+import { CONTEXT_ENGINE_OPTIONS, ContextEngine, ContextEvent, createContextEngine, EMPTY_CONTEXT, NgramModel } from './utils/context.ts';
+import { DEFAULT_SETTINGS, Settings } from './utils/settings.ts';
+import { DEFAULT_FEATURE_OPTIONS, processHandData } from './utils/features.ts';
+import { createMotionSample, isMotionSign, MOTION_CAPTURE_MS } from './utils/motion.ts';
+import { ALPHABET, isLetterLabel, isLetterSign, wordSigns } from './utils/fingerspelling.ts';
+import { RecognitionEvent } from './utils/recognition.ts';
+import { createRecognitionPipeline, FrameStats } from './utils/recognitionPipeline.ts';
+import { createAlphabetPack } from './utils/alphabet.ts';
+import { AttemptScore, newProgress, nextSign, recordAttempt, scoreAttempt, SignProgress } from './utils/practice.ts';
+import { loadProgress, saveProgress } from './storage/practiceStore.ts';
+import { moveVariation, normalizeLabel, removeVariation, renameSign } from './storage/libraryEdits.ts';
+import { checkSample, isHandComplete } from './utils/sampleQuality.ts';
+import { createSessionRecorder, parseSessionFile, RecordedSession, SessionRecorder } from './storage/sessionFile.ts';
+import { compareSessions, replaySession, ReplayComparison, ReplaySpeed, SessionReplay } from './utils/replay.ts';
+import { augmentSample, CAPTURE_ANGLES, CAPTURE_BURST_MS, CAPTURE_PROMPT_MS, CaptureAngle, CaptureFrame, selectFrames, toSample } from './utils/capture.ts';
+import { LocalStore, openLocalStore } from './storage/localStore.ts';
+import { ClipCache, openClipCache } from './storage/clipCache.ts';
+import { Conversation, ConversationLog, openConversationLog } from './storage/conversationLog.ts';
+import { createLibrarySync, diffLibraries, LibrarySync, SyncStatus } from './storage/librarySync.ts';
+import { CloudLibrary, createSupabaseProfileTarget, createSupabaseTarget, listLibraries } from './storage/supabaseTarget.ts';
+import { createProfile, loadActiveProfileId, loadProfiles, Profile, ProfileSyncTarget, saveActiveProfileId, saveProfiles, syncProfiles } from './storage/profileStore.ts';
+import CloudAccount from './components/CloudAccount.tsx';
+import LibraryTransfer from './components/LibraryTransfer.tsx';
+import SignPreview from './components/SignPreview.tsx';
+import ConversationPanel from './components/ConversationPanel.tsx';
+import ContextCard from './components/ContextCard.tsx';
+import SettingsPanel from './components/SettingsPanel.tsx';
+import PracticePanel, { PracticeOutcome } from './components/PracticePanel.tsx';
+import SignEditor from './components/SignEditor.tsx';
+import SessionControls from './components/SessionControls.tsx';
 
 // Constants
-const STORAGE_KEY = 'echoassist_stable_v1';
-const CONFIDENCE_THRESHOLD = 0.72;
-const CLEAR_DELAY = 1500;
-
-// Supabase Configuration
+const LIBRARY_SCOPE_KEY = 'echoassist_library_scope';
+const CONTEXT_MODEL_KEY = 'echoassist_context_model';
+// Profile edits are pushed to the cloud once they settle
+const PROFILE_PUSH_DELAY = 1200;
+// Wait before asking again for the libraries a user can open
+const LIBRARY_LIST_RETRY_MS = 15000;
+// How long each sign of a spoken sentence is shown in LISTENER
+const SIGN_STEP_MS = 1600;
+// Recognized speech this soon after we spoke, and matching it, is our own
+// voice picked up by the microphone
+const ECHO_WINDOW_MS = 10000;
+// How long a practice sign must be held at a passing score, and how long
+// the result shows before the next sign
+const PRACTICE_HOLD_MS = 600;
+const PRACTICE_ADVANCE_MS = 1500;
+
+// Supabase Configuration (optional: without it the library stays on this device)
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_KEY = import.meta.env.VITE_SUPABASE_KEY;
 
@@ -25,126 +73,70 @@ enum ViewMode {
   INTERPRETER = 'INTERPRETER',
   TRAINING = 'TRAINING',
   ACADEMY = 'ACADEMY',
-  LISTENER = 'LISTENER'
-}
-
-interface HandSample {
-  id: string;
-  normalized: { nx: number; ny: number }[];
-  curlStates: number[];
-}
-
-interface CustomSign {
-  id: string;
-  label: string;
-  samples: HandSample[];
+  LISTENER = 'LISTENER',
+  CONVERSATION = 'CONVERSATION'
 }
 
-interface Prediction {
-  label: string;
-  confidence: number;
-}
-
-const processHandData = (landmarks: any[]) => {
-  const wrist = landmarks[0];
-  const palmBase = landmarks[9];
-  const palmScale = Math.sqrt(
-    Math.pow(palmBase.x - wrist.x, 2) + Math.pow(palmBase.y - wrist.y, 2)
-  ) || 0.01;
-
-  const normalized = landmarks.map(l => ({
-    nx: (l.x - wrist.x) / palmScale,
-    ny: (l.y - wrist.y) / palmScale
-  }));
-
-  const tips = [4, 8, 12, 16, 20];
-  const pips = [2, 6, 10, 14, 18];
-
-  const curlStates = tips.map((tipIdx, i) => {
-    const tip = landmarks[tipIdx];
-    const pip = landmarks[pips[i]];
-    const tDist = Math.sqrt(Math.pow(tip.x - wrist.x, 2) + Math.pow(tip.y - wrist.y, 2));
-    const pDist = Math.sqrt(Math.pow(pip.x - wrist.x, 2) + Math.pow(pip.y - wrist.y, 2));
-    return tDist < pDist ? 1 : 0;
-  });
-
-  return { normalized, curlStates };
+const loadContextModel = (): NgramModel => {
+  try {
+    return JSON.parse(localStorage.getItem(CONTEXT_MODEL_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
 };
 
-// Separate component for reliable canvas updates
-const SignPreview = ({ sign }: { sign: CustomSign }) => {
-  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+const cameraConstraints = (cameraId: string | null): MediaTrackConstraints | boolean =>
+  cameraId ? { deviceId: { exact: cameraId } } : true;
 
-  React.useEffect(() => {
-    const canvas = canvasRef.current;
-    if (canvas && sign.samples[0]) {
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.clearRect(0, 0, 250, 250);
-
-        // Draw hand skeleton
-        const sample = sign.samples[0];
-
-        // Connections
-        const connections = [
-          [0, 1], [1, 2], [2, 3], [3, 4], // Thumb
-          [0, 5], [5, 6], [6, 7], [7, 8], // Index
-          [0, 9], [9, 10], [10, 11], [11, 12], // Middle
-          [0, 13], [13, 14], [14, 15], [15, 16], // Ring
-          [0, 17], [17, 18], [18, 19], [19, 20] // Pinky
-        ];
-
-        ctx.strokeStyle = '#818cf8';
-        ctx.lineWidth = 2;
-        ctx.lineCap = 'round';
-
-        connections.forEach(([i, j]) => {
-          const p1 = sample.normalized[i];
-          const p2 = sample.normalized[j];
-          if (p1 && p2) {
-            ctx.beginPath();
-            // Centering: shift Y down by 40px
-            ctx.moveTo(125 + p1.nx * 80, 165 + p1.ny * 80);
-            ctx.lineTo(125 + p2.nx * 80, 165 + p2.ny * 80);
-            ctx.stroke();
-          }
-        });
-
-        // Landmarks
-        sample.normalized.forEach((p: any, i: number) => {
-          const isTip = [4, 8, 12, 16, 20].includes(i);
-          ctx.beginPath();
-          // Centering: shift Y down by 40px
-          ctx.arc(125 + p.nx * 80, 165 + p.ny * 80, isTip ? 6 : 4, 0, Math.PI * 2);
-          ctx.fillStyle = isTip ? '#f472b6' : '#818cf8';
-          ctx.fill();
-        });
-      }
-    }
-  }, [sign]); // Re-run when sign changes
+const isTwoHandedSign = (sign: CustomSign) =>
+  sign.samples.some(s => s.secondary) || (sign.sequences || []).some(seq => seq.frames.some(f => f.secondary));
 
-  return (
-    <canvas
-      ref={canvasRef}
-      width={250}
-      height={250}
-      className="mx-auto bg-slate-950 rounded-xl sm:rounded-2xl border border-white/10 max-w-full"
-    />
-  );
-};
+const samePredictions = (a: Prediction[], b: Prediction[]) =>
+  a.length === b.length && a.every((p, i) => p.label === b[i].label && Math.abs(p.confidence - b[i].confidence) < 0.005);
 
 export default function App() {
   const [activeMode, setActiveMode] = React.useState<ViewMode>(ViewMode.INTERPRETER);
+  const activeModeRef = React.useRef(activeMode);
+  const [profiles, setProfiles] = React.useState<Profile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = React.useState(() => loadActiveProfileId() || '');
+  const liveProfiles = profiles.filter(p => !p.deleted);
+  const activeProfile = liveProfiles.find(p => p.id === activeProfileId) || liveProfiles[0];
+  const settings = activeProfile.settings;
+  const t = React.useMemo(() => createTranslate(settings.uiLanguage), [settings.uiLanguage]);
+  const spokenLanguage = getLanguage(settings.language);
+  // For callbacks registered once (MediaPipe, speech, timers)
+  const settingsRef = React.useRef<Settings>(settings);
+  const profileTargetRef = React.useRef<ProfileSyncTarget | null>(null);
+  // Last profiles that came from the cloud; only later edits are pushed
+  const syncedProfilesRef = React.useRef<Profile[] | null>(null);
+  const [showSettings, setShowSettings] = React.useState(false);
   const [status, setStatus] = React.useState<AppStatus>(AppStatus.IDLE);
-  const [isCloudSynced, setIsCloudSynced] = React.useState<'idle' | 'syncing' | 'success' | 'error'>('idle');
+  const [isCloudSynced, setIsCloudSynced] = React.useState<SyncStatus>(supabase ? 'idle' : 'local');
+  const [pendingChanges, setPendingChanges] = React.useState(0);
+  const [cloudUser, setCloudUser] = React.useState<{ id: string; email?: string } | null>(null);
+  const [cloudLibraries, setCloudLibraries] = React.useState<CloudLibrary[]>([]);
+  // 'personal' or a team id
+  const [libraryScope, setLibraryScope] = React.useState(() => localStorage.getItem(LIBRARY_SCOPE_KEY) || 'personal');
+  const [isStoreReady, setIsStoreReady] = React.useState(false);
   const [liveTranscript, setLiveTranscript] = React.useState('');
+  // Speech not yet finalized by the recognizer
+  const [interimSpeech, setInterimSpeech] = React.useState('');
+  const [conversation, setConversation] = React.useState<Conversation | null>(null);
+  const [conversationHistory, setConversationHistory] = React.useState<Conversation[]>([]);
+  const conversationLogRef = React.useRef<ConversationLog | null>(null);
+  const lastSpokenRef = React.useRef<{ text: string; at: number } | null>(null);
   const [sentence, setSentence] = React.useState<string[]>([]);
-  const lastDetectedRef = React.useRef<{ label: string, time: number } | null>(null);
+  // English rendering of `sentence`, once the signer has paused
+  const [translation, setTranslation] = React.useState<string | null>(null);
   const audioQueueRef = React.useRef<string[]>([]);
   const isPlayingAudioRef = React.useRef(false);
-  const lastSpokenWordRef = React.useRef<string | null>(null);
+  const clipCacheRef = React.useRef<ClipCache | null>(null);
   const [predictions, setPredictions] = React.useState<Prediction[]>([]);
-  const [matchedSign, setMatchedSign] = React.useState<CustomSign | null>(null);
+  // Signs for the latest utterance or search, shown one after another
+  const [signSequence, setSignSequence] = React.useState<SequenceItem[]>([]);
+  const [sequenceIndex, setSequenceIndex] = React.useState(0);
+  // The next recognition result starts a new utterance
+  const utteranceEndedRef = React.useRef(true);
   const [textInput, setTextInput] = React.useState('');
   const [isSpeechActive, setIsSpeechActive] = React.useState(false);
 
@@ -153,86 +145,378 @@ export default function App() {
   const playerRef = React.useRef<HTMLAudioElement | null>(null);
   const handsRef = React.useRef<any>(null);
   const isListeningRef = React.useRef(false);
+  // A frame is with MediaPipe; the camera loop doesn't wait for it
+  const sendingRef = React.useRef(false);
   const shouldMicKeepRunningRef = React.useRef(false);
-  const recognitionRef = React.useRef<any>(null);
-
-  const currentHandDataRef = React.useRef<{ normalized: any[], curlStates: number[] } | null>(null);
+  const recognizerRef = React.useRef<SpeechRecognizer | null>(null);
+  // Settled text of the utterance being heard
+  const utteranceRef = React.useRef('');
+
+  const currentHandDataRef = React.useRef<Omit<HandFrame, 't'> | null>(null);
+  // Whether every hand in the latest frame is whole and in view
+  const handCompleteRef = React.useRef(false);
+  const motionRecordingRef = React.useRef<HandFrame[] | null>(null);
+  // Guided capture: the position being recorded, and the frames so far
+  const burstAngleRef = React.useRef<CaptureAngle | null>(null);
+  const burstFramesRef = React.useRef<CaptureFrame[]>([]);
   const clearTimerRef = React.useRef<number | null>(null);
-
-  // Sign Library State
-  const [customSigns, setCustomSigns] = React.useState<CustomSign[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) {
-      return [];
-    }
-  });
+  // Session recording, and the recorded session being fed in place of the camera
+  const sessionRecorderRef = React.useRef<SessionRecorder | null>(null);
+  const [isRecordingSession, setIsRecordingSession] = React.useState(false);
+  const replayRef = React.useRef<{ session: RecordedSession; replay: SessionReplay } | null>(null);
+  const [isReplaying, setIsReplaying] = React.useState(false);
+  const [replayResult, setReplayResult] = React.useState<{ comparison: ReplayComparison; session: RecordedSession } | null>(null);
+
+  // Sign Library State (loaded asynchronously from the local store)
+  const [customSigns, setCustomSigns] = React.useState<CustomSign[]>([]);
+  const localStoreRef = React.useRef<LocalStore | null>(null);
+  const librarySyncRef = React.useRef<LibrarySync | null>(null);
+  // Last library written to the local store; edits are diffed against it
+  const persistedSignsRef = React.useRef<CustomSign[] | null>(null);
 
   const customSignsRef = React.useRef<CustomSign[]>(customSigns);
   const [teachLabel, setTeachLabel] = React.useState('');
+  // The sign's word in the spoken language, when that isn't English
+  const [teachTranslation, setTeachTranslation] = React.useState('');
+  const [teachKind, setTeachKind] = React.useState<SignKind>('static');
+  // Library row opened for editing its variations
+  const [expandedSignId, setExpandedSignId] = React.useState<string | null>(null);
+  // Recognition proper: classifiers, motion matching, fingerspelling and
+  // when a sign is committed. It also knows whether the sentence is closed.
+  // Scoring runs in a worker, so events arrive a little after their frame.
+  const [recognition] = React.useState(() => createRecognitionPipeline({
+    classifierId: settings.classifierId,
+    options: settings,
+    context: () => contextEngineRef.current,
+    onEvents: events => applyRecognition(events)
+  }));
+  const [frameStats, setFrameStats] = React.useState<FrameStats | null>(null);
+  // StrictMode unmounts once in development; the next use starts a new worker
+  React.useEffect(() => () => recognition.dispose(), [recognition]);
+  const [isSpelling, setIsSpelling] = React.useState(false);
+  // Letters of the word being fingerspelled, before it joins the sentence
+  const [spelledLetters, setSpelledLetters] = React.useState('');
+  const [practiceProgress, setPracticeProgress] = React.useState<Record<string, SignProgress>>(loadProgress);
+  const [practiceSignId, setPracticeSignId] = React.useState<string | null>(null);
+  const [isQuiz, setIsQuiz] = React.useState(false);
+  // Live score of the current practice attempt, and how it ended
+  const [practiceAttempt, setPracticeAttempt] = React.useState<AttemptScore | null>(null);
+  const [practiceOutcome, setPracticeOutcome] = React.useState<PracticeOutcome | null>(null);
+  // For the frame handler: the sign being practiced, since when it has been
+  // held at a passing score, and whether this attempt has been graded
+  const practiceRef = React.useRef<{ signId: string | null; passingSince: number | null; graded: boolean }>({ signId: null, passingSince: null, graded: false });
+  const practiceSign = customSigns.find(s => s.id === practiceSignId) || null;
+  const translator = React.useMemo(() => createTranslator(settings.translatorId), [settings.translatorId]);
+  const contextEngineRef = React.useRef<ContextEngine>(createContextEngine(settings.contextEngineId, loadContextModel()));
+  const [conversationContext, setConversationContext] = React.useState<ConversationContext>(EMPTY_CONTEXT);
+  // Only the reply to the latest summary request is shown
+  const contextRequestRef = React.useRef(0);
+  const [isTraining, setIsTraining] = React.useState(false);
+  const [showReport, setShowReport] = React.useState(false);
   const [countdown, setCountdown] = React.useState<number | null>(null);
+  const [isRecordingMotion, setIsRecordingMotion] = React.useState(false);
+  const [burstStep, setBurstStep] = React.useState<{ angle: CaptureAngle; recording: boolean } | null>(null);
+  const [augmentBurst, setAugmentBurst] = React.useState(true);
+
+  // Libraries that come from storage or the cloud replace state without
+  // being queued as local edits
+  const applyLoadedLibrary = (signs: CustomSign[]) => {
+    persistedSignsRef.current = signs;
+    setCustomSigns(signs);
+    localStoreRef.current?.saveSigns(signs).catch(err => console.error('Local save failed:', err));
+  };
+
+  React.useEffect(() => {
+    let disposed = false;
+    (async () => {
+      const store = await openLocalStore();
+      const signs = await store.loadSigns();
+      if (disposed) return;
+      localStoreRef.current = store;
+      persistedSignsRef.current = signs;
+      setCustomSigns(signs);
+      setIsStoreReady(true);
+    })().catch(err => console.error('Library load failed:', err));
+    return () => { disposed = true; };
+  }, []);
 
-  const syncToSupabase = async (data: CustomSign[]) => {
+  React.useEffect(() => {
     if (!supabase) return;
-    setIsCloudSynced('syncing');
-    try {
-      const { error } = await supabase
-        .from('echo_library')
-        .upsert({
-          id: 1,
-          payload: data,
-          updated_at: new Date().toISOString()
-        }, { onConflict: 'id' });
-
-      if (error) throw error;
-      setIsCloudSynced('success');
-      setTimeout(() => setIsCloudSynced('idle'), 2000);
-    } catch (err) {
-      console.error("Cloud sync failed:", err);
-      setIsCloudSynced('error');
+    supabase.auth.getSession().then(({ data }) => setCloudUser(data.session?.user ?? null));
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setCloudUser(session?.user ?? null);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  React.useEffect(() => {
+    if (!supabase || !cloudUser) {
+      setCloudLibraries([]);
+      return;
     }
+    let cancelled = false;
+    let retryTimer: number | null = null;
+    const load = () => listLibraries(supabase, cloudUser.id)
+      .then(libs => { if (!cancelled) setCloudLibraries(libs); })
+      .catch(err => {
+        console.error('Cloud libraries could not be listed:', err);
+        if (cancelled) return;
+        setIsCloudSynced('error');
+        retryTimer = window.setTimeout(load, LIBRARY_LIST_RETRY_MS);
+      });
+    load();
+    return () => {
+      cancelled = true;
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [cloudUser?.id]);
+
+  const activeLibrary = cloudLibraries.find(l => l.id === libraryScope)
+    || cloudLibraries.find(l => l.kind === 'personal')
+    || null;
+  const activeLibraryId = activeLibrary?.id ?? null;
+
+  const selectLibrary = (library: CloudLibrary) => {
+    const scope = library.kind === 'personal' ? 'personal' : library.id;
+    localStorage.setItem(LIBRARY_SCOPE_KEY, scope);
+    setLibraryScope(scope);
   };
 
-  const loadFromSupabase = async () => {
-    if (!supabase) return;
-    setIsCloudSynced('syncing');
-    try {
-      const { data, error } = await supabase
-        .from('echo_library')
-        .select('payload')
-        .eq('id', 1)
-        .single();
-
-      if (error && error.code !== 'PGRST116') throw error;
-      if (data?.payload && Array.isArray(data.payload)) {
-        setCustomSigns(data.payload);
-        setIsCloudSynced('success');
-        setTimeout(() => setIsCloudSynced('idle'), 2000);
-      } else {
-        setIsCloudSynced('idle');
+  const applySyncedProfiles = (merged: Profile[]) => {
+    syncedProfilesRef.current = merged;
+    setProfiles(merged);
+  };
+
+  const updateProfile = (id: string, patch: (profile: Profile) => Partial<Profile>) => {
+    setProfiles(prev => prev.map(p => p.id === id ? { ...p, ...patch(p), updatedAt: Date.now() } : p));
+  };
+
+  const updateSettings = (patch: Partial<Settings>) => {
+    updateProfile(activeProfile.id, p => ({ settings: { ...p.settings, ...patch } }));
+  };
+
+  const addProfile = () => {
+    const profile = createProfile(`Profile ${liveProfiles.length + 1}`, settings);
+    setProfiles(prev => [...prev, profile]);
+    setActiveProfileId(profile.id);
+  };
+
+  // Kept as a tombstone so other devices drop it too
+  const deleteProfile = () => {
+    const next = liveProfiles.find(p => p.id !== activeProfile.id);
+    if (!next) return;
+    updateProfile(activeProfile.id, () => ({ deleted: true }));
+    setActiveProfileId(next.id);
+  };
+
+  // Profiles travel with the signed-in library
+  React.useEffect(() => {
+    const target = supabase && activeLibraryId ? createSupabaseProfileTarget(supabase, activeLibraryId) : null;
+    profileTargetRef.current = target;
+    if (!target) return;
+    let cancelled = false;
+    syncProfiles(profiles, target)
+      .then(merged => { if (!cancelled) applySyncedProfiles(merged); })
+      .catch(err => console.error('Profile sync failed:', err));
+    return () => { cancelled = true; };
+  }, [activeLibraryId]);
+
+  // (Re)connect sync whenever the signed-in library changes
+  React.useEffect(() => {
+    const store = localStoreRef.current;
+    if (!isStoreReady || !store) return;
+    let disposed = false;
+    let sync: LibrarySync | null = null;
+    (async () => {
+      const target = supabase && activeLibraryId ? createSupabaseTarget(supabase, activeLibraryId, activeLibrary?.kind === 'personal') : null;
+      sync = await createLibrarySync(store, target, {
+        onStatus: (status, pending) => {
+          setIsCloudSynced(status);
+          setPendingChanges(pending);
+        },
+        onReconciled: applyLoadedLibrary
+      });
+      if (disposed) {
+        sync.dispose();
+        return;
       }
-    } catch (err) {
-      console.error("Cloud fetch failed:", err);
+      librarySyncRef.current = sync;
+      const reconciled = await sync.reconcile();
+      if (reconciled && !disposed) applyLoadedLibrary(reconciled);
+    })().catch(err => console.error('Library sync failed:', err));
+    return () => {
+      disposed = true;
+      librarySyncRef.current = null;
+      sync?.dispose();
+    };
+  }, [isStoreReady, activeLibraryId]);
+
+  React.useEffect(() => {
+    customSignsRef.current = customSigns;
+    const store = localStoreRef.current;
+    const persisted = persistedSignsRef.current;
+    if (!store || !persisted || persisted === customSigns) return;
+
+    const changes = diffLibraries(persisted, customSigns);
+    persistedSignsRef.current = customSigns;
+    store.saveSigns(customSigns).catch(err => console.error('Local save failed:', err));
+    // Not queued means never uploaded, so say so rather than look synced
+    librarySyncRef.current?.record(changes).catch(err => {
+      console.error('Queueing library changes failed:', err);
       setIsCloudSynced('error');
+    });
+  }, [customSigns]);
+
+  React.useEffect(() => {
+    if (isCloudSynced !== 'success') return;
+    const timeoutId = setTimeout(() => setIsCloudSynced('idle'), 2000);
+    return () => clearTimeout(timeoutId);
+  }, [isCloudSynced]);
+
+  // Retrain the active engine whenever the library or the engine changes
+  React.useEffect(() => {
+    recognition.setClassifier(settings.classifierId);
+    let cancelled = false;
+    setIsTraining(true);
+    recognition.train(customSigns)
+      .catch(err => console.error('Classifier training failed:', err))
+      .finally(() => { if (!cancelled) setIsTraining(false); });
+    return () => { cancelled = true; };
+  }, [customSigns, settings.classifierId]);
+
+  // A new engine keeps the learned transitions and picks up the open conversation
+  React.useEffect(() => {
+    if (contextEngineRef.current.id === settings.contextEngineId) return;
+    contextEngineRef.current = createContextEngine(settings.contextEngineId, contextEngineRef.current.model());
+    resetContext(conversation?.messages || []);
+  }, [settings.contextEngineId]);
+
+  React.useEffect(() => {
+    settingsRef.current = settings;
+    recognition.engine.setOptions(settings);
+  }, [settings]);
+
+  // Frame rate and recognition latency, while frames are coming in
+  React.useEffect(() => {
+    if (status !== AppStatus.LISTENING && !isReplaying) {
+      setFrameStats(null);
+      return;
     }
-  };
+    const timer = setInterval(() => setFrameStats(recognition.stats()), 500);
+    return () => clearInterval(timer);
+  }, [status, isReplaying]);
 
   React.useEffect(() => {
-    if (supabase) loadFromSupabase();
+    document.documentElement.lang = settings.uiLanguage;
+    document.documentElement.dir = getLanguage(settings.uiLanguage).dir;
+  }, [settings.uiLanguage]);
+
+  React.useEffect(() => {
+    saveActiveProfileId(activeProfile.id);
+  }, [activeProfile.id]);
+
+  // Save profiles on every edit and push local edits once they settle
+  React.useEffect(() => {
+    saveProfiles(profiles);
+    const target = profileTargetRef.current;
+    if (!target || profiles === syncedProfilesRef.current) return;
+    const timeoutId = setTimeout(() => {
+      syncProfiles(profiles, target)
+        .then(applySyncedProfiles)
+        .catch(err => console.error('Profile sync failed:', err));
+    }, PROFILE_PUSH_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [profiles]);
+
+  React.useEffect(() => {
+    // Without a cache (e.g. IndexedDB blocked) clips are fetched every time
+    openClipCache()
+      .then(cache => { clipCacheRef.current = cache; })
+      .catch(err => console.error('Clip cache unavailable:', err));
   }, []);
 
   React.useEffect(() => {
-    customSignsRef.current = customSigns;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(customSigns));
+    activeModeRef.current = activeMode;
+  }, [activeMode]);
 
-    if (customSigns.length > 0) {
-      const timeoutId = setTimeout(() => {
-        syncToSupabase(customSigns);
-      }, 1200);
-      return () => clearTimeout(timeoutId);
-    }
-  }, [customSigns]);
+  React.useEffect(() => {
+    sessionRecorderRef.current?.sentence(sentence);
+  }, [sentence]);
+
+  React.useEffect(() => {
+    saveProgress(practiceProgress);
+  }, [practiceProgress]);
+
+  // Pick a sign on entering ACADEMY, and another if it is deleted
+  React.useEffect(() => {
+    if (activeMode !== ViewMode.ACADEMY || practiceSign) return;
+    startPractice(nextSign(customSigns, practiceProgress));
+  }, [activeMode, customSigns, practiceSign]);
+
+  // A pass moves on by itself after a moment
+  React.useEffect(() => {
+    if (practiceOutcome !== 'passed') return;
+    const timeoutId = setTimeout(nextPractice, PRACTICE_ADVANCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [practiceOutcome]);
+
+  React.useEffect(() => {
+    openConversationLog().then(async log => {
+      conversationLogRef.current = log;
+      setConversationHistory(await log.list());
+    }).catch(err => console.error('Could not open conversation log:', err));
+  }, []);
+
+  // Save the open conversation after every message
+  React.useEffect(() => {
+    const log = conversationLogRef.current;
+    if (!conversation || conversation.messages.length === 0) return;
+    setConversationHistory(prev => prev.some(c => c.id === conversation.id)
+      ? prev.map(c => c.id === conversation.id ? conversation : c)
+      : [conversation, ...prev]);
+    log?.save(conversation).catch(err => console.error('Could not save conversation:', err));
+  }, [conversation]);
+
+  // Once the signer pauses, translate the gloss and speak it as one sentence.
+  // A new sign before then restarts the wait (and discards a late reply), and
+  // a word still being fingerspelled holds it.
+  React.useEffect(() => {
+    if (sentence.length === 0 || recognition.engine.isSentenceClosed || spelledLetters) return;
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      const { language } = settingsRef.current;
+      const target: TranslationTarget = { language, lexicon: signLexicon(customSignsRef.current, language) };
+      let text: string;
+      try {
+        text = await translator.translate(sentence, target);
+      } catch (err) {
+        console.error(`${translator.name} translation failed, using rules:`, err);
+        text = translateGlossTo(sentence, target);
+      }
+      if (cancelled || !text) return;
+      recognition.engine.closeSentence();
+      setTranslation(text);
+      observeContext({ sender: 'me', text, gloss: sentence });
+      if (activeModeRef.current === ViewMode.CONVERSATION) addMessage('me', text);
+      speakText(text);
+    }, settingsRef.current.sentencePauseMs);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [sentence, spelledLetters, translator]);
+
+  // Step through the signs of the current sequence
+  const currentSequenceIndex = signSequence.findIndex((item, i) => i >= sequenceIndex && item.type === 'sign');
+  const currentSequenceItem = signSequence[currentSequenceIndex];
+  const currentSequenceSign = currentSequenceItem?.type === 'sign' ? currentSequenceItem.sign : null;
+  React.useEffect(() => {
+    if (currentSequenceIndex < 0) return;
+    const next = signSequence.findIndex((item, i) => i > currentSequenceIndex && item.type === 'sign');
+    if (next < 0) return;
+    const timeoutId = setTimeout(() => setSequenceIndex(next), SIGN_STEP_MS);
+    return () => clearTimeout(timeoutId);
+  }, [signSequence, currentSequenceIndex]);
 
   React.useEffect(() => {
     if (typeof Hands !== 'undefined') {
@@ -240,72 +524,89 @@ export default function App() {
         locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`
       });
       hands.setOptions({
-        maxNumHands: 1,
+        maxNumHands: 2,
         modelComplexity: 1,
-        minDetectionConfidence: 0.8,
-        minTrackingConfidence: 0.8
+        minDetectionConfidence: settingsRef.current.minDetectionConfidence,
+        minTrackingConfidence: settingsRef.current.minTrackingConfidence
       });
       hands.onResults(onResults);
       handsRef.current = hands;
     }
-    initSpeech();
   }, []);
 
-  const initSpeech = () => {
-    const SR = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (SR) {
-      const rec = new SR();
-      rec.continuous = true;
-      rec.interimResults = true;
-      rec.lang = 'en-US';
-      rec.onstart = () => { setIsSpeechActive(true); console.log('Speech recognition started'); };
-      rec.onresult = (e: any) => {
-        let text = '';
-        for (let i = e.resultIndex; i < e.results.length; ++i) {
-          text += e.results[i][0].transcript;
-        }
-        setLiveTranscript(text);
-        console.log('Speech detected:', text);
-
-        // Match ALL spoken words to stored signs (for LISTENER mode)
-        const words = text.toUpperCase().trim().split(/\s+/).filter(w => w.length > 0);
-
-        // Check the LAST word spoken for best real-time response
-        for (let i = words.length - 1; i >= 0; i--) {
-          const word = words[i];
-          const found = customSignsRef.current.find(s => s.label === word);
-          if (found) {
-            console.log('Match found:', word);
-            setMatchedSign({ ...found, _ts: Date.now() } as any);
-            break;
-          }
-        }
+  React.useEffect(() => {
+    handsRef.current?.setOptions({
+      minDetectionConfidence: settings.minDetectionConfidence,
+      minTrackingConfidence: settings.minTrackingConfidence
+    });
+  }, [settings.minDetectionConfidence, settings.minTrackingConfidence]);
 
-        // Auto-reset transcript after 2 seconds of silence (faster for rapid speech)
-        if (clearTimerRef.current) clearTimeout(clearTimerRef.current);
-        clearTimerRef.current = window.setTimeout(() => {
-          setLiveTranscript('');
-          lastSpokenWordRef.current = null;
-          console.log('Transcript cleared');
-        }, 2000);
-      };
+  // Switch cameras without stopping the engine
+  React.useEffect(() => {
+    const video = videoRef.current;
+    if (!isListeningRef.current || !video) return;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: cameraConstraints(settings.cameraId) }).then(stream => {
+      if (cancelled || !isListeningRef.current) return stream.getTracks().forEach(t => t.stop());
+      (video.srcObject as MediaStream | null)?.getVideoTracks().forEach(t => t.stop());
+      video.srcObject = stream;
+      video.onloadedmetadata = () => video.play();
+    }).catch(err => console.error('Could not switch camera:', err));
+    return () => { cancelled = true; };
+  }, [settings.cameraId]);
+
+  // Swap recognizers (or restart in a new language), carrying on listening
+  // if the old one was
+  React.useEffect(() => {
+    const wasRunning = !!recognizerRef.current && (isListeningRef.current || shouldMicKeepRunningRef.current);
+    recognizerRef.current?.stop();
+    recognizerRef.current = createRecognizer(settings.recognizerId, recognizerHandlers);
+    if (wasRunning) startRecognizer();
+  }, [settings.recognizerId, settings.language]);
+
+  const handleTranscript = ({ text, isFinal }: TranscriptEvent) => {
+    const heard = text.trim();
+    if (isFinal && heard && !isEcho(heard)) {
+      observeContext({ sender: 'other', text: heard });
+      if (activeModeRef.current === ViewMode.CONVERSATION) addMessage('other', heard);
+    }
+    if (utteranceEndedRef.current) {
+      utteranceEndedRef.current = false;
+      utteranceRef.current = '';
+      setSequenceIndex(0);
+    }
+    if (isFinal) utteranceRef.current = `${utteranceRef.current} ${heard}`.trim();
+    const utterance = isFinal ? utteranceRef.current : `${utteranceRef.current} ${heard}`.trim();
+    setLiveTranscript(utterance);
+    setInterimSpeech(isFinal ? '' : heard);
+    console.log('Speech detected:', utterance);
+
+    // Turn the whole utterance into signs (for LISTENER mode); playback
+    // carries on through the sequence as it grows
+    setSignSequence(textToSigns(utterance, wordSigns(customSignsRef.current), settingsRef.current.language));
+
+    // Auto-reset transcript after 2 seconds of silence (faster for rapid speech)
+    if (clearTimerRef.current) clearTimeout(clearTimerRef.current);
+    clearTimerRef.current = window.setTimeout(() => {
+      setLiveTranscript('');
+      utteranceEndedRef.current = true;
+      console.log('Transcript cleared');
+    }, settingsRef.current.transcriptResetMs);
+  };
 
-      rec.onerror = (e: any) => {
-        console.error('Speech error:', e.error);
-        if (e.error !== 'no-speech') setIsSpeechActive(false);
-      };
+  // The recognizer keeps the handlers it was created with, so they only go
+  // through refs and state setters
+  const recognizerHandlers: RecognizerHandlers = {
+    onTranscript: event => handleTranscript(event),
+    onActiveChange: setIsSpeechActive,
+    onError: message => console.error('Speech error:', message)
+  };
 
-      rec.onend = () => {
-        setIsSpeechActive(false);
-        // Auto-restart if it was supposed to be running (either Camera or Mic mode)
-        if (isListeningRef.current || shouldMicKeepRunningRef.current) {
-          console.log('Restarting speech recognition...');
-          try { rec.start(); } catch (e) { console.log('Restart ignored'); }
-        }
-      };
-      recognitionRef.current = rec;
-    } else {
-      console.log('Speech recognition not supported');
+  const startRecognizer = async () => {
+    try {
+      await recognizerRef.current?.start(getLanguage(settingsRef.current.language).speechLang);
+    } catch (e) {
+      console.error('Speech recognition could not start:', e);
     }
   };
 
@@ -350,8 +651,8 @@ export default function App() {
     if (shouldMicKeepRunningRef.current) {
       // User wants to stop
       shouldMicKeepRunningRef.current = false;
-      recognitionRef.current?.stop();
-      setIsSpeechActive(false);
+      // The camera keeps listening while it runs
+      if (!isListeningRef.current) recognizerRef.current?.stop();
       return;
     }
 
@@ -362,20 +663,21 @@ export default function App() {
     unlockAudio();
 
     try {
-      await navigator.mediaDevices.getUserMedia({ audio: true });
-      recognitionRef.current?.start();
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      stream.getTracks().forEach(t => t.stop());
     } catch (e) {
       console.error('Microphone access denied:', e);
       shouldMicKeepRunningRef.current = false;
-      alert('Please allow microphone access for speech recognition.');
+      alert(t('listener.micDenied'));
+      return;
     }
+    startRecognizer();
   };
 
-  // Function to search for sign by text input
+  // Typed text gets the same matching as speech
   const searchSign = (query: string) => {
-    const q = query.toUpperCase().trim();
-    const found = customSigns.find(s => s.label === q);
-    setMatchedSign(found || null);
+    setSignSequence(textToSigns(query, wordSigns(customSigns), settings.language));
+    setSequenceIndex(0);
   };
 
   const processAudioQueue = () => {
@@ -425,193 +727,314 @@ export default function App() {
     }
   };
 
-  const speakWord = async (word: string) => {
-    // Prevent repeating the same word consecutively
-    if (lastSpokenWordRef.current === word) {
-      console.log('Word already spoken recently, skipping:', word);
-      return;
-    }
-    lastSpokenWordRef.current = word;
+  const addMessage = (sender: Message['sender'], text: string) => {
+    const message: Message = {
+      id: `${Date.now()}${Math.random().toString(36).slice(2, 6)}`,
+      text,
+      sender,
+      timestamp: new Date()
+    };
+    setConversation(prev => prev
+      ? { ...prev, messages: [...prev.messages, message] }
+      : { id: message.id, startedAt: message.timestamp, messages: [message] });
+  };
 
-    const apiKey = import.meta.env.VITE_ELEVENLABS_API_KEY;
-    console.log('speakWord called with:', word, 'API key present:', !!apiKey);
+  // A failed summary keeps the context shown so far
+  const refreshContext = () => {
+    const request = ++contextRequestRef.current;
+    contextEngineRef.current.summarize(wordSigns(customSignsRef.current).map(s => s.label))
+      .then(context => {
+        if (request === contextRequestRef.current) setConversationContext(context);
+      })
+      .catch(err => console.error('Conversation context failed:', err));
+  };
 
-    if (!apiKey) {
-      console.log('No ElevenLabs API key, falling back to browser TTS');
-      fallbackSpeak(word);
-      return;
+  // Signed sentences also teach the engine which signs follow which
+  const observeContext = (event: ContextEvent) => {
+    const engine = contextEngineRef.current;
+    engine.observe(event);
+    if (event.gloss) localStorage.setItem(CONTEXT_MODEL_KEY, JSON.stringify(engine.model()));
+    refreshContext();
+  };
+
+  // Starts the context over from the given messages (none for a new conversation)
+  const resetContext = (messages: Message[]) => {
+    const engine = contextEngineRef.current;
+    engine.reset();
+    messages.forEach(m => engine.observe({ sender: m.sender, text: m.text }));
+    if (messages.length > 0) refreshContext();
+    else {
+      contextRequestRef.current++;
+      setConversationContext(EMPTY_CONTEXT);
     }
+  };
+
+  const isEcho = (heard: string) => {
+    const last = lastSpokenRef.current;
+    if (!last || Date.now() - last.at > ECHO_WINDOW_MS) return false;
+    const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+    const spoken = normalize(last.text);
+    const candidate = normalize(heard);
+    return candidate.length > 0 && (spoken.includes(candidate) || candidate.includes(spoken));
+  };
+
+  // Plays clips from the cache when possible, otherwise synthesizes (and
+  // caches) them; falls back to the browser's own voice on any failure.
+  // Text is spoken in the spoken language unless told otherwise.
+  const speakText = async (text: string, lang = getLanguage(settingsRef.current.language).speechLang) => {
+    lastSpokenRef.current = { text, at: Date.now() };
+    const speech = settingsRef.current.speech;
+    const provider = getTtsProvider(speech.providerId);
+    const browser = getTtsProvider('browser');
 
     try {
-      const voiceId = 'JBFqnCBsd6RMkjVDRZzb'; // George voice
-      // console.log('Calling ElevenLabs API...');
-      const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
-        method: 'POST',
-        headers: {
-          'Accept': 'audio/mpeg',
-          'Content-Type': 'application/json',
-          'xi-api-key': apiKey
-        },
-        body: JSON.stringify({
-          text: word,
-          model_id: 'eleven_turbo_v2_5',
-          voice_settings: { stability: 0.5, similarity_boost: 0.75 }
-        })
+      if (!provider.isAvailable()) throw new Error(`${provider.name} is not configured`);
+      if (provider.kind === 'direct') {
+        provider.speak!(text, speech, lang);
+        return;
+      }
+      const key = clipKey(text, speech, lang);
+      const cache = clipCacheRef.current;
+      let clip = await cache?.get(key).catch(err => {
+        console.error('Could not read cached speech:', err);
+        return undefined;
       });
-
-      if (!response.ok) {
-        throw new Error(`ElevenLabs API error: ${response.status}`);
+      if (!clip) {
+        clip = await provider.synthesize!(text, speech, lang);
+        cache?.put(key, clip).catch(err => console.error('Could not cache speech:', err));
       }
-
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
-
-      // Add to queue and process
-      audioQueueRef.current.push(url);
+      audioQueueRef.current.push(URL.createObjectURL(clip));
       processAudioQueue();
-
     } catch (e: any) {
       console.error('TTS Error:', e);
-      // Fallback
-      fallbackSpeak(word);
+      if (browser.isAvailable()) browser.speak!(text, { ...speech, voiceId: null }, lang);
     }
   };
 
-  const fallbackSpeak = (word: string) => {
-    if ('speechSynthesis' in window) {
-      const utterance = new SpeechSynthesisUtterance(word);
-      utterance.rate = 1.0;
-      window.speechSynthesis.speak(utterance);
-    }
-  };
-
-  const calculateSimilarity = (live: any, saved: any) => {
-    let totalDist = 0;
-    const weights = [1, 1, 1, 1, 4, 1, 1, 1, 4, 1, 1, 1, 4, 1, 1, 1, 4, 1, 1, 1, 4];
-    let weightSum = 0;
-    for (let i = 0; i < 21; i++) {
-      const dist = Math.sqrt(
-        Math.pow(live.normalized[i].nx - saved.normalized[i].nx, 2) +
-        Math.pow(live.normalized[i].ny - saved.normalized[i].ny, 2)
-      );
-      totalDist += dist * weights[i];
-      weightSum += weights[i];
-    }
-    const geomScore = Math.max(0, 1 - (totalDist / weightSum * 2.2));
-    let stateMatches = 0;
-    for (let i = 0; i < 5; i++) {
-      if (live.curlStates[i] === saved.curlStates[i]) stateMatches++;
-    }
-    const stateScore = stateMatches / 5;
-    return (geomScore * 0.7) + (stateScore * 0.3);
-  };
-
-  const onResults = (results: any) => {
+  // Handles one frame of hand landmarks: MediaPipe's live results, or a
+  // recorded frame during replay, which brings its own time and camera
+  const onResults = (results: any, t = Date.now()) => {
     if (!canvasRef.current) return;
     const ctx = canvasRef.current.getContext('2d')!;
-    if (videoRef.current) {
-      const { videoWidth, videoHeight } = videoRef.current;
-      if (canvasRef.current.width !== videoWidth || canvasRef.current.height !== videoHeight) {
-        canvasRef.current.width = videoWidth;
-        canvasRef.current.height = videoHeight;
-      }
+    const settings = settingsRef.current;
+    const video = videoRef.current;
+    const camera = replayRef.current?.session.camera ?? {
+      width: video?.videoWidth || 0,
+      height: video?.videoHeight || 0,
+      mirroredCamera: settings.mirroredCamera,
+      dominantHand: settings.dominantHand
+    };
+    if (camera.width && (canvasRef.current.width !== camera.width || canvasRef.current.height !== camera.height)) {
+      canvasRef.current.width = camera.width;
+      canvasRef.current.height = camera.height;
     }
     ctx.save();
     ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-    const marks = results.multiHandLandmarks?.[0];
-
-    if (marks) {
-      const handData = processHandData(marks);
-      currentHandDataRef.current = handData;
-      drawConnectors(ctx, marks, HAND_CONNECTIONS, { color: '#6366f1', lineWidth: 4 });
-
-      marks.forEach((point: any, i: number) => {
-        const isTip = [4, 8, 12, 16, 20].includes(i);
-        const fingerIdx = [4, 8, 12, 16, 20].indexOf(i);
-        const color = isTip && handData.curlStates[fingerIdx] === 1 ? '#fb7185' : '#818cf8';
-        ctx.beginPath();
-        ctx.arc(point.x * canvasRef.current!.width, point.y * canvasRef.current!.height, isTip ? 6 : 3, 0, 2 * Math.PI);
-        ctx.fillStyle = color;
-        ctx.fill();
-      });
-
-      const allMatches: Prediction[] = customSignsRef.current.map(sign => {
-        let bestSampleConf = 0;
-        sign.samples.forEach(sample => {
-          const conf = calculateSimilarity(handData, sample);
-          if (conf > bestSampleConf) bestSampleConf = conf;
+    sessionRecorderRef.current?.frame(results, t);
+    // Practice scores the hand against one sign instead of recognizing
+    const practicing = activeModeRef.current === ViewMode.ACADEMY;
+    const frameCamera = {
+      aspect: camera.width && camera.height ? camera.width / camera.height : DEFAULT_FEATURE_OPTIONS.aspect,
+      mirroredCamera: camera.mirroredCamera,
+      dominantHand: camera.dominantHand
+    };
+    const frame = practicing ? recognition.engine.track(results, t, frameCamera) : recognition.push(results, t, frameCamera);
+    currentHandDataRef.current = frame;
+
+    if (frame) {
+      handCompleteRef.current = isHandComplete(results);
+      motionRecordingRef.current?.push(frame);
+      if (burstAngleRef.current && handCompleteRef.current) burstFramesRef.current.push({ ...frame, angle: burstAngleRef.current });
+      results.multiHandLandmarks.forEach((marks: any[]) => {
+        const { curlStates } = processHandData(marks);
+        drawConnectors(ctx, marks, HAND_CONNECTIONS, { color: '#6366f1', lineWidth: 4 });
+
+        marks.forEach((point: any, i: number) => {
+          const isTip = [4, 8, 12, 16, 20].includes(i);
+          const fingerIdx = [4, 8, 12, 16, 20].indexOf(i);
+          const color = isTip && curlStates[fingerIdx] === 1 ? '#fb7185' : '#818cf8';
+          ctx.beginPath();
+          ctx.arc(point.x * canvasRef.current!.width, point.y * canvasRef.current!.height, isTip ? 6 : 3, 0, 2 * Math.PI);
+          ctx.fillStyle = color;
+          ctx.fill();
         });
-        return { label: sign.label, confidence: bestSampleConf };
-      })
-        .filter(p => p.confidence > 0.45)
-        .sort((a, b) => b.confidence - a.confidence)
-        .slice(0, 3);
-
-      if (allMatches.length > 0 && allMatches[0].confidence > CONFIDENCE_THRESHOLD) {
-        setPredictions(allMatches);
-
-        const topMatch = allMatches[0];
-        const now = Date.now();
-        if (!lastDetectedRef.current ||
-          (lastDetectedRef.current.label !== topMatch.label && now - lastDetectedRef.current.time > 1000) ||
-          (lastDetectedRef.current.label === topMatch.label && now - lastDetectedRef.current.time > 2000)) {
-
-          // Prevent visual duplicates in sentence bar
-          setSentence(prev => {
-            const last = prev[prev.length - 1];
-            return last === topMatch.label ? prev : [...prev, topMatch.label];
-          });
-          speakWord(topMatch.label);
-          lastDetectedRef.current = { label: topMatch.label, time: now };
-        }
+      });
 
-        if (clearTimerRef.current) clearTimeout(clearTimerRef.current);
-        clearTimerRef.current = window.setTimeout(() => {
-          setPredictions([]);
-        }, CLEAR_DELAY);
-      }
-    } else {
-      currentHandDataRef.current = null;
+      if (practicing) practiceFrame(frame);
     }
     ctx.restore();
   };
 
+  // Predictions show until they go stale; words join the sentence, and
+  // fingerspelled letters show as they come until their word is finished
+  const applyRecognition = (events: RecognitionEvent[]) => events.forEach(event => {
+    if (event.type === 'predictions') {
+      // Holding a sign repeats the same predictions; skip the re-render
+      setPredictions(prev => samePredictions(prev, event.predictions) ? prev : event.predictions);
+      sessionRecorderRef.current?.predictions(event.predictions);
+      if (clearTimerRef.current) clearTimeout(clearTimerRef.current);
+      clearTimerRef.current = window.setTimeout(() => {
+        setPredictions([]);
+      }, settingsRef.current.clearDelayMs);
+      return;
+    }
+    if (event.startsSentence) setTranslation(null);
+    if (event.type === 'letters') {
+      if (event.startsSentence) setSentence([]);
+      setSpelledLetters(event.letters);
+      return;
+    }
+    setSpelledLetters('');
+    setSentence(prev => event.startsSentence ? [event.label] : [...prev, event.label]);
+  });
+
+  const practiceFrame = (frame: HandFrame) => {
+    const practice = practiceRef.current;
+    const sign = customSignsRef.current.find(s => s.id === practice.signId);
+    if (!sign || practice.graded) return;
+    const attempt = scoreAttempt(frame, recognition.engine.motionBuffer, sign);
+    setPracticeAttempt(attempt);
+    if (attempt.score < settingsRef.current.confidenceThreshold) {
+      practice.passingSince = null;
+      return;
+    }
+    if (practice.passingSince === null) practice.passingSince = frame.t;
+    // A motion is complete once it matches; a pose has to be held
+    if (isMotionSign(sign)) recognition.engine.consumeMotion();
+    else if (frame.t - practice.passingSince < PRACTICE_HOLD_MS) return;
+    gradePractice(sign.id, attempt.score, 'passed');
+  };
+
+  const gradePractice = (signId: string, score: number, outcome: PracticeOutcome) => {
+    practiceRef.current.graded = true;
+    const passMark = settingsRef.current.confidenceThreshold;
+    setPracticeProgress(prev => ({ ...prev, [signId]: recordAttempt(prev[signId] || newProgress(signId), score, passMark) }));
+    setPracticeOutcome(outcome);
+  };
+
+  const startPractice = (sign: CustomSign | null) => {
+    practiceRef.current = { signId: sign?.id ?? null, passingSince: null, graded: false };
+    setPracticeSignId(sign?.id ?? null);
+    setPracticeAttempt(null);
+    setPracticeOutcome(null);
+  };
+
+  const nextPractice = () => startPractice(nextSign(customSigns, practiceProgress, practiceSignId));
+
+  // Giving up on a quiz sign shows it and counts as a miss
+  const revealPractice = () => {
+    if (practiceSign && !practiceRef.current.graded) gradePractice(practiceSign.id, 0, 'missed');
+  };
+
+  const toggleSpelling = () => {
+    applyRecognition(recognition.engine.setSpelling(!isSpelling));
+    setIsSpelling(!isSpelling);
+  };
+
+  // Adds whichever letters aren't in the library yet
+  const installAlphabet = () => setCustomSigns(prev => {
+    const labels = new Set(prev.map(s => s.label));
+    return [...prev, ...createAlphabetPack().filter(s => !labels.has(s.label))];
+  });
+
+  const clearSentence = () => {
+    setSentence([]);
+    setTranslation(null);
+    setSpelledLetters('');
+    recognition.engine.reset();
+  };
+
   const toggleEngine = async () => {
     if (status === AppStatus.LISTENING) {
       isListeningRef.current = false;
       if (videoRef.current?.srcObject) (videoRef.current.srcObject as MediaStream).getTracks().forEach(t => t.stop());
+      if (!shouldMicKeepRunningRef.current) recognizerRef.current?.stop();
       setStatus(AppStatus.IDLE);
       return;
     }
     try {
       setStatus(AppStatus.CONNECTING);
-      const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+      const stream = await navigator.mediaDevices.getUserMedia({ video: cameraConstraints(settings.cameraId), audio: true });
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         videoRef.current.onloadedmetadata = () => {
           videoRef.current?.play();
           isListeningRef.current = true;
           setStatus(AppStatus.LISTENING);
-          const loop = async () => {
+          // Frames keep coming while MediaPipe is busy; only one is sent at a time
+          const loop = () => {
             if (!isListeningRef.current) return;
-            if (videoRef.current?.readyState === 4) await handsRef.current.send({ image: videoRef.current });
+            if (videoRef.current?.readyState === 4 && !sendingRef.current) {
+              sendingRef.current = true;
+              handsRef.current.send({ image: videoRef.current }).finally(() => { sendingRef.current = false; });
+            }
             requestAnimationFrame(loop);
           };
           loop();
-          try { recognitionRef.current?.start(); } catch (e) { }
+          startRecognizer();
         };
       }
     } catch (e) { setStatus(AppStatus.ERROR); }
   };
 
+  // Stopping returns the session so it can be saved
+  const toggleSessionRecording = () => {
+    const recorder = sessionRecorderRef.current;
+    sessionRecorderRef.current = null;
+    setIsRecordingSession(!recorder);
+    if (recorder) return recorder.finish();
+    const video = videoRef.current;
+    sessionRecorderRef.current = createSessionRecorder({
+      width: video?.videoWidth || 0,
+      height: video?.videoHeight || 0,
+      mirroredCamera: settings.mirroredCamera,
+      dominantHand: settings.dominantHand
+    });
+    sessionRecorderRef.current.sentence(sentence);
+    return null;
+  };
+
+  // Feeds a recorded session through recognition in place of the camera,
+  // recording what comes out so it can be compared with the original
+  const startReplay = async (text: string, speed: ReplaySpeed) => {
+    if (status === AppStatus.LISTENING || replayRef.current) return;
+    let session: RecordedSession;
+    try {
+      session = parseSessionFile(text);
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
+    clearSentence();
+    const recorder = createSessionRecorder(session.camera);
+    sessionRecorderRef.current = recorder;
+    const replay = replaySession(session, onResults, speed);
+    replayRef.current = { session, replay };
+    setReplayResult(null);
+    setIsReplaying(true);
+    // Every frame is scored so replays come out the same each time
+    recognition.setAdaptive(false);
+    const completed = await replay.done;
+    await recognition.idle();
+    recognition.setAdaptive(true);
+    replayRef.current = null;
+    sessionRecorderRef.current = null;
+    setIsReplaying(false);
+    if (!completed) return;
+    const replayed = recorder.finish();
+    // Only a 1× replay ends sentences where the recording did
+    setReplayResult({ comparison: compareSessions(session, replayed, speed === 1), session: replayed });
+  };
+
   const captureVariation = () => {
-    if (!teachLabel.trim() || !currentHandDataRef.current || countdown !== null) return;
+    if (!teachLabel.trim() || !currentHandDataRef.current || countdown !== null || isRecordingMotion) return;
     setCountdown(3);
     const timer = setInterval(() => {
       setCountdown(prev => {
         if (prev === null || prev <= 1) {
           clearInterval(timer);
-          saveSample();
+          if (activeTeachKind === 'motion') recordMotion();
+          else saveSample();
           return null;
         }
         return prev - 1;
@@ -619,56 +1042,138 @@ export default function App() {
     }, 1000);
   };
 
+  const recordMotion = () => {
+    if (motionRecordingRef.current) return;
+    motionRecordingRef.current = [];
+    setIsRecordingMotion(true);
+    setTimeout(() => {
+      const frames = motionRecordingRef.current || [];
+      motionRecordingRef.current = null;
+      setIsRecordingMotion(false);
+      saveMotionSample(frames);
+    }, MOTION_CAPTURE_MS);
+  };
+
+  const saveMotionSample = (frames: HandFrame[]) => {
+    const sequence = createMotionSample(frames);
+    if (!sequence) {
+      alert(t('training.noFrames'));
+      return;
+    }
+    const label = teachLabel.trim().toUpperCase();
+    setCustomSigns(prev => {
+      const existing = prev.find(s => s.label === label);
+      if (existing) {
+        return prev.map(s => s.label === label ? withTeachTranslation({ ...s, sequences: [...(s.sequences || []), sequence] }) : s);
+      } else {
+        return [...prev, withTeachTranslation({ id: Date.now().toString(), label, kind: 'motion', samples: [], sequences: [sequence] })];
+      }
+    });
+    setTeachLabel('');
+    setTeachTranslation('');
+  };
+
   const saveSample = () => {
     const data = currentHandDataRef.current;
-    if (!data) return;
     const label = teachLabel.trim().toUpperCase();
-    const newSample: HandSample = {
-      id: Date.now().toString(),
-      normalized: data.normalized,
-      curlStates: data.curlStates
-    };
+    // Letters and words are recognized separately, so only compare like with like
+    const pool = customSignsRef.current.filter(s => isLetterSign(s) === isLetterLabel(label));
+    const issue = checkSample(data, handCompleteRef.current, label, pool, settingsRef.current.confidenceThreshold);
+    if (!data || issue?.type === 'noHand' || issue?.type === 'partialHand') {
+      alert(t(issue?.type === 'partialHand' ? 'training.partialHand' : 'training.noHand'));
+      return;
+    }
+    if (issue?.type === 'duplicate' && !confirm(t('training.duplicate'))) return;
+    if (issue?.type === 'confused' && !confirm(t('training.confused', { label: issue.label }))) return;
+    addSamples(label, [toSample(data)]);
+  };
+
+  // Talks the signer through each capture position, recording a short
+  // burst at each, and keeps the steadiest and most varied frames
+  const captureBurst = async () => {
+    const label = teachLabel.trim().toUpperCase();
+    if (!label || burstStep || countdown !== null || isRecordingMotion) return;
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    burstFramesRef.current = [];
+    for (const angle of CAPTURE_ANGLES) {
+      setBurstStep({ angle, recording: false });
+      await wait(CAPTURE_PROMPT_MS);
+      burstAngleRef.current = angle;
+      setBurstStep({ angle, recording: true });
+      await wait(CAPTURE_BURST_MS);
+      burstAngleRef.current = null;
+    }
+    setBurstStep(null);
+    const existing = customSignsRef.current.find(s => s.label === label)?.samples || [];
+    const kept = selectFrames(burstFramesRef.current, existing);
+    burstFramesRef.current = [];
+    if (kept.length === 0) {
+      alert(t('training.noFrames'));
+      return;
+    }
+    addSamples(label, augmentBurst ? kept.flatMap(sample => [sample, ...augmentSample(sample)]) : kept);
+  };
+
+  const addSamples = (label: string, samples: HandSample[]) => {
     setCustomSigns(prev => {
       const existing = prev.find(s => s.label === label);
       if (existing) {
-        return prev.map(s => s.label === label ? { ...s, samples: [...s.samples, newSample] } : s);
+        return prev.map(s => s.label === label ? withTeachTranslation({ ...s, samples: [...s.samples, ...samples] }) : s);
       } else {
-        return [...prev, { id: Date.now().toString(), label, samples: [newSample] }];
+        return [...prev, withTeachTranslation({ id: Date.now().toString(), label, samples })];
       }
     });
     setTeachLabel('');
+    setTeachTranslation('');
+  };
+
+  // Labels stay upper case gloss; the word typed for the spoken language is
+  // kept next to it
+  const withTeachTranslation = (sign: CustomSign): CustomSign => {
+    const word = teachTranslation.trim();
+    const { language } = settingsRef.current;
+    return word && language !== 'en' ? { ...sign, translations: { ...sign.translations, [language]: word } } : sign;
+  };
+
+  const setSignTranslation = (id: string, word: string) => {
+    const { language } = settingsRef.current;
+    setCustomSigns(prev => prev.map(s => {
+      if (s.id !== id || (s.translations?.[language] || '') === word.trim()) return s;
+      const { [language]: _, ...others } = s.translations || {};
+      const translations = word.trim() ? { ...others, [language]: word.trim() } : others;
+      const { translations: __, ...sign } = s;
+      return Object.keys(translations).length > 0 ? { ...sign, translations } : sign;
+    }));
+  };
+
+  // Edits that would mix static and motion variations are refused
+  const editLibrary = (edit: (signs: CustomSign[]) => CustomSign[]) => {
+    try {
+      setCustomSigns(edit(customSigns));
+    } catch (err) {
+      console.error('Library edit refused:', err);
+      alert(t('training.kindMismatch'));
+    }
+  };
+
+  // Taking an existing label merges the two signs, after asking
+  const renameLibrarySign = (id: string, label: string) => {
+    const target = customSigns.find(s => s.label === normalizeLabel(label) && s.id !== id);
+    if (target && !confirm(t('training.confirmMerge', { label: target.label }))) return;
+    editLibrary(signs => renameSign(signs, id, label));
+    if (target) setExpandedSignId(target.id);
   };
 
   const clearLibrary = () => {
-    if (confirm("This will permanently delete ALL variations from the cloud and this device. Continue?")) {
+    if (confirm(supabase ? t('training.clearCloud') : t('training.clearDevice'))) {
       setCustomSigns([]);
-      localStorage.removeItem(STORAGE_KEY);
-      if (supabase) {
-        supabase.from('echo_library').delete().eq('id', 1).then(() => {
-          setIsCloudSynced('idle');
-        });
-      }
     }
   };
 
-  const doesExist = customSigns.some(s => s.label === teachLabel.trim().toUpperCase());
-
-  if (!supabase) {
-    return (
-      <div className="flex items-center justify-center h-screen bg-slate-950 text-white p-4">
-        <div className="max-w-md space-y-4 text-center">
-          <h1 className="text-3xl font-black text-rose-500">Configuration Missing</h1>
-          <p className="text-slate-400">The application requires Supabase credentials to function.</p>
-          <div className="bg-slate-900 p-4 rounded-lg text-left text-xs font-mono text-slate-300">
-            <p>Please add the following environment variables to your deployment settings (Vercel/GitHub):</p>
-            <br />
-            <p className="text-indigo-400">VITE_SUPABASE_URL</p>
-            <p className="text-indigo-400">VITE_SUPABASE_KEY</p>
-          </div>
-        </div>
-      </div>
-    );
-  }
+  const existingSign = customSigns.find(s => s.label === teachLabel.trim().toUpperCase());
+  const doesExist = !!existingSign;
+  // Variations are always added with the kind of the sign they belong to
+  const activeTeachKind: SignKind = existingSign ? (existingSign.kind || 'static') : teachKind;
 
   return (
     <div className="flex flex-col h-screen bg-slate-950 text-slate-100 font-sans overflow-hidden">
@@ -682,177 +1187,345 @@ export default function App() {
             <div className="flex items-center gap-1.5 mt-1">
               <div className={`w-1.5 h-1.5 rounded-full transition-all duration-500 ${isCloudSynced === 'success' ? 'bg-emerald-400 shadow-[0_0_8px_#10b981]' :
                 isCloudSynced === 'syncing' ? 'bg-indigo-400 animate-pulse' :
-                  isCloudSynced === 'error' ? 'bg-rose-500' : 'bg-slate-600'
+                  isCloudSynced === 'error' ? 'bg-rose-500' :
+                    isCloudSynced === 'offline' ? 'bg-amber-400' : 'bg-slate-600'
                 }`} />
               <span className="text-[7px] font-black uppercase tracking-widest opacity-40">
-                {isCloudSynced === 'success' ? 'Synchronized' : isCloudSynced === 'syncing' ? 'Syncing variations...' : 'Supabase Active'}
+                {t(`sync.${isCloudSynced}`, { count: pendingChanges })}
               </span>
             </div>
           </div>
         </div>
-        <nav className="flex bg-slate-800 p-1 rounded-xl gap-1 w-full sm:w-auto overflow-x-auto">
-          {[ViewMode.INTERPRETER, ViewMode.LISTENER, ViewMode.ACADEMY, ViewMode.TRAINING].map(m => (
-            <button key={m} onClick={() => setActiveMode(m)} className={`flex-1 sm:flex-none px-3 sm:px-6 py-2 rounded-lg text-[8px] sm:text-[10px] font-bold uppercase tracking-widest transition-all whitespace-nowrap ${activeMode === m ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-white'}`}>{m}</button>
-          ))}
-        </nav>
+        <div className="flex items-center gap-2 w-full sm:w-auto">
+          <nav className="flex flex-1 bg-slate-800 p-1 rounded-xl gap-1 sm:w-auto overflow-x-auto">
+            {[ViewMode.INTERPRETER, ViewMode.LISTENER, ViewMode.CONVERSATION, ViewMode.ACADEMY, ViewMode.TRAINING].map(m => (
+              <button key={m} onClick={() => setActiveMode(m)} className={`flex-1 sm:flex-none px-3 sm:px-6 py-2 rounded-lg text-[8px] sm:text-[10px] font-bold uppercase tracking-widest transition-all whitespace-nowrap ${activeMode === m ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-white'}`}>{t(`mode.${m}`)}</button>
+            ))}
+          </nav>
+          <button onClick={() => setShowSettings(true)} title={`${t('settings.title')} · ${activeProfile.name}`} className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-xl transition-colors shrink-0">
+            <svg className="w-4 h-4 text-slate-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+            <span className="hidden md:inline text-[9px] font-black uppercase tracking-widest text-slate-300 max-w-[8rem] truncate">{activeProfile.name}</span>
+          </button>
+        </div>
       </header>
 
+      {showSettings && (
+        <SettingsPanel
+          profiles={liveProfiles}
+          activeProfileId={activeProfile.id}
+          settings={settings}
+          isTraining={isTraining}
+          t={t}
+          onSelectProfile={setActiveProfileId}
+          onAddProfile={addProfile}
+          onRenameProfile={name => updateProfile(activeProfile.id, () => ({ name }))}
+          onDeleteProfile={deleteProfile}
+          onChange={updateSettings}
+          onReset={() => updateSettings(DEFAULT_SETTINGS)}
+          onTestVoice={() => speakText(createTranslate(settings.language)('voice.sample'))}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
       <main className="flex-1 flex flex-col lg:flex-row overflow-hidden relative">
-        {activeMode === ViewMode.ACADEMY ? (
-          <div className="flex-1 p-4 sm:p-10 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8 custom-scrollbar">
-            <div className="col-span-full mb-4">
-              <h2 className="text-2xl font-black">Visual Academy</h2>
-              <p className="text-slate-500 text-sm">Educational tools for sign language development.</p>
+        <div className="flex-1 relative bg-black flex items-center justify-center overflow-hidden">
+          <video ref={videoRef} className={`h-full w-full object-cover ${settings.mirroredCamera ? '' : 'mirror'}`} playsInline muted />
+          <canvas ref={canvasRef} className={`absolute inset-0 h-full w-full object-cover pointer-events-none ${settings.mirroredCamera ? '' : 'mirror'}`} />
+          {countdown && <div className="absolute inset-0 flex items-center justify-center text-[10rem] font-black text-white/40 animate-pulse z-50">{countdown}</div>}
+          {activeMode === ViewMode.TRAINING && showReport && (
+            <AccuracyReport signs={wordSigns(customSigns)} classifierId={settings.classifierId} threshold={settings.confidenceThreshold} onClose={() => setShowReport(false)} t={t} />
+          )}
+          {(activeMode === ViewMode.INTERPRETER || activeMode === ViewMode.CONVERSATION) && (
+            <div className="absolute top-4 left-4 sm:top-10 sm:left-10 z-20">
+              <ContextCard context={conversationContext} title={t('context.title', { engine: CONTEXT_ENGINE_OPTIONS.find(o => o.id === settings.contextEngineId)!.name })} />
+            </div>
+          )}
+          {burstStep && (
+            <div className="absolute inset-x-0 bottom-10 z-50 flex flex-col items-center gap-3 pointer-events-none">
+              <p className="px-6 py-3 bg-slate-900/80 backdrop-blur-md rounded-2xl text-lg font-black text-white">{t(`capture.${burstStep.angle}`)}</p>
+              {burstStep.recording && <p className="px-4 py-2 bg-rose-500 rounded-full text-xs font-black uppercase tracking-widest animate-pulse">{t('capture.hold')}</p>}
             </div>
-            {[
-              { title: 'Data Variations', concept: 'Why recording a sign from 3 angles (left, center, right) improves accuracy.', category: 'Theory' },
-              { title: 'JSONB Management', concept: 'How your hand variations are packed into high-speed Supabase blocks.', category: 'Cloud' },
-              { title: 'Confidence Curves', concept: 'Understanding the 72% threshold for reliable real-time interpretation.', category: 'AI' }
-            ].map((lesson, idx) => (
-              <div key={idx} className="p-6 bg-slate-900 rounded-[2rem] border border-white/5 space-y-4 hover:border-indigo-500/50 transition-all cursor-pointer">
-                <div className="aspect-video bg-slate-950 rounded-2xl flex items-center justify-center opacity-30 text-indigo-400"><svg className="w-10 h-10" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg></div>
-                <div><span className="text-[8px] font-black uppercase text-indigo-400 tracking-widest">{lesson.category}</span><h3 className="text-lg font-bold">{lesson.title}</h3><p className="text-xs text-slate-500 leading-relaxed mt-1">{lesson.concept}</p></div>
+          )}
+          {isRecordingMotion && <div className="absolute top-4 left-4 sm:top-10 sm:left-10 z-50 px-4 py-2 bg-rose-500 rounded-full text-xs font-black uppercase tracking-widest animate-pulse">{t('recording.motion')}</div>}
+
+          <div className="absolute top-4 right-4 sm:top-10 sm:right-10 z-20 flex flex-col gap-2 w-48 sm:w-64">
+            {predictions.map((p, i) => (
+              <div key={p.label} className={`px-4 py-2 sm:px-6 sm:py-3 bg-slate-900/80 backdrop-blur-md rounded-2xl border-2 transition-all duration-300 ${i === 0 ? 'border-indigo-400 scale-105 shadow-2xl' : 'border-white/5 opacity-50'}`}>
+                <div className="flex justify-between items-end mb-1"><p className={`font-black uppercase tracking-tighter ${i === 0 ? 'text-lg sm:text-2xl text-white' : 'text-xs sm:text-sm text-slate-400'}`}>{p.label}</p><p className="text-[10px] font-bold text-indigo-400">{Math.round(p.confidence * 100)}%</p></div>
+                <div className="h-1 bg-white/10 rounded-full overflow-hidden"><div className={`h-full transition-all duration-500 ${i === 0 ? 'bg-indigo-400' : 'bg-slate-500'}`} style={{ width: `${p.confidence * 100}%` }} /></div>
               </div>
             ))}
           </div>
-        ) : (
-          <>
-            <div className="flex-1 relative bg-black flex items-center justify-center overflow-hidden">
-              <video ref={videoRef} className="h-full w-full object-cover mirror" playsInline muted />
-              <canvas ref={canvasRef} className="absolute inset-0 h-full w-full object-cover mirror pointer-events-none" />
-              {countdown && <div className="absolute inset-0 flex items-center justify-center text-[10rem] font-black text-white/40 animate-pulse z-50">{countdown}</div>}
-
-              <div className="absolute top-4 right-4 sm:top-10 sm:right-10 z-20 flex flex-col gap-2 w-48 sm:w-64">
-                {predictions.map((p, i) => (
-                  <div key={p.label} className={`px-4 py-2 sm:px-6 sm:py-3 bg-slate-900/80 backdrop-blur-md rounded-2xl border-2 transition-all duration-300 ${i === 0 ? 'border-indigo-400 scale-105 shadow-2xl' : 'border-white/5 opacity-50'}`}>
-                    <div className="flex justify-between items-end mb-1"><p className={`font-black uppercase tracking-tighter ${i === 0 ? 'text-lg sm:text-2xl text-white' : 'text-xs sm:text-sm text-slate-400'}`}>{p.label}</p><p className="text-[10px] font-bold text-indigo-400">{Math.round(p.confidence * 100)}%</p></div>
-                    <div className="h-1 bg-white/10 rounded-full overflow-hidden"><div className={`h-full transition-all duration-500 ${i === 0 ? 'bg-indigo-400' : 'bg-slate-500'}`} style={{ width: `${p.confidence * 100}%` }} /></div>
-                  </div>
-                ))}
-              </div>
 
-              {activeMode === ViewMode.INTERPRETER && (
-                <>
-                  <div className="absolute bottom-20 sm:bottom-24 inset-x-4 sm:inset-x-10 flex flex-col items-center gap-4">
-                    <div className="p-6 sm:p-8 bg-slate-900/70 backdrop-blur-2xl border border-white/10 rounded-[2rem] sm:rounded-[2.5rem] text-center shadow-2xl w-full max-w-4xl">
-                      <p className="text-xl sm:text-3xl font-black italic tracking-tighter text-indigo-400 leading-tight mb-2">
-                        {sentence.length > 0 ? sentence.join(' ') : <span className="opacity-30">Waiting for signs...</span>}
-                      </p>
-                    </div>
-                    {sentence.length > 0 && (
-                      <button onClick={() => { setSentence([]); lastDetectedRef.current = null; }} className="bg-slate-800 text-slate-400 hover:text-white hover:bg-slate-700 px-6 py-2 rounded-full text-xs font-bold uppercase tracking-widest transition-all">Clear Sentence</button>
-                    )}
+          {activeMode === ViewMode.INTERPRETER && (
+            <>
+              <div className="absolute bottom-20 sm:bottom-24 inset-x-4 sm:inset-x-10 flex flex-col items-center gap-4">
+                <div className="p-6 sm:p-8 bg-slate-900/70 backdrop-blur-2xl border border-white/10 rounded-[2rem] sm:rounded-[2.5rem] text-center shadow-2xl w-full max-w-4xl">
+                  <p className="text-xl sm:text-3xl font-black italic tracking-tighter text-indigo-400 leading-tight mb-2" dir="auto">
+                    {translation ?? (sentence.length > 0 || spelledLetters ? (
+                      <>{sentence.join(' ')}{spelledLetters && <span className="text-white/60"> {spelledLetters}<span className="animate-pulse">_</span></span>}</>
+                    ) : <span className="opacity-30">{t(isSpelling ? 'interpreter.waitingLetters' : 'interpreter.waiting')}</span>)}
+                  </p>
+                  {translation && <p className="text-[10px] sm:text-xs font-bold uppercase tracking-widest text-slate-500">{sentence.join(' ')}</p>}
+                </div>
+                {isSpelling && !customSigns.some(isLetterSign) && (
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-amber-400">{t('interpreter.noAlphabet')}</p>
+                )}
+                <div className="flex items-center gap-3">
+                  <div className="flex bg-slate-900/80 backdrop-blur-md p-1 rounded-full gap-1 border border-white/10">
+                    {[false, true].map(spell => (
+                      <button key={String(spell)} onClick={() => spell !== isSpelling && toggleSpelling()} className={`px-4 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all ${isSpelling === spell ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>{spell ? t('interpreter.fingerspell') : t('interpreter.signs')}</button>
+                    ))}
                   </div>
-                </>
-              )}
+                  {(sentence.length > 0 || spelledLetters) && (
+                    <button onClick={clearSentence} className="bg-slate-800 text-slate-400 hover:text-white hover:bg-slate-700 px-6 py-2 rounded-full text-xs font-bold uppercase tracking-widest transition-all">{t('interpreter.clear')}</button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+
+          {activeMode === ViewMode.LISTENER && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center p-4 sm:p-8 overflow-y-auto">
+              <div className="bg-slate-900/90 backdrop-blur-xl border border-white/10 rounded-[1.5rem] sm:rounded-[2rem] p-4 sm:p-8 max-w-2xl w-full text-center space-y-4 sm:space-y-6">
+                <div>
+                  <p className="text-[9px] sm:text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-2">{t('listener.title')}</p>
+                  <p className="text-lg sm:text-2xl lg:text-4xl font-black text-white leading-tight" dir="auto">
+                    {liveTranscript || <span className="opacity-30">{t('listener.prompt')}</span>}
+                  </p>
+                </div>
 
-              {activeMode === ViewMode.LISTENER && (
-                <div className="absolute inset-0 flex flex-col items-center justify-center p-4 sm:p-8 overflow-y-auto">
-                  <div className="bg-slate-900/90 backdrop-blur-xl border border-white/10 rounded-[1.5rem] sm:rounded-[2rem] p-4 sm:p-8 max-w-2xl w-full text-center space-y-4 sm:space-y-6">
-                    <div>
-                      <p className="text-[9px] sm:text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-2">Speech-to-Sign Mode</p>
-                      <p className="text-lg sm:text-2xl lg:text-4xl font-black text-white leading-tight">
-                        {liveTranscript || <span className="opacity-30">Activate microphone...</span>}
-                      </p>
-                    </div>
+                <button
+                  onClick={startSpeechOnly}
+                  className={`px-8 py-4 rounded-2xl font-black text-sm uppercase tracking-widest transition-all ${isSpeechActive ? 'bg-rose-500 animate-pulse' : 'bg-emerald-600 hover:bg-emerald-500'}`}
+                >
+                  {isSpeechActive ? t('listener.listening') : t('listener.start')}
+                </button>
 
-                    <button
-                      onClick={startSpeechOnly}
-                      className={`px-8 py-4 rounded-2xl font-black text-sm tracking-widest transition-all ${isSpeechActive ? 'bg-rose-500 animate-pulse' : 'bg-emerald-600 hover:bg-emerald-500'}`}
-                    >
-                      {isSpeechActive ? '🎤 LISTENING...' : '🎤 START MICROPHONE'}
-                    </button>
+                <div className={`text-xs font-bold uppercase tracking-widest ${isSpeechActive ? 'text-emerald-400' : 'text-slate-500'}`}>
+                  {isSpeechActive ? t('listener.active') : t('listener.off')}
+                </div>
 
-                    <div className={`text-xs font-bold uppercase tracking-widest ${isSpeechActive ? 'text-emerald-400' : 'text-slate-500'}`}>
-                      {isSpeechActive ? '● Speech Recognition Active' : '○ Microphone Off'}
-                    </div>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="text"
+                    value={textInput}
+                    onChange={(e) => setTextInput(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') searchSign(textInput); }}
+                    placeholder={t('listener.placeholder')}
+                    dir="auto"
+                    className="flex-1 bg-slate-950 border border-white/10 rounded-xl px-4 py-3 text-base sm:text-lg font-bold outline-none focus:border-indigo-500"
+                  />
+                  <button
+                    onClick={() => searchSign(textInput)}
+                    className="px-6 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-xl font-bold uppercase text-xs sm:text-sm tracking-wide"
+                  >
+                    {t('listener.search')}
+                  </button>
+                </div>
 
-                    <div className="flex flex-col sm:flex-row gap-2">
-                      <input
-                        type="text"
-                        value={textInput}
-                        onChange={(e) => setTextInput(e.target.value)}
-                        onKeyDown={(e) => { if (e.key === 'Enter') searchSign(textInput); }}
-                        placeholder="Type a word..."
-                        className="flex-1 bg-slate-950 border border-white/10 rounded-xl px-4 py-3 text-base sm:text-lg font-bold outline-none focus:border-indigo-500"
-                      />
-                      <button
-                        onClick={() => searchSign(textInput)}
-                        className="px-6 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-xl font-bold uppercase text-xs sm:text-sm tracking-wide"
-                      >
-                        Search
-                      </button>
+                {currentSequenceSign ? (
+                  <div className="space-y-3 sm:space-y-4">
+                    <div className="flex flex-wrap justify-center gap-1.5">
+                      {signSequence.map((item, i) => item.type === 'sign' ? (
+                        <button
+                          key={i}
+                          onClick={() => setSequenceIndex(i)}
+                          title={item.match === 'exact' ? undefined : t('listener.match', { words: item.words.join(' '), match: item.match })}
+                          className={`px-2.5 py-1 rounded-lg text-[10px] sm:text-xs font-black uppercase tracking-widest transition-all ${i === currentSequenceIndex ? 'bg-emerald-500 text-white' : 'bg-slate-800 text-emerald-300 hover:bg-slate-700'}`}
+                        >
+                          {item.sign.label}
+                        </button>
+                      ) : (
+                        <span key={i} title={t('listener.unmatched')} className="px-2.5 py-1 rounded-lg text-[10px] sm:text-xs font-bold uppercase tracking-widest text-rose-400/70 line-through decoration-rose-400/50">{item.word}</span>
+                      ))}
                     </div>
-
-                    {matchedSign ? (
-                      <div className="space-y-3 sm:space-y-4">
-                        <p className="text-xs sm:text-sm text-emerald-400 font-bold uppercase tracking-widest">Sign Found: {matchedSign.label}</p>
-                        <SignPreview sign={matchedSign} />
-                      </div>
-                    ) : (
-                      <div className="py-12 text-slate-500 text-sm">
-                        <p>Speak a word that matches a trained sign</p>
-                        <p className="text-xs mt-2 opacity-50">Available: {customSigns.map(s => s.label).join(', ') || 'None trained yet'}</p>
-                      </div>
-                    )}
+                    <p className="text-xs sm:text-sm text-emerald-400 font-bold uppercase tracking-widest">{t('listener.sign', { label: currentSequenceSign.label })}</p>
+                    <SignPreview sign={currentSequenceSign} />
                   </div>
-                </div>
-              )}
+                ) : (
+                  <div className="py-12 text-slate-500 text-sm">
+                    <p>{signSequence.length > 0 ? t('listener.noMatch') : t('listener.empty')}</p>
+                    <p className="text-xs mt-2 opacity-50">{t('listener.available', { labels: wordSigns(customSigns).map(s => settings.language === 'en' ? s.label : `${s.label} (${signWord(s, settings.language)})`).join(', ') || t('listener.noneTrained') })}</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
 
-              <button onClick={toggleEngine} className={`absolute bottom-6 sm:bottom-8 left-1/2 -translate-x-1/2 px-8 py-4 sm:px-12 sm:py-6 rounded-2xl font-black text-xs sm:text-sm tracking-widest shadow-2xl transition-all z-30 whitespace-nowrap ${status === AppStatus.LISTENING ? 'bg-rose-500' : 'bg-indigo-600 hover:bg-indigo-500'}`}>{status === AppStatus.LISTENING ? 'DISABLE ENGINE' : 'ACTIVATE CAMERA'}</button>
+          {frameStats && (
+            <div className="absolute bottom-24 left-4 sm:bottom-8 sm:left-8 z-30 px-3 py-2 bg-slate-900/80 backdrop-blur-md rounded-lg text-[9px] font-black uppercase tracking-widest text-slate-400" title={recognition.inWorker ? undefined : t('engine.mainThread')}>
+              {t('engine.stats', { fps: Math.round(frameStats.fps), latency: Math.round(frameStats.latencyMs), skipped: Math.round(frameStats.skipped * 100) })}
             </div>
+          )}
+          <div className="absolute bottom-24 right-4 sm:bottom-8 sm:right-8 z-30">
+            <SessionControls
+              isLive={status === AppStatus.LISTENING}
+              isRecording={isRecordingSession}
+              isReplaying={isReplaying}
+              result={replayResult}
+              onToggleRecording={toggleSessionRecording}
+              onReplay={startReplay}
+              onStopReplay={() => replayRef.current?.replay.stop()}
+              onDismissResult={() => setReplayResult(null)}
+              t={t}
+            />
+          </div>
+          <button onClick={toggleEngine} disabled={isReplaying} className={`absolute bottom-6 sm:bottom-8 left-1/2 -translate-x-1/2 px-8 py-4 sm:px-12 sm:py-6 rounded-2xl font-black text-xs sm:text-sm uppercase tracking-widest shadow-2xl transition-all z-30 whitespace-nowrap disabled:opacity-30 ${status === AppStatus.LISTENING ? 'bg-rose-500' : 'bg-indigo-600 hover:bg-indigo-500'}`}>{status === AppStatus.LISTENING ? t('engine.stop') : t('engine.start')}</button>
+        </div>
 
-            {activeMode === ViewMode.TRAINING && (
-              <aside className="w-full lg:w-[380px] bg-slate-900 border-t lg:border-t-0 lg:border-l border-white/10 flex flex-col shrink-0 overflow-hidden h-[50vh] lg:h-auto">
-                <div className="p-4 sm:p-8 space-y-4 sm:space-y-6 bg-slate-900/50">
-                  <div className="flex justify-between items-center">
-                    <h2 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.4em]">Variation Manager</h2>
-                    <button onClick={clearLibrary} className="p-2 bg-slate-800 rounded-lg hover:bg-rose-900 transition-colors"><svg className="w-4 h-4 text-rose-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
-                  </div>
-                  <div className="space-y-4">
-                    <div className="flex flex-col gap-1">
-                      <label className="text-[10px] font-black opacity-40 uppercase ml-1">Gesture Name</label>
-                      <input value={teachLabel} onChange={e => setTeachLabel(e.target.value)} placeholder="e.g. HELLO" className="w-full bg-slate-950 border border-white/10 rounded-xl px-5 py-4 text-lg font-bold outline-none focus:border-indigo-500" />
-                    </div>
-                    <button onClick={captureVariation} disabled={!teachLabel.trim() || status !== AppStatus.LISTENING || countdown !== null} className={`w-full py-5 rounded-xl font-black uppercase tracking-widest transition-all ${doesExist ? 'bg-amber-600 hover:bg-amber-500 shadow-amber-900/20' : 'bg-indigo-600 hover:bg-indigo-500 shadow-indigo-900/20'} disabled:opacity-20`}>{countdown !== null ? `Capturing...` : doesExist ? 'Add Variation' : 'Train New'}</button>
+        {activeMode === ViewMode.CONVERSATION && (
+          <ConversationPanel
+            conversation={conversation}
+            history={conversationHistory}
+            pendingMine={translation ? '' : sentence.join(' ')}
+            pendingTheirs={interimSpeech}
+            isMicActive={isSpeechActive}
+            t={t}
+            onToggleMic={startSpeechOnly}
+            onNew={() => {
+              setConversation(null);
+              resetContext([]);
+            }}
+            onOpen={c => {
+              setConversation(c);
+              resetContext(c.messages);
+            }}
+            onDelete={id => {
+              conversationLogRef.current?.remove(id).catch(err => console.error('Could not delete conversation:', err));
+              setConversationHistory(prev => prev.filter(c => c.id !== id));
+              if (conversation?.id === id) {
+                setConversation(null);
+                resetContext([]);
+              }
+            }}
+          />
+        )}
+
+        {activeMode === ViewMode.TRAINING && (
+          <aside className="w-full lg:w-[380px] bg-slate-900 border-t lg:border-t-0 lg:border-l border-white/10 flex flex-col shrink-0 overflow-hidden h-[50vh] lg:h-auto">
+            <div className="p-4 sm:p-8 space-y-4 sm:space-y-6 bg-slate-900/50">
+              <div className="flex justify-between items-center">
+                <h2 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.4em]">{t('training.title')}</h2>
+                <div className="flex gap-2">
+                  <button onClick={() => setShowReport(v => !v)} title={t('training.report')} className={`p-2 rounded-lg transition-colors ${showReport ? 'bg-indigo-600' : 'bg-slate-800 hover:bg-indigo-900'}`}><svg className="w-4 h-4 text-indigo-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg></button>
+                  <button onClick={clearLibrary} className="p-2 bg-slate-800 rounded-lg hover:bg-rose-900 transition-colors"><svg className="w-4 h-4 text-rose-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
+                </div>
+              </div>
+              {supabase && (
+                <CloudAccount client={supabase} email={cloudUser?.email ?? null} libraries={cloudLibraries} activeLibraryId={activeLibraryId} onSelectLibrary={selectLibrary} t={t} />
+              )}
+              <div className="space-y-4">
+                <div className="flex flex-col gap-1">
+                  <label className="text-[10px] font-black opacity-40 uppercase ml-1">{t('training.name')}</label>
+                  <input value={teachLabel} onChange={e => setTeachLabel(e.target.value)} placeholder={t('training.namePlaceholder')} className="w-full bg-slate-950 border border-white/10 rounded-xl px-5 py-4 text-lg font-bold outline-none focus:border-indigo-500" />
+                </div>
+                {settings.language !== 'en' && (
+                  <div className="flex flex-col gap-1">
+                    <label className="text-[10px] font-black opacity-40 uppercase ml-1">{t('training.translation', { language: spokenLanguage.nativeName })}</label>
+                    <input value={teachTranslation} onChange={e => setTeachTranslation(e.target.value)} placeholder={existingSign?.translations?.[settings.language]} dir="auto" className="w-full bg-slate-950 border border-white/10 rounded-xl px-5 py-3 font-bold outline-none focus:border-indigo-500" />
                   </div>
+                )}
+                <div className="flex bg-slate-950 p-1 rounded-xl gap-1">
+                  {(['static', 'motion'] as SignKind[]).map(k => (
+                    <button key={k} onClick={() => setTeachKind(k)} disabled={doesExist} className={`flex-1 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${activeTeachKind === k ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'} disabled:cursor-not-allowed`}>{k === 'static' ? t('training.static') : t('training.motion')}</button>
+                  ))}
                 </div>
-
-                <div className="flex-1 overflow-y-auto px-4 sm:px-8 pb-10 space-y-3 custom-scrollbar">
-                  <div className="flex items-center justify-between pt-4 border-t border-white/5">
-                    <h3 className="text-[10px] font-black opacity-30 uppercase tracking-widest">Variation Library</h3>
-                    <div className="flex items-center gap-1">
-                      <div className={`w-1 h-1 rounded-full ${isCloudSynced === 'success' ? 'bg-emerald-500' : 'bg-slate-600'}`} />
-                      <span className="text-[7px] font-black opacity-40 uppercase">Safe Cloud</span>
-                    </div>
+                <button onClick={captureVariation} disabled={!teachLabel.trim() || status !== AppStatus.LISTENING || countdown !== null || isRecordingMotion || burstStep !== null} className={`w-full py-5 rounded-xl font-black uppercase tracking-widest transition-all ${doesExist ? 'bg-amber-600 hover:bg-amber-500 shadow-amber-900/20' : 'bg-indigo-600 hover:bg-indigo-500 shadow-indigo-900/20'} disabled:opacity-20`}>{isRecordingMotion ? t('training.recording') : countdown !== null ? t('training.capturing') : doesExist ? t('training.addVariation') : t('training.trainNew')}</button>
+                {activeTeachKind === 'static' && (
+                  <div className="flex items-center gap-3">
+                    <button onClick={captureBurst} disabled={!teachLabel.trim() || status !== AppStatus.LISTENING || countdown !== null || burstStep !== null} className="flex-1 py-3 rounded-xl bg-slate-800 hover:bg-indigo-900 text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-20">{burstStep ? t('training.recording') : t('training.guidedCapture')}</button>
+                    <label className="flex items-center gap-2 text-[9px] font-bold uppercase tracking-widest text-slate-400">
+                      <input type="checkbox" checked={augmentBurst} onChange={e => setAugmentBurst(e.target.checked)} className="accent-indigo-500" />
+                      {t('training.augment')}
+                    </label>
                   </div>
-                  {customSigns.length === 0 ? (
-                    <div className="py-12 text-center text-[10px] font-bold opacity-20 uppercase tracking-widest border border-dashed border-white/10 rounded-2xl">Empty Library</div>
-                  ) : (
-                    customSigns.slice().reverse().map(sign => (
-                      <div key={sign.id} className="p-4 bg-slate-800/40 rounded-2xl border border-white/5 flex items-center justify-between group hover:bg-slate-800/60 transition-all">
-                        <div className="overflow-hidden">
-                          <div className="flex items-center gap-2">
-                            <p className="font-bold text-base truncate">{sign.label}</p>
-                            <svg className="w-3 h-3 text-emerald-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>
-                          </div>
-                          <div className="flex gap-1 items-center mt-1">
-                            <div className="flex gap-1">
-                              {sign.samples.map((_, i) => (
-                                <div key={i} className="w-1.5 h-1.5 rounded-full bg-indigo-500" />
-                              ))}
-                            </div>
-                            <span className="text-[8px] font-black opacity-30 uppercase ml-1">{sign.samples.length} Recorded</span>
+                )}
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-4 sm:px-8 pb-10 space-y-3 custom-scrollbar">
+              <div className="flex items-center justify-between pt-4 border-t border-white/5">
+                <h3 className="text-[10px] font-black opacity-30 uppercase tracking-widest">{t('training.library')}</h3>
+                <div className="flex items-center gap-1">
+                  <div className={`w-1 h-1 rounded-full ${isCloudSynced === 'success' ? 'bg-emerald-500' : 'bg-slate-600'}`} />
+                  <span className="text-[7px] font-black opacity-40 uppercase">{supabase ? t('training.cloud') : t('training.device')}</span>
+                </div>
+              </div>
+              <LibraryTransfer signs={customSigns} onImport={setCustomSigns} t={t} />
+              {customSigns.filter(isLetterSign).length < ALPHABET.length && (
+                <button onClick={installAlphabet} title={t('training.alphabetHint')} className="w-full py-2 bg-slate-800 hover:bg-slate-700 rounded-xl text-[9px] font-black uppercase tracking-widest">{t('training.installAlphabet')}</button>
+              )}
+              {customSigns.length === 0 ? (
+                <div className="py-12 text-center text-[10px] font-bold opacity-20 uppercase tracking-widest border border-dashed border-white/10 rounded-2xl">{t('training.empty')}</div>
+              ) : (
+                customSigns.slice().reverse().map(sign => (
+                  <div key={sign.id} className="p-4 bg-slate-800/40 rounded-2xl border border-white/5 group hover:bg-slate-800/60 transition-all">
+                    <div className="flex items-center justify-between">
+                      <div className="overflow-hidden">
+                        <div className="flex items-center gap-2">
+                          <p className="font-bold text-base truncate">{sign.label}</p>
+                          {isTwoHandedSign(sign) && <span className="text-[7px] font-black uppercase tracking-widest px-1.5 py-0.5 rounded bg-emerald-500/20 text-emerald-300">{t('training.twoHands')}</span>}
+                          {isMotionSign(sign) && <span className="text-[7px] font-black uppercase tracking-widest px-1.5 py-0.5 rounded bg-indigo-500/20 text-indigo-300">{t('training.motion')}</span>}
+                          <svg className="w-3 h-3 text-emerald-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>
+                        </div>
+                        <div className="flex gap-1 items-center mt-1">
+                          <div className="flex gap-1">
+                            {[...sign.samples, ...(sign.sequences || [])].map((_, i) => (
+                              <div key={i} className="w-1.5 h-1.5 rounded-full bg-indigo-500" />
+                            ))}
                           </div>
+                          <span className="text-[8px] font-black opacity-30 uppercase ml-1">{t('training.recorded', { count: sign.samples.length + (sign.sequences?.length || 0) })}</span>
                         </div>
+                        {settings.language !== 'en' && (
+                          <input
+                            key={`${settings.language}:${sign.translations?.[settings.language] ?? ''}`}
+                            defaultValue={sign.translations?.[settings.language] ?? ''}
+                            onBlur={e => setSignTranslation(sign.id, e.target.value)}
+                            onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                            placeholder={t('training.translation', { language: spokenLanguage.nativeName })}
+                            dir="auto"
+                            className="mt-2 w-full bg-slate-950/60 border border-white/5 rounded-lg px-2 py-1 text-xs font-bold outline-none focus:border-indigo-500"
+                          />
+                        )}
+                      </div>
+                      <div className="flex shrink-0">
+                        <button onClick={() => setExpandedSignId(id => id === sign.id ? null : sign.id)} title={t('training.edit')} className={`p-2 transition-all ${expandedSignId === sign.id ? 'text-indigo-400' : 'text-slate-600 hover:text-white'}`}><svg className={`w-4 h-4 transition-transform ${expandedSignId === sign.id ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg></button>
                         <button onClick={() => setCustomSigns(prev => prev.filter(s => s.id !== sign.id))} className="p-2 text-slate-600 hover:text-rose-400 transition-all opacity-0 group-hover:opacity-100"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
                       </div>
-                    ))
-                  )}
-                </div>
-              </aside>
-            )}
-          </>
+                    </div>
+                    {expandedSignId === sign.id && (
+                      <SignEditor
+                        sign={sign}
+                        labels={customSigns.map(s => s.label)}
+                        onRename={label => renameLibrarySign(sign.id, label)}
+                        onDeleteVariation={id => editLibrary(signs => removeVariation(signs, sign.id, id))}
+                        onMoveVariation={(id, label) => editLibrary(signs => moveVariation(signs, sign.id, id, label))}
+                        t={t}
+                      />
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </aside>
+        )}
+        {activeMode === ViewMode.ACADEMY && (
+          <PracticePanel
+            signs={customSigns}
+            target={practiceSign}
+            progress={practiceProgress}
+            attempt={practiceAttempt}
+            outcome={practiceOutcome}
+            passMark={settings.confidenceThreshold}
+            isQuiz={isQuiz}
+            isCameraOn={status === AppStatus.LISTENING}
+            onQuizChange={setIsQuiz}
+            onReveal={revealPractice}
+            onSkip={nextPractice}
+            onNext={nextPractice}
+            t={t}
+          />
         )}
       </main>
     </div>
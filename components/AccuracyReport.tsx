@@ -0,0 +1,140 @@
+import * as React from 'react';
+import { CustomSign } from '../types.ts';
+import { ClassifierId, CLASSIFIER_OPTIONS, createClassifier } from '../utils/classifiers.ts';
+import { evaluateLibrary, EvaluationReport } from '../utils/evaluation.ts';
+import { Translate } from '../utils/i18n.ts';
+
+interface AccuracyReportProps {
+  signs: CustomSign[];
+  classifierId: ClassifierId;
+  threshold: number;
+  onClose: () => void;
+  t: Translate;
+}
+
+const percent = (n: number, d: number) => d > 0 ? `${Math.round((n / d) * 100)}%` : '—';
+
+const AccuracyReport = ({ signs, classifierId, threshold, onClose, t }: AccuracyReportProps) => {
+  const [report, setReport] = React.useState<EvaluationReport | null>(null);
+  const [progress, setProgress] = React.useState<{ done: number; total: number } | null>(null);
+  const engineName = CLASSIFIER_OPTIONS.find(o => o.id === classifierId)?.name;
+
+  const run = async () => {
+    setReport(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const result = await evaluateLibrary(signs, () => createClassifier(classifierId), (done, total) => setProgress({ done, total }));
+      setReport(result);
+    } catch (err) {
+      console.error('Evaluation failed:', err);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  // Results are only valid for the library and engine they were computed on
+  React.useEffect(() => { setReport(null); }, [signs, classifierId]);
+
+  const maxCell = report ? Math.max(1, ...report.confusion.flat()) : 1;
+
+  return (
+    <div className="absolute inset-0 z-40 bg-slate-950/95 backdrop-blur-xl overflow-y-auto custom-scrollbar p-4 sm:p-10">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-black">{t('report.title')}</h2>
+            <p className="text-slate-500 text-sm">{t('report.subtitle', { engine: engineName || classifierId })}</p>
+          </div>
+          <button onClick={onClose} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-xs font-bold uppercase tracking-widest">{t('report.close')}</button>
+        </div>
+
+        <button onClick={run} disabled={progress !== null} className="w-full py-4 rounded-xl font-black uppercase tracking-widest bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 transition-all">
+          {progress ? t('report.evaluating', { done: progress.done, total: progress.total || '…' }) : report ? t('report.runAgain') : t('report.run')}
+        </button>
+
+        {report && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              <div className="p-4 bg-slate-900 rounded-2xl border border-white/5">
+                <p className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('report.overall')}</p>
+                <p className="text-3xl font-black text-indigo-400">{percent(report.correct, report.tested)}</p>
+                <p className="text-[10px] text-slate-500">{t('report.variations', { correct: report.correct, tested: report.tested })}</p>
+              </div>
+              <div className="p-4 bg-slate-900 rounded-2xl border border-white/5">
+                <p className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('report.suggested')}</p>
+                <p className="text-3xl font-black text-emerald-400">{Math.round(report.suggestedThreshold * 100)}%</p>
+                <p className="text-[10px] text-slate-500">{t('report.current', { value: Math.round(threshold * 100) })}</p>
+              </div>
+              {report.untested.length > 0 && (
+                <div className="p-4 bg-slate-900 rounded-2xl border border-amber-500/20 col-span-2 sm:col-span-1">
+                  <p className="text-[9px] font-black uppercase tracking-widest text-amber-400">{t('report.untested')}</p>
+                  <p className="text-xs font-bold mt-1 break-words">{report.untested.join(', ')}</p>
+                </div>
+              )}
+            </div>
+
+            <section className="space-y-2">
+              <h3 className="text-[10px] font-black uppercase tracking-widest opacity-40">{t('report.perSign')}</h3>
+              {report.perSign.filter(s => s.tested > 0).map(s => (
+                <div key={s.label} className="flex items-center gap-3">
+                  <span className="w-28 truncate text-sm font-bold">{s.label}</span>
+                  <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                    <div className={`h-full ${s.correct === s.tested ? 'bg-emerald-400' : 'bg-amber-400'}`} style={{ width: `${(s.correct / s.tested) * 100}%` }} />
+                  </div>
+                  <span className="w-20 text-right text-[10px] font-bold text-slate-400">{s.correct}/{s.tested}</span>
+                </div>
+              ))}
+            </section>
+
+            {report.confusedPairs.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-[10px] font-black uppercase tracking-widest opacity-40">{t('report.confusions')}</h3>
+                {report.confusedPairs.map(p => (
+                  <div key={`${p.a}|${p.b}`} className="flex items-center justify-between p-3 bg-slate-900 rounded-xl border border-white/5">
+                    <span className="text-sm font-bold">{p.a} <span className="opacity-30">↔</span> {p.b}</span>
+                    <span className={`text-[10px] font-bold ${p.errors > 0 ? 'text-rose-400' : 'text-slate-400'}`}>
+                      {t('report.errors', { n: p.errors, peak: Math.round(p.peakConfidence * 100) })}
+                    </span>
+                  </div>
+                ))}
+              </section>
+            )}
+
+            <section className="space-y-2">
+              <h3 className="text-[10px] font-black uppercase tracking-widest opacity-40">{t('report.matrix')}</h3>
+              <div className="overflow-x-auto custom-scrollbar">
+                <table className="text-[10px] font-bold border-separate border-spacing-0.5">
+                  <thead>
+                    <tr>
+                      <th />
+                      {report.labels.map(l => <th key={l} className="px-1 py-1 text-slate-400 max-w-[4rem] truncate">{l}</th>)}
+                      <th className="px-1 py-1 text-slate-600">{t('report.none')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.confusion.map((row, a) => (
+                      <tr key={report.labels[a]}>
+                        <th className="pr-2 text-right text-slate-400 max-w-[6rem] truncate">{report.labels[a]}</th>
+                        {row.map((count, b) => (
+                          <td
+                            key={b}
+                            className={`w-8 h-8 text-center rounded ${count === 0 ? 'text-slate-700' : a === b ? 'text-emerald-200' : 'text-rose-200'}`}
+                            style={{ backgroundColor: count === 0 ? 'rgba(255,255,255,0.03)' : a === b ? `rgba(16,185,129,${0.2 + 0.6 * count / maxCell})` : `rgba(244,63,94,${0.2 + 0.6 * count / maxCell})` }}
+                          >
+                            {count}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AccuracyReport;
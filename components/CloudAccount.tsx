@@ -0,0 +1,72 @@
+import * as React from 'react';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CloudLibrary } from '../storage/supabaseTarget.ts';
+import { Translate } from '../utils/i18n.ts';
+
+interface CloudAccountProps {
+  client: SupabaseClient;
+  email: string | null;
+  libraries: CloudLibrary[];
+  activeLibraryId: string | null;
+  onSelectLibrary: (library: CloudLibrary) => void;
+  t: Translate;
+}
+
+// Sign-in (email magic link) and the choice of personal or team library
+const CloudAccount = ({ client, email, libraries, activeLibraryId, onSelectLibrary, t }: CloudAccountProps) => {
+  const [address, setAddress] = React.useState('');
+  const [linkSent, setLinkSent] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const signIn = async () => {
+    setError(null);
+    const { error: signInError } = await client.auth.signInWithOtp({
+      email: address.trim(),
+      options: { emailRedirectTo: window.location.origin }
+    });
+    if (signInError) setError(signInError.message);
+    else setLinkSent(true);
+  };
+
+  if (!email) {
+    return (
+      <div className="space-y-2">
+        <label className="text-[10px] font-black opacity-40 uppercase ml-1">{t('cloud.title')}</label>
+        {linkSent ? (
+          <p className="text-xs text-emerald-400 font-bold">{t('cloud.linkSent')}</p>
+        ) : (
+          <div className="flex gap-2">
+            <input
+              type="email"
+              value={address}
+              onChange={e => setAddress(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter' && address.trim()) signIn(); }}
+              placeholder={t('cloud.email')}
+              className="flex-1 min-w-0 bg-slate-950 border border-white/10 rounded-lg px-3 py-2 text-xs font-bold outline-none focus:border-indigo-500"
+            />
+            <button onClick={signIn} disabled={!address.trim()} className="px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[9px] font-bold uppercase tracking-widest disabled:opacity-30">{t('cloud.signIn')}</button>
+          </div>
+        )}
+        {error && <p className="text-[10px] text-rose-400">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-black opacity-40 uppercase ml-1 truncate">{email}</label>
+        <button onClick={() => client.auth.signOut()} className="text-[9px] font-bold uppercase tracking-widest text-slate-500 hover:text-white">{t('cloud.signOut')}</button>
+      </div>
+      {libraries.length > 1 && (
+        <div className="flex bg-slate-950 p-1 rounded-lg gap-1 overflow-x-auto no-scrollbar">
+          {libraries.map(lib => (
+            <button key={lib.id} onClick={() => onSelectLibrary(lib)} className={`flex-1 px-3 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest whitespace-nowrap transition-all ${activeLibraryId === lib.id ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>{lib.name}</button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CloudAccount;
@@ -0,0 +1,31 @@
+import * as React from 'react';
+import { ConversationContext } from '../types.ts';
+
+interface ContextCardProps {
+  context: ConversationContext;
+  // e.g. "Context · N-gram"
+  title: string;
+}
+
+const MOOD_STYLES: Record<string, string> = {
+  positive: 'bg-emerald-500/20 text-emerald-300',
+  negative: 'bg-rose-500/20 text-rose-300',
+  curious: 'bg-amber-500/20 text-amber-300'
+};
+
+// What the context engine currently thinks the conversation is about
+const ContextCard = ({ context, title }: ContextCardProps) => {
+  if (!context.topic && !context.summary) return null;
+  return (
+    <div className="px-4 py-3 bg-slate-900/80 backdrop-blur-md rounded-2xl border border-white/10 space-y-1 max-w-xs">
+      <div className="flex items-center gap-2">
+        <span className="text-[8px] font-black uppercase tracking-[0.3em] text-indigo-400">{title}</span>
+        <span className={`px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest ${MOOD_STYLES[context.mood] || 'bg-slate-700/60 text-slate-300'}`}>{context.mood}</span>
+      </div>
+      {context.topic && <p className="text-sm font-black tracking-tight text-white truncate">{context.topic}</p>}
+      {context.summary && <p className="text-[10px] text-slate-400 leading-snug line-clamp-2">{context.summary}</p>}
+    </div>
+  );
+};
+
+export default ContextCard;
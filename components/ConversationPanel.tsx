@@ -0,0 +1,99 @@
+import * as React from 'react';
+import { Conversation } from '../storage/conversationLog.ts';
+import { Translate } from '../utils/i18n.ts';
+import { conversationToSubtitles, conversationToText } from '../utils/transcript.ts';
+
+interface ConversationPanelProps {
+  conversation: Conversation | null;
+  history: Conversation[];
+  // What is being signed or said right now, before it becomes a message
+  pendingMine: string;
+  pendingTheirs: string;
+  isMicActive: boolean;
+  onToggleMic: () => void;
+  onNew: () => void;
+  onOpen: (conversation: Conversation) => void;
+  onDelete: (id: string) => void;
+  t: Translate;
+}
+
+const download = (text: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const fileStamp = (date: Date) => date.toISOString().slice(0, 16).replace(/[:T]/g, '-');
+
+const timeOf = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Chat-style thread of signed ('me') and spoken ('other') messages, plus
+// the saved conversations and their export
+const ConversationPanel = ({ conversation, history, pendingMine, pendingTheirs, isMicActive, onToggleMic, onNew, onOpen, onDelete, t }: ConversationPanelProps) => {
+  const [showHistory, setShowHistory] = React.useState(false);
+  const endRef = React.useRef<HTMLDivElement>(null);
+  const messages = conversation?.messages || [];
+
+  React.useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, pendingMine, pendingTheirs]);
+
+  return (
+    <aside className="w-full lg:w-[380px] bg-slate-900 border-t lg:border-t-0 lg:border-l border-white/10 flex flex-col shrink-0 overflow-hidden h-[50vh] lg:h-auto">
+      <div className="p-4 sm:p-6 space-y-3 border-b border-white/5">
+        <div className="flex justify-between items-center">
+          <h2 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.4em]">{t('conversation.title')}</h2>
+          <div className="flex gap-2">
+            <button onClick={() => setShowHistory(h => !h)} className={`px-3 py-1 rounded-lg text-[9px] font-bold uppercase tracking-widest transition-all ${showHistory ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}>{t('conversation.history')}</button>
+            <button onClick={onNew} disabled={messages.length === 0} className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-lg text-[9px] font-bold uppercase tracking-widest disabled:opacity-30">{t('conversation.new')}</button>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onToggleMic} className={`flex-1 py-2 rounded-lg text-[9px] font-bold uppercase tracking-widest transition-all ${isMicActive ? 'bg-rose-500 animate-pulse' : 'bg-emerald-600 hover:bg-emerald-500'}`}>{isMicActive ? t('conversation.listening') : t('conversation.startMic')}</button>
+          <button onClick={() => conversation && download(conversationToText(conversation), `conversation-${fileStamp(conversation.startedAt)}.txt`)} disabled={messages.length === 0} className="px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[9px] font-bold uppercase tracking-widest disabled:opacity-30">{t('conversation.text')}</button>
+          <button onClick={() => conversation && download(conversationToSubtitles(conversation), `conversation-${fileStamp(conversation.startedAt)}.srt`)} disabled={messages.length === 0} className="px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[9px] font-bold uppercase tracking-widest disabled:opacity-30">{t('conversation.subtitles')}</button>
+        </div>
+      </div>
+
+      {showHistory ? (
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-2 custom-scrollbar">
+          {history.length === 0 ? (
+            <div className="py-12 text-center text-[10px] font-bold opacity-20 uppercase tracking-widest border border-dashed border-white/10 rounded-2xl">{t('conversation.noSaved')}</div>
+          ) : history.map(c => (
+            <div key={c.id} className={`p-3 rounded-xl border flex items-center gap-3 ${c.id === conversation?.id ? 'bg-indigo-600/10 border-indigo-500/40' : 'bg-slate-950 border-white/5'}`}>
+              <button onClick={() => { onOpen(c); setShowHistory(false); }} className="flex-1 min-w-0 text-left">
+                <p className="text-[10px] font-black uppercase tracking-widest">{c.startedAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</p>
+                <p className="text-xs text-slate-500 truncate">{c.messages[0]?.text || t('conversation.untitled')} · {t('conversation.messages', { count: c.messages.length })}</p>
+              </button>
+              <button onClick={() => onDelete(c.id)} className="text-[9px] font-bold uppercase tracking-widest text-slate-500 hover:text-rose-400">{t('conversation.delete')}</button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-3 custom-scrollbar">
+          {messages.length === 0 && !pendingMine && !pendingTheirs && (
+            <div className="py-12 text-center text-[10px] font-bold opacity-20 uppercase tracking-widest border border-dashed border-white/10 rounded-2xl">{t('conversation.begin')}</div>
+          )}
+          {messages.map(m => (
+            <div key={m.id} className={`flex flex-col ${m.sender === 'me' ? 'items-end' : 'items-start'}`}>
+              <div className={`max-w-[85%] px-4 py-2 rounded-2xl text-sm font-bold ${m.sender === 'me' ? 'bg-indigo-600 text-white rounded-br-sm' : 'bg-slate-800 text-slate-100 rounded-bl-sm'}`} dir="auto">{m.text}</div>
+              <span className="text-[8px] font-bold uppercase tracking-widest text-slate-600 mt-1">{m.sender === 'me' ? t('conversation.signed') : t('conversation.heard')} · {timeOf(m.timestamp)}</span>
+            </div>
+          ))}
+          {pendingTheirs && (
+            <div className="flex justify-start"><div className="max-w-[85%] px-4 py-2 rounded-2xl rounded-bl-sm bg-slate-800/50 text-slate-400 text-sm italic">{pendingTheirs}…</div></div>
+          )}
+          {pendingMine && (
+            <div className="flex justify-end"><div className="max-w-[85%] px-4 py-2 rounded-2xl rounded-br-sm bg-indigo-600/30 text-indigo-200 text-xs font-black uppercase tracking-widest">{pendingMine}…</div></div>
+          )}
+          <div ref={endRef} />
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default ConversationPanel;
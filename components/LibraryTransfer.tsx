@@ -0,0 +1,86 @@
+import * as React from 'react';
+import { CustomSign } from '../types.ts';
+import { countConflicts, exportLibrary, mergeImported, MergeStrategy, parseLibraryFile } from '../storage/libraryFile.ts';
+import { MessageKey, Translate } from '../utils/i18n.ts';
+
+interface LibraryTransferProps {
+  signs: CustomSign[];
+  onImport: (signs: CustomSign[]) => void;
+  t: Translate;
+}
+
+// Labels are the `transfer.<id>` and `transfer.<id>Hint` interface strings
+const STRATEGIES: MergeStrategy[] = ['combine', 'replace', 'keep'];
+
+const RESOLVED: Record<MergeStrategy, MessageKey> = {
+  combine: 'transfer.combined',
+  replace: 'transfer.replaced',
+  keep: 'transfer.kept'
+};
+
+// Export the library to a versioned JSON file, or import one with a choice of
+// how to resolve signs whose label already exists
+const LibraryTransfer = ({ signs, onImport, t }: LibraryTransferProps) => {
+  const fileRef = React.useRef<HTMLInputElement>(null);
+  const [pending, setPending] = React.useState<{ name: string; signs: CustomSign[]; conflicts: number } | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  const download = () => {
+    const blob = new Blob([JSON.stringify(exportLibrary(signs), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `echoassist-library-${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const apply = (incoming: CustomSign[], strategy: MergeStrategy) => {
+    const result = mergeImported(signs, incoming, strategy);
+    onImport(result.signs);
+    setPending(null);
+    setMessage(t('transfer.imported', { n: result.added }) +
+      (result.conflicts > 0 ? `, ${t(RESOLVED[strategy], { n: result.conflicts })}` : '') +
+      (result.skipped > 0 ? `, ${t('transfer.skipped', { n: result.skipped })}` : ''));
+  };
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    try {
+      const incoming = parseLibraryFile(await file.text());
+      const conflicts = countConflicts(signs, incoming);
+      if (conflicts === 0) apply(incoming, 'keep');
+      else setPending({ name: file.name, signs: incoming, conflicts });
+    } catch (err: any) {
+      setMessage(err.message || t('transfer.failed'));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <button onClick={download} disabled={signs.length === 0} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[9px] font-bold uppercase tracking-widest disabled:opacity-30">{t('transfer.export')}</button>
+        <button onClick={() => fileRef.current?.click()} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[9px] font-bold uppercase tracking-widest">{t('transfer.import')}</button>
+        <input ref={fileRef} type="file" accept="application/json,.json" onChange={onFile} className="hidden" />
+      </div>
+      {pending && (
+        <div className="p-3 bg-slate-950 rounded-xl border border-amber-500/20 space-y-2">
+          <p className="text-[10px] font-bold text-amber-400">{t('transfer.conflicts', { conflicts: pending.conflicts, total: pending.signs.length, file: pending.name })}</p>
+          {STRATEGIES.map(s => (
+            <button key={s} onClick={() => apply(pending.signs, s)} className="w-full text-left px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg">
+              <span className="text-[10px] font-black uppercase tracking-widest">{t(`transfer.${s}`)}</span>
+              <span className="block text-[9px] text-slate-500">{t(`transfer.${s}Hint`)}</span>
+            </button>
+          ))}
+          <button onClick={() => setPending(null)} className="w-full text-[9px] font-bold uppercase tracking-widest text-slate-500 hover:text-white">{t('transfer.cancel')}</button>
+        </div>
+      )}
+      {message && <p className="text-[10px] font-bold text-slate-400">{message}</p>}
+    </div>
+  );
+};
+
+export default LibraryTransfer;
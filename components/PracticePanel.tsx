@@ -0,0 +1,128 @@
+import * as React from 'react';
+import { CustomSign } from '../types.ts';
+import { Translate } from '../utils/i18n.ts';
+import { AttemptScore, FingerStatus, isLearned, SignProgress } from '../utils/practice.ts';
+import SignPreview from './SignPreview.tsx';
+
+export type PracticeOutcome = 'passed' | 'missed';
+
+interface PracticePanelProps {
+  signs: CustomSign[];
+  target: CustomSign | null;
+  progress: Record<string, SignProgress>;
+  // Live score of the current attempt, updated every frame
+  attempt: AttemptScore | null;
+  outcome: PracticeOutcome | null;
+  // Score needed to pass
+  passMark: number;
+  isQuiz: boolean;
+  isCameraOn: boolean;
+  onQuizChange: (quiz: boolean) => void;
+  // Quiz only: shows the sign and counts the attempt as missed
+  onReveal: () => void;
+  onSkip: () => void;
+  onNext: () => void;
+  t: Translate;
+}
+
+const STATUS_STYLES: Record<FingerStatus, string> = {
+  ok: 'text-emerald-400',
+  bend: 'text-amber-400',
+  straighten: 'text-amber-400',
+  adjust: 'text-sky-400'
+};
+
+const dueIn = (dueAt: number, t: Translate) => {
+  const minutes = Math.round((dueAt - Date.now()) / 60000);
+  if (minutes <= 0) return t('academy.dueNow');
+  if (minutes < 60) return t('academy.dueMinutes', { n: minutes });
+  if (minutes < 48 * 60) return t('academy.dueHours', { n: Math.round(minutes / 60) });
+  return t('academy.dueDays', { n: Math.round(minutes / 1440) });
+};
+
+// ACADEMY: drills the library one sign at a time, scoring the live hand
+// against the target with per-finger hints. Quiz mode hides the sign until
+// it has been made or given up on.
+const PracticePanel = ({ signs, target, progress, attempt, outcome, passMark, isQuiz, isCameraOn, onQuizChange, onReveal, onSkip, onNext, t }: PracticePanelProps) => {
+  const learned = signs.filter(s => isLearned(progress[s.id])).length;
+  const due = signs.filter(s => progress[s.id] && progress[s.id].dueAt <= Date.now()).length;
+  const showSign = !isQuiz || outcome !== null;
+  const score = attempt?.score ?? 0;
+
+  return (
+    <aside className="w-full lg:w-[380px] bg-slate-900 border-t lg:border-t-0 lg:border-l border-white/10 flex flex-col shrink-0 overflow-hidden h-[50vh] lg:h-auto">
+      <div className="p-4 sm:p-8 space-y-4 sm:space-y-6 bg-slate-900/50 overflow-y-auto custom-scrollbar">
+        <div className="flex justify-between items-center">
+          <h2 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.4em]">{t('academy.title')}</h2>
+          <div className="flex bg-slate-950 p-1 rounded-lg gap-1">
+            {[false, true].map(quiz => (
+              <button key={String(quiz)} onClick={() => onQuizChange(quiz)} className={`px-3 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all ${isQuiz === quiz ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>{quiz ? t('academy.quiz') : t('academy.practice')}</button>
+            ))}
+          </div>
+        </div>
+        <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t('academy.summary', { learned, total: signs.length, due })}</p>
+
+        {!target ? (
+          <div className="py-12 text-center text-[10px] font-bold opacity-20 uppercase tracking-widest border border-dashed border-white/10 rounded-2xl">{t('academy.empty')}</div>
+        ) : (
+          <>
+            <div className="text-center space-y-1">
+              <p className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('academy.make')}</p>
+              <p className="text-3xl font-black tracking-tighter" dir="auto">{target.label}</p>
+            </div>
+            {showSign ? <SignPreview sign={target} /> : (
+              <button onClick={onReveal} className="w-full aspect-square max-w-[250px] mx-auto flex items-center justify-center bg-slate-950 rounded-2xl border border-dashed border-white/10 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white">{t('academy.reveal')}</button>
+            )}
+
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest">
+                <span className="opacity-40">{isCameraOn ? t('academy.match') : t('academy.startCamera')}</span>
+                <span className="text-indigo-400">{Math.round(score * 100)}%</span>
+              </div>
+              <div className="relative h-2 bg-white/10 rounded-full overflow-hidden">
+                <div className={`h-full transition-all duration-200 ${score >= passMark ? 'bg-emerald-400' : 'bg-indigo-400'}`} style={{ width: `${score * 100}%` }} />
+                <div className="absolute inset-y-0 w-0.5 bg-white/60" style={{ left: `${passMark * 100}%` }} />
+              </div>
+            </div>
+
+            {attempt && attempt.fingers.length > 0 && (
+              <ul className="grid grid-cols-5 gap-1 text-center">
+                {attempt.fingers.map(f => (
+                  <li key={f.finger} className="p-2 bg-slate-950 rounded-lg">
+                    <p className="text-[8px] font-black uppercase tracking-widest opacity-40">{t(`academy.finger.${f.finger}`)}</p>
+                    <p className={`text-[9px] font-bold ${STATUS_STYLES[f.status]}`}>{t(`academy.status.${f.status}`)}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {outcome && (
+              <p className={`text-center text-sm font-black uppercase tracking-widest ${outcome === 'passed' ? 'text-emerald-400' : 'text-amber-400'}`}>{outcome === 'passed' ? t('academy.passed') : t('academy.missed')}</p>
+            )}
+            <div className="flex gap-2">
+              <button onClick={onSkip} disabled={outcome !== null} className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-30">{t('academy.skip')}</button>
+              {outcome && <button onClick={onNext} className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-xl text-[10px] font-black uppercase tracking-widest">{t('academy.next')}</button>}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 sm:px-8 pb-10 space-y-2 custom-scrollbar">
+        <h3 className="text-[10px] font-black opacity-30 uppercase tracking-widest pt-4 border-t border-white/5">{t('academy.progress')}</h3>
+        {signs.map(sign => {
+          const p = progress[sign.id];
+          return (
+            <div key={sign.id} className={`px-4 py-2 rounded-xl border flex items-center justify-between ${sign.id === target?.id ? 'border-indigo-500/50 bg-indigo-500/10' : 'border-white/5 bg-slate-800/40'}`}>
+              <p className="font-bold text-sm truncate" dir="auto">{sign.label}</p>
+              <p className="text-[9px] font-bold uppercase tracking-widest text-slate-500 shrink-0 ml-2">
+                {p ? `${t('academy.best', { score: Math.round(p.bestScore * 100) })} · ${dueIn(p.dueAt, t)}` : t('academy.new')}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default PracticePanel;
@@ -0,0 +1,82 @@
+import * as React from 'react';
+import { RecordedSession } from '../storage/sessionFile.ts';
+import { Translate } from '../utils/i18n.ts';
+import { ReplayComparison, REPLAY_SPEEDS, ReplaySpeed } from '../utils/replay.ts';
+
+interface SessionControlsProps {
+  // Recording starts only with the camera running; replay needs it stopped
+  isLive: boolean;
+  isRecording: boolean;
+  isReplaying: boolean;
+  // How the last replay compared with its recording, and what it produced
+  result: { comparison: ReplayComparison; session: RecordedSession } | null;
+  // Returns the finished session when recording stops
+  onToggleRecording: () => RecordedSession | null;
+  onReplay: (text: string, speed: ReplaySpeed) => void;
+  onStopReplay: () => void;
+  onDismissResult: () => void;
+  t: Translate;
+}
+
+const download = (session: RecordedSession) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(session)], { type: 'application/json' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `echoassist-session-${session.recordedAt.slice(0, 19).replace(/[:T]/g, '-')}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Records the landmark stream to a file, or feeds a recorded one back
+// through recognition instead of the camera
+const SessionControls = ({ isLive, isRecording, isReplaying, result, onToggleRecording, onReplay, onStopReplay, onDismissResult, t }: SessionControlsProps) => {
+  const fileRef = React.useRef<HTMLInputElement>(null);
+  const [speed, setSpeed] = React.useState<ReplaySpeed>(1);
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onReplay(await file.text(), speed);
+  };
+
+  const toggleRecording = () => {
+    const session = onToggleRecording();
+    if (session) download(session);
+  };
+
+  const button = 'px-3 py-2 bg-slate-900/80 backdrop-blur-md hover:bg-slate-800 rounded-lg text-[9px] font-black uppercase tracking-widest disabled:opacity-30';
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex items-center gap-2">
+        {(isLive || isRecording) && (
+          <button onClick={toggleRecording} className={`${button} ${isRecording ? 'text-rose-400 animate-pulse' : ''}`}>
+            {isRecording ? t('session.stopRecording') : t('session.record')}
+          </button>
+        )}
+        {isReplaying ? (
+          <button onClick={onStopReplay} className={`${button} text-amber-400`}>{t('session.stopReplay')}</button>
+        ) : !isLive && (
+          <>
+            <select value={String(speed)} onChange={e => setSpeed(e.target.value === 'max' ? 'max' : Number(e.target.value) as ReplaySpeed)} aria-label={t('session.speed')} className="px-2 py-2 bg-slate-900/80 rounded-lg text-[9px] font-black uppercase outline-none">
+              {REPLAY_SPEEDS.map(s => <option key={s} value={String(s)}>{s === 'max' ? t('session.fastest') : `${s}×`}</option>)}
+            </select>
+            <button onClick={() => fileRef.current?.click()} className={button}>{t('session.replay')}</button>
+          </>
+        )}
+        <input ref={fileRef} type="file" accept="application/json,.json" onChange={onFile} className="hidden" />
+      </div>
+      {result && (
+        <div className={`max-w-xs px-3 py-2 rounded-lg bg-slate-900/90 border text-[10px] font-bold ${result.comparison.matches ? 'border-emerald-500/30 text-emerald-400' : 'border-amber-500/30 text-amber-400'}`}>
+          <p>{result.comparison.matches ? t('session.matched') : t('session.differs', { expected: result.comparison.expected || '—', actual: result.comparison.actual || '—' })}</p>
+          <div className="flex gap-3 mt-1 text-[9px] uppercase tracking-widest">
+            <button onClick={() => download(result.session)} className="text-slate-300 hover:text-white">{t('session.download')}</button>
+            <button onClick={onDismissResult} className="text-slate-500 hover:text-white">{t('session.dismiss')}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionControls;
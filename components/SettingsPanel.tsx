@@ -0,0 +1,156 @@
+import * as React from 'react';
+import { Handedness } from '../types.ts';
+import { Profile } from '../storage/profileStore.ts';
+import { CLASSIFIER_OPTIONS } from '../utils/classifiers.ts';
+import { CONTEXT_ENGINE_OPTIONS } from '../utils/context.ts';
+import { isGeminiConfigured } from '../utils/gemini.ts';
+import { LANGUAGES, LanguageId, Translate } from '../utils/i18n.ts';
+import { isRecognizerAvailable, RECOGNIZER_OPTIONS } from '../utils/recognizers.ts';
+import { NUMERIC_SETTINGS, NumericSetting, Settings } from '../utils/settings.ts';
+import { TRANSLATOR_OPTIONS } from '../utils/translators.ts';
+import VoiceSettings from './VoiceSettings.tsx';
+
+interface SettingsPanelProps {
+  // Live (not deleted) profiles
+  profiles: Profile[];
+  activeProfileId: string;
+  settings: Settings;
+  isTraining: boolean;
+  onSelectProfile: (id: string) => void;
+  onAddProfile: () => void;
+  onRenameProfile: (name: string) => void;
+  onDeleteProfile: () => void;
+  onChange: (patch: Partial<Settings>) => void;
+  onReset: () => void;
+  onTestVoice: () => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+interface Choice<T> {
+  id: T;
+  name: string;
+  disabled?: boolean;
+  title?: string;
+}
+
+const Toggle = <T extends string | boolean>({ label, value, options, onSelect }: { label: React.ReactNode; value: T; options: Choice<T>[]; onSelect: (id: T) => void }) => (
+  <div className="flex items-center justify-between">
+    <label className="text-[10px] font-black opacity-40 uppercase ml-1">{label}</label>
+    <div className="flex bg-slate-950 p-1 rounded-lg gap-1">
+      {options.map(o => (
+        <button key={String(o.id)} onClick={() => onSelect(o.id)} disabled={o.disabled} title={o.title} className={`px-3 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest transition-all ${value === o.id ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'} disabled:opacity-30 disabled:cursor-not-allowed`}>{o.name}</button>
+      ))}
+    </div>
+  </div>
+);
+
+const formatValue = (setting: NumericSetting, value: number, t: Translate) =>
+  setting.unit === '%' ? `${Math.round(value * 100)}%`
+    : setting.unit === 'frames' ? t('settings.frames', { n: value })
+    : `${(value / 1000).toFixed(1)} s`;
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <section className="space-y-3">
+    <h3 className="text-[10px] font-black opacity-30 uppercase tracking-widest pt-4 border-t border-white/5">{title}</h3>
+    {children}
+  </section>
+);
+
+const selectClass = 'w-full bg-slate-950 border border-white/10 rounded-lg px-3 py-2 text-xs font-bold outline-none focus:border-indigo-500';
+
+// Profiles and everything they store: engines, languages, camera,
+// thresholds, timing, hand tracking and voice
+const SettingsPanel = ({ profiles, activeProfileId, settings, isTraining, onSelectProfile, onAddProfile, onRenameProfile, onDeleteProfile, onChange, onReset, onTestVoice, onClose, t }: SettingsPanelProps) => {
+  const [cameras, setCameras] = React.useState<MediaDeviceInfo[]>([]);
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+  const geminiHint = isGeminiConfigured() ? undefined : t('settings.geminiHint');
+
+  React.useEffect(() => {
+    const devices = navigator.mediaDevices;
+    if (!devices?.enumerateDevices) return;
+    const refresh = () => devices.enumerateDevices()
+      .then(list => setCameras(list.filter(d => d.kind === 'videoinput')))
+      .catch(err => console.error('Could not list cameras:', err));
+    refresh();
+    devices.addEventListener('devicechange', refresh);
+    return () => devices.removeEventListener('devicechange', refresh);
+  }, []);
+
+  const slider = (setting: NumericSetting) => (
+    <div key={setting.key} className="space-y-1">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-black opacity-40 uppercase ml-1">{t(`setting.${setting.key}`)}</label>
+        <span className="text-[10px] font-bold text-indigo-400">{formatValue(setting, settings[setting.key], t)}</span>
+      </div>
+      <input type="range" min={setting.min} max={setting.max} step={setting.step} value={settings[setting.key]} onChange={e => onChange({ [setting.key]: Number(e.target.value) })} className="w-full accent-indigo-500" />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <aside className="w-full sm:w-[420px] h-full bg-slate-900 border-l border-white/10 overflow-y-auto custom-scrollbar p-4 sm:p-8 space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.4em]">{t('settings.title')}</h2>
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-lg hover:bg-slate-700 transition-colors"><svg className="w-4 h-4 text-slate-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-[10px] font-black opacity-40 uppercase ml-1">{t('settings.profile')}</label>
+          <div className="flex gap-2">
+            <select value={activeProfileId} onChange={e => onSelectProfile(e.target.value)} className={`${selectClass} flex-1 min-w-0`}>
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <button onClick={onAddProfile} className="px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[9px] font-bold uppercase tracking-widest">{t('settings.new')}</button>
+            <button onClick={onDeleteProfile} disabled={profiles.length < 2} className="px-3 py-2 bg-slate-800 hover:bg-rose-900 rounded-lg text-[9px] font-bold uppercase tracking-widest disabled:opacity-30">{t('settings.delete')}</button>
+          </div>
+          <input value={activeProfile?.name ?? ''} onChange={e => onRenameProfile(e.target.value)} placeholder={t('settings.profileName')} className={selectClass} />
+        </div>
+
+        <Section title={t('settings.engines')}>
+          <Toggle label={<>{t('settings.engine')}{isTraining && <span className="text-indigo-400 animate-pulse"> · {t('settings.training')}</span>}</>} value={settings.classifierId} options={CLASSIFIER_OPTIONS} onSelect={id => onChange({ classifierId: id })} />
+          <Toggle label={t('settings.translation')} value={settings.translatorId} options={TRANSLATOR_OPTIONS.map(o => ({ ...o, disabled: o.id === 'gemini' && !!geminiHint, title: o.id === 'gemini' ? geminiHint : undefined }))} onSelect={id => onChange({ translatorId: id })} />
+          <Toggle label={t('settings.context')} value={settings.contextEngineId} options={CONTEXT_ENGINE_OPTIONS.map(o => ({ ...o, disabled: o.id === 'gemini' && !!geminiHint, title: o.id === 'gemini' ? geminiHint : undefined }))} onSelect={id => onChange({ contextEngineId: id })} />
+          <Toggle label={t('settings.speechInput')} value={settings.recognizerId} options={RECOGNIZER_OPTIONS.map(o => ({ ...o, disabled: !isRecognizerAvailable(o.id), title: isRecognizerAvailable(o.id) ? undefined : o.id === 'stream' ? t('settings.sttHint') : t('settings.unsupported') }))} onSelect={id => onChange({ recognizerId: id })} />
+        </Section>
+
+        <Section title={t('settings.language')}>
+          {([['language', 'settings.spokenLanguage'], ['uiLanguage', 'settings.uiLanguage']] as const).map(([key, label]) => (
+            <div key={key} className="flex items-center justify-between gap-4">
+              <label className="text-[10px] font-black opacity-40 uppercase ml-1 shrink-0">{t(label)}</label>
+              <select value={settings[key]} onChange={e => onChange({ [key]: e.target.value as LanguageId })} className={selectClass}>
+                {LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.nativeName}{l.nativeName !== l.name ? ` · ${l.name}` : ''}</option>)}
+              </select>
+            </div>
+          ))}
+        </Section>
+
+        <Section title={t('settings.camera')}>
+          <select value={settings.cameraId ?? ''} onChange={e => onChange({ cameraId: e.target.value || null })} className={selectClass}>
+            <option value="">{t('settings.defaultCamera')}</option>
+            {cameras.map((c, i) => <option key={c.deviceId} value={c.deviceId}>{c.label || t('settings.cameraN', { n: i + 1 })}</option>)}
+            {settings.cameraId && !cameras.some(c => c.deviceId === settings.cameraId) && <option value={settings.cameraId}>{t('settings.unavailableCamera')}</option>}
+          </select>
+          <Toggle label={t('settings.cameraImage')} value={settings.mirroredCamera} options={[{ id: false, name: t('settings.normal') }, { id: true, name: t('settings.mirrored') }]} onSelect={m => onChange({ mirroredCamera: m })} />
+          <Toggle label={t('settings.dominantHand')} value={settings.dominantHand} options={(['Left', 'Right'] as Handedness[]).map(h => ({ id: h, name: t(`settings.${h}`) }))} onSelect={h => onChange({ dominantHand: h })} />
+        </Section>
+
+        {(['Recognition', 'Timing', 'Tracking'] as const).map(group => (
+          <React.Fragment key={group}>
+            <Section title={t(`settings.${group}`)}>
+              {NUMERIC_SETTINGS.filter(s => s.group === group).map(slider)}
+            </Section>
+          </React.Fragment>
+        ))}
+
+        <Section title={t('settings.voice')}>
+          <VoiceSettings settings={settings.speech} onChange={speech => onChange({ speech })} onTest={onTestVoice} t={t} />
+        </Section>
+
+        <button onClick={onReset} className="w-full py-3 bg-slate-800 hover:bg-slate-700 rounded-xl text-[10px] font-black uppercase tracking-widest">{t('settings.reset')}</button>
+      </aside>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,69 @@
+import * as React from 'react';
+import { CustomSign } from '../types.ts';
+import { Translate } from '../utils/i18n.ts';
+import SignPreview from './SignPreview.tsx';
+
+interface SignEditorProps {
+  sign: CustomSign;
+  // Every label in the library, offered when moving a variation
+  labels: string[];
+  onRename: (label: string) => void;
+  onDeleteVariation: (id: string) => void;
+  onMoveVariation: (id: string, label: string) => void;
+  t: Translate;
+}
+
+// Expanded library row: rename the sign, and preview, delete or move each
+// of its variations
+const SignEditor = ({ sign, labels, onRename, onDeleteVariation, onMoveVariation, t }: SignEditorProps) => {
+  const variations = [...sign.samples, ...(sign.sequences || [])];
+  const [selectedId, setSelectedId] = React.useState(variations[0]?.id ?? null);
+  const selected = variations.find(v => v.id === selectedId) || variations[0];
+  const listId = `labels-${sign.id}`;
+
+  // Just the selected variation, so the player shows it alone
+  const preview = React.useMemo<CustomSign | null>(() => {
+    if (!selected) return null;
+    return 'frames' in selected
+      ? { ...sign, samples: [], sequences: [selected] }
+      : { ...sign, samples: [selected], sequences: undefined };
+  }, [sign, selected]);
+
+  const commit = (input: HTMLInputElement, apply: (value: string) => void) => {
+    const value = input.value.trim();
+    if (value) apply(value);
+  };
+
+  return (
+    <div className="mt-3 space-y-3">
+      <input
+        key={sign.label}
+        defaultValue={sign.label}
+        onBlur={e => commit(e.currentTarget, onRename)}
+        onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        className="w-full bg-slate-950/60 border border-white/5 rounded-lg px-2 py-1 text-sm font-bold outline-none focus:border-indigo-500"
+        aria-label={t('training.rename')}
+      />
+      {preview && <SignPreview sign={preview} />}
+      <datalist id={listId}>
+        {labels.filter(l => l !== sign.label).map(l => <option key={l} value={l} />)}
+      </datalist>
+      <ul className="space-y-1">
+        {variations.map((v, i) => (
+          <li key={v.id} className={`flex items-center gap-2 px-2 py-1 rounded-lg ${v.id === selected?.id ? 'bg-indigo-500/20' : 'bg-slate-950/40'}`}>
+            <button onClick={() => setSelectedId(v.id)} className="text-[9px] font-black uppercase tracking-widest text-slate-300 shrink-0">{t('training.variationN', { n: i + 1 })}</button>
+            <input
+              list={listId}
+              placeholder={t('training.moveTo')}
+              onKeyDown={e => { if (e.key === 'Enter') commit(e.currentTarget, label => onMoveVariation(v.id, label)); }}
+              className="flex-1 min-w-0 bg-transparent border-b border-white/5 text-[10px] font-bold outline-none focus:border-indigo-500"
+            />
+            <button onClick={() => onDeleteVariation(v.id)} title={t('training.deleteVariation')} className="p-1 text-slate-600 hover:text-rose-400"><svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SignEditor;
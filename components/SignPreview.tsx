@@ -0,0 +1,305 @@
+import * as React from 'react';
+import { CustomSign, HandPose, HandShape } from '../types.ts';
+import { wristPath } from '../utils/motion.ts';
+
+const SIZE = 250;
+// Palm length in pixels when the sign is small enough to allow it
+const MAX_SCALE = 80;
+// How long each variation is held, and the morph from one to the next
+const HOLD_MS = 900;
+const MORPH_MS = 500;
+const SPEEDS = [0.5, 1, 2];
+
+const CONNECTIONS = [
+  [0, 1], [1, 2], [2, 3], [3, 4], // Thumb
+  [0, 5], [5, 6], [6, 7], [7, 8], // Index
+  [0, 9], [9, 10], [10, 11], [11, 12], // Middle
+  [0, 13], [13, 14], [14, 15], [15, 16], // Ring
+  [0, 17], [17, 18], [18, 19], [19, 20], // Pinky
+  [5, 9], [9, 13], [13, 17] // Knuckles
+];
+const PALM = [0, 1, 5, 9, 13, 17];
+const TIPS = [4, 8, 12, 16, 20];
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// A stretch of the animation between two poses. `path` is where the dominant
+// wrist is, in palm lengths, for motion recordings.
+interface Segment {
+  from: HandPose;
+  to: HandPose;
+  fromPath: Point;
+  toPath: Point;
+  duration: number;
+  label: string;
+}
+
+interface DrawnPoint extends Point {
+  depth: number;
+}
+
+const lerp = (a: number, b: number, k: number) => a + (b - a) * k;
+const lerpAngle = (a: number, b: number, k: number) => a + k * Math.atan2(Math.sin(b - a), Math.cos(b - a));
+
+const lerpShape = (a: HandShape, b: HandShape, k: number): HandShape => ({
+  normalized: a.normalized.map((p, i) => ({
+    nx: lerp(p.nx, b.normalized[i].nx, k),
+    ny: lerp(p.ny, b.normalized[i].ny, k),
+    nz: lerp(p.nz ?? 0, b.normalized[i].nz ?? 0, k)
+  })),
+  curlStates: k < 0.5 ? a.curlStates : b.curlStates,
+  jointAngles: a.jointAngles,
+  roll: lerpAngle(a.roll, b.roll, k)
+});
+
+const lerpPose = (a: HandPose, b: HandPose, k: number): HandPose => {
+  if (k <= 0 || a === b) return a;
+  if (k >= 1) return b;
+  const pose: HandPose = { ...lerpShape(a, b, k), handedness: a.handedness };
+  if (a.secondary && b.secondary && a.offset && b.offset) {
+    pose.secondary = lerpShape(a.secondary, b.secondary, k);
+    pose.offset = { dx: lerp(a.offset.dx, b.offset.dx, k), dy: lerp(a.offset.dy, b.offset.dy, k) };
+  } else {
+    const nearest = k < 0.5 ? a : b;
+    pose.secondary = nearest.secondary;
+    pose.offset = nearest.offset;
+  }
+  return pose;
+};
+
+const ORIGIN: Point = { x: 0, y: 0 };
+
+// Static signs hold each variation and morph into the next; motion signs play
+// each recording at its recorded speed, then morph into the next recording.
+const buildTimeline = (sign: CustomSign): Segment[] => {
+  const segments: Segment[] = [];
+  const recordings = (sign.sequences || []).filter(seq => seq.frames.length > 0);
+
+  if (recordings.length > 0) {
+    const paths = recordings.map(seq => wristPath(seq.frames));
+    recordings.forEach((seq, r) => {
+      const label = `Recording ${r + 1} of ${recordings.length}`;
+      const path = paths[r];
+      for (let i = 0; i < seq.frames.length - 1; i++) {
+        segments.push({
+          from: seq.frames[i], to: seq.frames[i + 1], fromPath: path[i], toPath: path[i + 1],
+          duration: Math.max(1, seq.frames[i + 1].t - seq.frames[i].t), label
+        });
+      }
+      const last = seq.frames[seq.frames.length - 1];
+      const lastPath = path[path.length - 1];
+      segments.push({ from: last, to: last, fromPath: lastPath, toPath: lastPath, duration: HOLD_MS, label });
+      const next = recordings[(r + 1) % recordings.length].frames[0];
+      segments.push({ from: last, to: next, fromPath: lastPath, toPath: ORIGIN, duration: MORPH_MS, label });
+    });
+    return segments;
+  }
+
+  sign.samples.forEach((sample, i) => {
+    const label = `Variation ${i + 1} of ${sign.samples.length}`;
+    segments.push({ from: sample, to: sample, fromPath: ORIGIN, toPath: ORIGIN, duration: HOLD_MS, label });
+    if (sign.samples.length > 1) {
+      const next = sign.samples[(i + 1) % sign.samples.length];
+      segments.push({ from: sample, to: next, fromPath: ORIGIN, toPath: ORIGIN, duration: MORPH_MS, label });
+    }
+  });
+  return segments;
+};
+
+const timelineDuration = (timeline: Segment[]) => timeline.reduce((sum, s) => sum + s.duration, 0);
+
+const sampleTimeline = (timeline: Segment[], time: number) => {
+  let t = time % (timelineDuration(timeline) || 1);
+  for (const segment of timeline) {
+    if (t <= segment.duration) {
+      const k = t / segment.duration;
+      return {
+        pose: lerpPose(segment.from, segment.to, k),
+        path: { x: lerp(segment.fromPath.x, segment.toPath.x, k), y: lerp(segment.fromPath.y, segment.toPath.y, k) },
+        label: segment.label
+      };
+    }
+    t -= segment.duration;
+  }
+  const last = timeline[timeline.length - 1];
+  return { pose: last.to, path: last.toPath, label: last.label };
+};
+
+// Landmarks are stored upright and mirrored to right-handed geometry; undo
+// both so the hand is shown turned and handed as it was signed
+const placeShape = (shape: HandShape, wrist: Point, flip: number): DrawnPoint[] => {
+  const cos = Math.cos(shape.roll);
+  const sin = Math.sin(shape.roll);
+  return shape.normalized.map(p => ({
+    x: flip * (wrist.x + p.nx * cos - p.ny * sin),
+    y: wrist.y + p.nx * sin + p.ny * cos,
+    depth: p.nz ?? 0
+  }));
+};
+
+const placePose = (pose: HandPose, path: Point): DrawnPoint[][] => {
+  const flip = pose.handedness === 'Left' ? -1 : 1;
+  const hands = [placeShape(pose, path, flip)];
+  if (pose.secondary && pose.offset) {
+    hands.push(placeShape(pose.secondary, { x: path.x + pose.offset.dx, y: path.y + pose.offset.dy }, flip));
+  }
+  return hands;
+};
+
+// Palm-length → pixel transform that fits every pose of the timeline
+const fitLayout = (timeline: Segment[]) => {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  timeline.forEach(segment => {
+    [[segment.from, segment.fromPath], [segment.to, segment.toPath]].forEach(([pose, path]) => {
+      placePose(pose as HandPose, path as Point).flat().forEach(p => {
+        minX = Math.min(minX, p.x);
+        maxX = Math.max(maxX, p.x);
+        minY = Math.min(minY, p.y);
+        maxY = Math.max(maxY, p.y);
+      });
+    });
+  });
+  if (!isFinite(minX)) return { scale: MAX_SCALE, cx: 0, cy: 0 };
+  const scale = Math.min(MAX_SCALE, (SIZE * 0.8) / Math.max(maxX - minX, maxY - minY, 0.01));
+  return { scale, cx: (minX + maxX) / 2, cy: (minY + maxY) / 2 };
+};
+
+const drawFlat = (ctx: CanvasRenderingContext2D, hand: DrawnPoint[]) => {
+  ctx.strokeStyle = '#818cf8';
+  ctx.lineWidth = 2;
+  ctx.lineCap = 'round';
+  CONNECTIONS.forEach(([i, j]) => {
+    ctx.beginPath();
+    ctx.moveTo(hand[i].x, hand[i].y);
+    ctx.lineTo(hand[j].x, hand[j].y);
+    ctx.stroke();
+  });
+  hand.forEach((p, i) => {
+    const isTip = TIPS.includes(i);
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, isTip ? 6 : 4, 0, Math.PI * 2);
+    ctx.fillStyle = isTip ? '#f472b6' : '#818cf8';
+    ctx.fill();
+  });
+};
+
+// Depth-sorted bones and spherical joints; nearer parts are larger and lighter
+const drawShaded = (ctx: CanvasRenderingContext2D, hand: DrawnPoint[], scale: number) => {
+  // MediaPipe depth is negative towards the camera
+  const nearness = (depth: number) => Math.max(-1, Math.min(1, -depth * 2));
+  const shade = (depth: number, alpha = 1) => {
+    const light = 55 + nearness(depth) * 20;
+    return `hsla(235, 80%, ${light}%, ${alpha})`;
+  };
+  const width = scale * 0.16;
+
+  ctx.beginPath();
+  PALM.forEach((idx, n) => (n === 0 ? ctx.moveTo(hand[idx].x, hand[idx].y) : ctx.lineTo(hand[idx].x, hand[idx].y)));
+  ctx.closePath();
+  ctx.fillStyle = shade(PALM.reduce((sum, idx) => sum + hand[idx].depth, 0) / PALM.length, 0.35);
+  ctx.fill();
+
+  ctx.lineCap = 'round';
+  CONNECTIONS
+    .map(([i, j]) => ({ i, j, depth: (hand[i].depth + hand[j].depth) / 2 }))
+    .sort((a, b) => b.depth - a.depth)
+    .forEach(({ i, j, depth }) => {
+      ctx.strokeStyle = shade(depth);
+      ctx.lineWidth = width * (1 + nearness(depth) * 0.3);
+      ctx.beginPath();
+      ctx.moveTo(hand[i].x, hand[i].y);
+      ctx.lineTo(hand[j].x, hand[j].y);
+      ctx.stroke();
+    });
+
+  hand
+    .map((p, i) => ({ p, i }))
+    .sort((a, b) => b.p.depth - a.p.depth)
+    .forEach(({ p, i }) => {
+      const radius = (TIPS.includes(i) ? width * 0.7 : width * 0.55) * (1 + nearness(p.depth) * 0.3);
+      const gradient = ctx.createRadialGradient(p.x - radius * 0.35, p.y - radius * 0.35, radius * 0.1, p.x, p.y, radius);
+      gradient.addColorStop(0, TIPS.includes(i) ? '#fbcfe8' : '#e0e7ff');
+      gradient.addColorStop(1, TIPS.includes(i) ? '#db2777' : shade(p.depth));
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, radius, 0, Math.PI * 2);
+      ctx.fillStyle = gradient;
+      ctx.fill();
+    });
+};
+
+// Animated player for a sign: cycles through its variations, or plays its
+// motion recordings, with play/pause, speed and a shaded 3D-style view
+const SignPreview = ({ sign }: { sign: CustomSign }) => {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const [isPlaying, setIsPlaying] = React.useState(true);
+  const [speed, setSpeed] = React.useState(1);
+  const [shaded, setShaded] = React.useState(false);
+  const [label, setLabel] = React.useState('');
+  const timeRef = React.useRef(0);
+
+  const timeline = React.useMemo(() => buildTimeline(sign), [sign]);
+  const layout = React.useMemo(() => fitLayout(timeline), [timeline]);
+
+  React.useEffect(() => {
+    timeRef.current = 0;
+  }, [timeline]);
+
+  React.useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || timeline.length === 0) return;
+
+    const draw = () => {
+      const { pose, path, label: current } = sampleTimeline(timeline, timeRef.current);
+      setLabel(current);
+      ctx.clearRect(0, 0, SIZE, SIZE);
+      const hands = placePose(pose, path).map(hand => hand.map(p => ({
+        x: SIZE / 2 + (p.x - layout.cx) * layout.scale,
+        y: SIZE / 2 + (p.y - layout.cy) * layout.scale,
+        depth: p.depth
+      })));
+      // Draw the farther hand first
+      hands
+        .sort((a, b) => b[0].depth - a[0].depth)
+        .forEach(hand => (shaded ? drawShaded(ctx, hand, layout.scale) : drawFlat(ctx, hand)));
+    };
+
+    draw();
+    if (!isPlaying) return;
+    let frameId = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      timeRef.current += (now - last) * speed;
+      last = now;
+      draw();
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [timeline, layout, isPlaying, speed, shaded]);
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={SIZE}
+        height={SIZE}
+        className="mx-auto bg-slate-950 rounded-xl sm:rounded-2xl border border-white/10 max-w-full"
+      />
+      <div className="flex items-center justify-center gap-2">
+        <button onClick={() => setIsPlaying(p => !p)} className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-lg text-[9px] font-bold uppercase tracking-widest">{isPlaying ? 'Pause' : 'Play'}</button>
+        <div className="flex bg-slate-950 p-1 rounded-lg gap-1">
+          {SPEEDS.map(s => (
+            <button key={s} onClick={() => setSpeed(s)} className={`px-2 py-0.5 rounded-md text-[9px] font-bold tracking-widest transition-all ${speed === s ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>{s}×</button>
+          ))}
+        </div>
+        <button onClick={() => setShaded(s => !s)} className={`px-3 py-1 rounded-lg text-[9px] font-bold uppercase tracking-widest transition-all ${shaded ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}>3D</button>
+      </div>
+      {label && <p className="text-[9px] font-bold uppercase tracking-widest text-slate-500 text-center">{label}</p>}
+    </div>
+  );
+};
+
+export default SignPreview;
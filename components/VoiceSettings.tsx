@@ -0,0 +1,64 @@
+import * as React from 'react';
+import { Translate } from '../utils/i18n.ts';
+import { getTtsProvider, PITCH_RANGE, RATE_RANGE, SpeechSettings, TTS_PROVIDERS, VoiceOption } from '../utils/tts.ts';
+
+interface VoiceSettingsProps {
+  settings: SpeechSettings;
+  onChange: (settings: SpeechSettings) => void;
+  onTest: () => void;
+  t: Translate;
+}
+
+// Text-to-speech provider, voice, rate and pitch
+const VoiceSettings = ({ settings, onChange, onTest, t }: VoiceSettingsProps) => {
+  const [voices, setVoices] = React.useState<VoiceOption[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+  const provider = getTtsProvider(settings.providerId);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setVoices([]);
+    setError(null);
+    provider.listVoices()
+      .then(list => { if (!cancelled) setVoices(list); })
+      .catch(err => { if (!cancelled) setError(err.message || 'Could not load voices'); });
+    return () => { cancelled = true; };
+  }, [provider]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-black opacity-40 uppercase ml-1">{t('settings.voice')}</label>
+        <div className="flex bg-slate-950 p-1 rounded-lg gap-1">
+          {TTS_PROVIDERS.map(p => (
+            <button key={p.id} onClick={() => onChange({ ...settings, providerId: p.id, voiceId: null })} disabled={!p.isAvailable()} className={`px-3 py-1 rounded-md text-[9px] font-bold uppercase tracking-widest whitespace-nowrap transition-all ${settings.providerId === p.id ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'} disabled:opacity-30 disabled:cursor-not-allowed`}>{p.name}</button>
+          ))}
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <select
+          value={settings.voiceId ?? ''}
+          onChange={e => onChange({ ...settings, voiceId: e.target.value || null })}
+          className="flex-1 min-w-0 bg-slate-950 border border-white/10 rounded-lg px-3 py-2 text-xs font-bold outline-none focus:border-indigo-500"
+        >
+          <option value="">{t('voice.default')}</option>
+          {voices.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+        </select>
+        <button onClick={onTest} className="px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[9px] font-bold uppercase tracking-widest">{t('voice.test')}</button>
+      </div>
+      {error && <p className="text-[10px] text-rose-400">{error}</p>}
+      <label className="flex items-center gap-3 text-[9px] font-bold uppercase tracking-widest text-slate-400">
+        <span className="w-16">{t('voice.rate')}</span>
+        <input type="range" min={RATE_RANGE.min} max={RATE_RANGE.max} step={0.1} value={settings.rate} onChange={e => onChange({ ...settings, rate: Number(e.target.value) })} className="flex-1 accent-indigo-500" />
+        <span className="w-8 text-right">{settings.rate.toFixed(1)}</span>
+      </label>
+      <label className={`flex items-center gap-3 text-[9px] font-bold uppercase tracking-widest text-slate-400 ${provider.id === 'elevenlabs' ? 'opacity-30' : ''}`}>
+        <span className="w-16">{t('voice.pitch')}</span>
+        <input type="range" min={PITCH_RANGE.min} max={PITCH_RANGE.max} step={0.1} value={settings.pitch} disabled={provider.id === 'elevenlabs'} onChange={e => onChange({ ...settings, pitch: Number(e.target.value) })} className="flex-1 accent-indigo-500" />
+        <span className="w-8 text-right">{settings.pitch.toFixed(1)}</span>
+      </label>
+    </div>
+  );
+};
+
+export default VoiceSettings;
@@ -0,0 +1,164 @@
+// Feeds synthetic hand landmarks through the headless recognition engine
+// (utils/recognition.ts) and checks which words it commits, without a
+// camera, MediaPipe or the UI. Run it with
+//   npm run check:recognition
+// It exits non-zero when a check fails. The TypeScript sources are loaded
+// through Vite, so nothing needs building first.
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true },
+  // Only our own modules are loaded; there are no browser dependencies to scan
+  optimizeDeps: { noDiscovery: true, entries: [] }
+});
+const { createRecognitionEngine } = await server.ssrLoadModule('/utils/recognition.ts');
+const { processHands } = await server.ssrLoadModule('/utils/features.ts');
+const { createMotionSample } = await server.ssrLoadModule('/utils/motion.ts');
+
+// Seeded, so every run sees the same hands
+let seed = 7;
+const random = () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+const FRAME_MS = 33;
+const CAMERA = { aspect: 4 / 3, mirroredCamera: false, dominantHand: 'Right' };
+const OPTIONS = { confidenceThreshold: 0.75, candidateThreshold: 0.4, contextWeight: 0, holdFrames: 6 };
+
+const randomHand = () => Array.from({ length: 21 }, () => ({ x: 0.5 + (random() - 0.5) * 0.3, y: 0.5 + (random() - 0.5) * 0.3, z: (random() - 0.5) * 0.05 }));
+const jitter = hand => hand.map(p => ({ x: p.x + (random() - 0.5) * 0.004, y: p.y + (random() - 0.5) * 0.004, z: p.z }));
+// Part way from one hand shape to another, as when moving between signs
+const blend = (a, b, w) => a.map((p, i) => ({ x: p.x * (1 - w) + b[i].x * w, y: p.y * (1 - w) + b[i].y * w, z: p.z }));
+// A MediaPipe result; the camera isn't mirrored, so MediaPipe's "Left" is the right hand
+const results = (hand, label = 'Left') => ({ multiHandLandmarks: hand ? [hand] : [], multiHandedness: hand ? [{ label, score: 0.95 }] : [] });
+// The same right hand seen by a camera that mirrors its image
+const MIRRORED = { ...CAMERA, mirroredCamera: true };
+const mirrorImage = hand => hand.map(p => ({ ...p, x: 1 - p.x }));
+
+const HELLO = randomHand();
+const WORLD = randomHand();
+const sample = (hand, id) => ({ id, ...processHands(results(jitter(hand)), 'Right', CAMERA) });
+// A third hand shape sliding to the signer's left, as seen by an unmirrored
+// camera, one hand per frame
+const AWAY = randomHand();
+const AWAY_FRAMES = 30;
+const away = (direction = 1) => Array.from({ length: AWAY_FRAMES }, (_, i) =>
+  AWAY.map(p => ({ ...p, x: p.x + direction * (i / (AWAY_FRAMES - 1) - 0.5) * 0.3 })));
+// A motion recording of those hands through `camera`
+const record = (hands, camera) => createMotionSample(hands.map((hand, i) => ({
+  t: i * FRAME_MS,
+  ...processHands(camera.mirroredCamera ? results(mirrorImage(jitter(hand)), 'Right') : results(jitter(hand)), 'Right', camera)
+})));
+const LIBRARY = [
+  { id: 'hello', label: 'HELLO', kind: 'static', samples: [0, 1, 2].map(i => sample(HELLO, `hello-${i}`)) },
+  { id: 'world', label: 'WORLD', kind: 'static', samples: [0, 1, 2].map(i => sample(WORLD, `world-${i}`)) }
+];
+
+// A fresh engine and ways to feed it: `hand` (null for no hand) for `frames`
+// frames, or each of `hands` for a frame, through `camera`, returning the
+// words committed meanwhile, with * for those that start a new sentence
+const session = async () => {
+  const engine = createRecognitionEngine({ classifierId: 'matcher', options: OPTIONS });
+  await engine.train(LIBRARY);
+  let t = 0;
+  const play = (hands, camera = CAMERA) => {
+    const words = [];
+    for (const hand of hands) {
+      const seen = hand && jitter(hand);
+      const frame = camera.mirroredCamera ? results(seen && mirrorImage(seen), 'Right') : results(seen);
+      engine.push(frame, t, camera).events.forEach(e => {
+        if (e.type === 'word') words.push(`${e.label}${e.startsSentence ? '*' : ''}`);
+      });
+      t += FRAME_MS;
+    }
+    return words.join(' ');
+  };
+  const feed = (hand, frames, camera) => play(Array.from({ length: frames }, () => hand), camera);
+  return { engine, feed, play };
+};
+
+const checks = {
+  'a sign flashed for fewer than holdFrames frames is not committed': async ({ feed }) => {
+    assert.equal(feed(HELLO, OPTIONS.holdFrames - 3), '');
+  },
+  'a held sign is committed once, however long it is held': async ({ feed }) => {
+    assert.equal(feed(HELLO, 90), 'HELLO');
+  },
+  'moving between signs commits only the sign arrived at': async ({ feed }) => {
+    feed(HELLO, 20);
+    let words = '';
+    for (let w = 0.1; w < 1; w += 0.15) words += feed(blend(HELLO, WORLD, w), 1);
+    assert.equal(words + feed(WORLD, 20), 'WORLD');
+  },
+  'a one-frame glitch does not release the held sign': async ({ feed }) => {
+    feed(HELLO, 20);
+    assert.equal(feed(blend(HELLO, WORLD, 0.5), 1) + feed(HELLO, 20), '');
+  },
+  // A slightly-off HELLO scores just under the commit confidence: enough to
+  // keep holding it, not enough to start holding it
+  'a held sign stays held while its match weakens a little': async ({ engine, feed }) => {
+    const loose = blend(HELLO, WORLD, 0.12);
+    assert.equal(feed(HELLO, 20) + feed(loose, 20), 'HELLO');
+    assert.equal(engine.held.label, 'HELLO');
+    feed(null, 5);
+    assert.equal(feed(loose, 20), '');
+    assert.equal(engine.held.label, null);
+  },
+  'resting the hand allows a deliberate repeat': async ({ feed }) => {
+    assert.equal(feed(HELLO, 20), 'HELLO');
+    feed(null, 5);
+    assert.equal(feed(HELLO, 20), 'HELLO');
+  },
+  'another sign in between allows a repeat': async ({ feed }) => {
+    assert.equal([feed(HELLO, 20), feed(WORLD, 20), feed(HELLO, 20)].join(' '), 'HELLO WORLD HELLO');
+  },
+  'the hold state is rest without a hand': async ({ engine, feed }) => {
+    feed(HELLO, 10);
+    assert.equal(engine.held.label, 'HELLO');
+    feed(null, 2);
+    assert.deepEqual(engine.held, { label: null, frames: 2 });
+  },
+  'a motion recorded through a mirroring camera is matched through it': async ({ engine, feed, play }) => {
+    await engine.train([...LIBRARY, { id: 'away', label: 'AWAY', kind: 'motion', samples: [], sequences: [record(away(), MIRRORED)] }]);
+    feed(null, 15, MIRRORED);
+    assert.equal(play(away(), MIRRORED) + feed(null, 15, MIRRORED), 'AWAY');
+    assert.equal(play(away(-1), MIRRORED) + feed(null, 15, MIRRORED), '');
+  },
+  'a motion recorded through one camera is matched through a mirroring one': async ({ engine, feed, play }) => {
+    await engine.train([...LIBRARY, { id: 'away', label: 'AWAY', kind: 'motion', samples: [], sequences: [record(away(), CAMERA)] }]);
+    feed(null, 15, MIRRORED);
+    assert.equal(play(away(), MIRRORED) + feed(null, 15, MIRRORED), 'AWAY');
+    assert.equal(play(away(-1), MIRRORED) + feed(null, 15, MIRRORED), '');
+  },
+  'the first word after a closed sentence starts a new one': async ({ engine, feed }) => {
+    feed(HELLO, 20);
+    engine.closeSentence();
+    feed(null, 5);
+    assert.equal(feed(WORLD, 20), 'WORLD*');
+  }
+};
+
+let failed = 0;
+try {
+  for (const [name, check] of Object.entries(checks)) {
+    try {
+      await check(await session());
+      console.log(`ok    ${name}`);
+    } catch (err) {
+      failed++;
+      console.log(`FAIL  ${name}\n      ${err.message.split('\n').join('\n      ')}`);
+    }
+  }
+} finally {
+  await server.close();
+}
+console.log(failed ? `${failed} of ${Object.keys(checks).length} checks failed` : 'all checks passed');
+process.exitCode = failed ? 1 : 0;
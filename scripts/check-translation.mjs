@@ -0,0 +1,68 @@
+// Checks what the rule-based translator (utils/translators.ts) makes of
+// common signed sentences. Run it with
+//   npm run check:translation
+// It exits non-zero when a sentence comes out differently. The TypeScript
+// sources are loaded through Vite, so nothing needs building first.
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true },
+  // Only our own modules are loaded; there are no browser dependencies to scan
+  optimizeDeps: { noDiscovery: true, entries: [] }
+});
+const { translateGloss, translateGlossTo } = await server.ssrLoadModule('/utils/translators.ts');
+
+// Gloss, as signed, and the English expected from it
+const ENGLISH = [
+  ['HELLO', 'Hello.'],
+  ['ME HAPPY', 'I am happy.'],
+  ['HE MY FRIEND', 'He is my friend.'],
+  ['SHE NOT TIRED', 'She is not tired.'],
+  ['ME WANT WATER', 'I want water.'],
+  ['HE WATCH TV', 'He watches tv.'],
+  ['HE NOT LIKE COFFEE', 'He does not like coffee.'],
+  ['ME NAME FS-MARIA', 'My name is Maria.'],
+  ['HELLO ME NAME FS-BOB', 'Hello, my name is Bob.'],
+  ['HI ME HAPPY', 'Hi, I am happy.'],
+  ['YOU NAME WHAT', 'What is your name?'],
+  ['HELLO YOU NAME WHAT', 'Hello, what is your name?'],
+  ['WHERE YOU GO', 'Where do you go?'],
+  ['TOMORROW ME WORK', 'I work tomorrow.'],
+  ['ME HAVE CAT CAT', 'I have cat cat.']
+];
+
+// Other languages keep the signing order and the library's words
+const LEXICON = { ME: 'yo', WANT: 'quiero', WATER: 'agua' };
+const SPANISH = [
+  ['ME WANT WATER', 'Yo quiero agua.'],
+  ['ME WANT WATER WATER', 'Yo quiero agua agua.']
+];
+
+const checks = [
+  ...ENGLISH.map(([gloss, expected]) => [gloss, () => translateGloss(gloss.split(' ')), expected]),
+  ...SPANISH.map(([gloss, expected]) => [`${gloss} (es)`, () => translateGlossTo(gloss.split(' '), { language: 'es', lexicon: LEXICON }), expected])
+];
+
+let failed = 0;
+try {
+  for (const [name, translate, expected] of checks) {
+    try {
+      assert.equal(translate(), expected);
+      console.log(`ok    ${name}`);
+    } catch (err) {
+      failed++;
+      console.log(`FAIL  ${name}\n      ${err.message.split('\n').join('\n      ')}`);
+    }
+  }
+} finally {
+  await server.close();
+}
+console.log(failed ? `${failed} of ${checks.length} checks failed` : 'all checks passed');
+process.exitCode = failed ? 1 : 0;
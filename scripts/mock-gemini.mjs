@@ -0,0 +1,80 @@
+// Stand-in for Gemini's generateContent endpoint, for trying the LLM
+// translator and context engine without a real key or network access.
+// Start it with
+//   npm run mock:gemini
+// and set GEMINI_BASE_URL=http://localhost:8787 (and any GEMINI_API_KEY) in
+// .env.local. MOCK_FAIL=1 makes every request fail so the fallback to the
+// rule-based translator can be checked; MOCK_DELAY_MS adds latency.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 8787);
+const FAIL = process.env.MOCK_FAIL === '1';
+const DELAY_MS = Number(process.env.MOCK_DELAY_MS || 0);
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, x-goog-api-key',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+// Deterministic "translation" so responses are easy to recognise. Signs
+// the instructions give a word for (other spoken languages) use that word.
+const translate = (gloss, instructions) => {
+  const lexicon = new Map((instructions.match(/their signs: (.*)\.$/)?.[1] || '')
+    .split('; ').map(pair => pair.split(' = ')).filter(pair => pair.length === 2));
+  const text = gloss.trim().split(/\s+/).filter(Boolean)
+    .map(g => lexicon.get(g) ?? g.toLowerCase().replace(/[-_]/g, ' ')).join(' ');
+  return text ? `${text.charAt(0).toUpperCase()}${text.slice(1)} (mock).` : '';
+};
+
+// Deterministic conversation context: the longest word of the last line as
+// the topic, and any listed sign that was already used as expected next
+const context = (prompt) => {
+  const [signLine = '', ...lines] = prompt.split('\n').filter(Boolean);
+  const signs = signLine.replace(/^Signs:\s*/, '').split(',').map(s => s.trim()).filter(Boolean);
+  const last = (lines.at(-1) || '').replace(/^(Signed|Heard):\s*/, '');
+  const topic = last.split(/\W+/).sort((a, b) => b.length - a.length)[0] || '';
+  const said = lines.join(' ').toLowerCase();
+  return {
+    topic: topic.toLowerCase(),
+    mood: last.trim().endsWith('?') ? 'curious' : 'neutral',
+    summary: `${lines.length} lines, last: ${last} (mock)`,
+    expected: signs.filter(s => said.includes(s.toLowerCase())).slice(0, 5)
+  };
+};
+
+http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method !== 'POST' || !/^\/v1beta\/models\/[^/]+:generateContent$/.test(req.url.split('?')[0])) {
+    return send(res, 404, { error: { code: 404, message: 'Not found' } });
+  }
+  if (!req.headers['x-goog-api-key']) {
+    return send(res, 403, { error: { code: 403, message: 'Missing API key' } });
+  }
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => setTimeout(() => {
+    if (FAIL) return send(res, 500, { error: { code: 500, message: 'Mock failure' } });
+    let text = '';
+    let instructions = '';
+    let json = false;
+    try {
+      const body = JSON.parse(raw);
+      text = (body.contents?.at(-1)?.parts || []).map(p => p.text || '').join(' ');
+      instructions = (body.systemInstruction?.parts || []).map(p => p.text || '').join(' ');
+      json = body.generationConfig?.responseMimeType === 'application/json';
+    } catch {
+      return send(res, 400, { error: { code: 400, message: 'Invalid JSON' } });
+    }
+    console.log(`${json ? 'context' : 'translate'}: ${text.replace(/\n/g, ' | ')}`);
+    const reply = json ? JSON.stringify(context(text)) : translate(text, instructions);
+    send(res, 200, {
+      candidates: [{ content: { role: 'model', parts: [{ text: reply }] }, finishReason: 'STOP' }]
+    });
+  }, DELAY_MS));
+}).listen(PORT, () => console.log(`Mock Gemini listening on http://localhost:${PORT}`));
@@ -0,0 +1,168 @@
+// Stand-in for a streaming speech-to-text server, for trying the "Streaming"
+// speech input without a real service or network access. Start it with
+//   npm run mock:stt
+// and set VITE_STT_URL=ws://localhost:8789 in .env.local. It speaks the
+// protocol described in utils/recognizers.ts. Nothing is really recognized:
+// while the audio is loud enough (MOCK_THRESHOLD, an RMS level) it reveals
+// the next phrase of a script word by word as interim text, and finishes
+// the phrase after a short silence. MOCK_PHRASES=a|b|c replaces the script.
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 8789);
+const THRESHOLD = Number(process.env.MOCK_THRESHOLD || 0.02);
+const PHRASES = (process.env.MOCK_PHRASES || 'hello how are you|I want water please|thank you very much|where is the bathroom')
+  .split('|').map(p => p.trim()).filter(Boolean);
+const SAMPLE_RATE = 16000;
+// Speech needed per revealed word, and silence that ends a phrase
+const WORD_MS = 300;
+const SILENCE_MS = 700;
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// Server frames are never masked or fragmented
+const frame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.from([0x80 | opcode, length])
+    : length < 65536 ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+    : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(length)); return b; })()]);
+  return Buffer.concat([header, payload]);
+};
+
+// Splits complete client frames off the buffer; returns the rest
+const readFrames = (buffer, onFrame) => {
+  for (;;) {
+    if (buffer.length < 2) return buffer;
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) return buffer;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) return buffer;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) return buffer;
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    onFrame(fin, opcode, payload);
+    buffer = buffer.subarray(offset + length);
+  }
+};
+
+const rms = (base64) => {
+  const bytes = Buffer.from(base64, 'base64');
+  let sum = 0;
+  const samples = Math.floor(bytes.length / 2);
+  for (let i = 0; i < samples; i++) {
+    const s = bytes.readInt16LE(i * 2) / 32768;
+    sum += s * s;
+  }
+  return samples ? { level: Math.sqrt(sum / samples), ms: (samples / SAMPLE_RATE) * 1000 } : { level: 0, ms: 0 };
+};
+
+let nextPhrase = 0;
+
+const session = (socket) => {
+  const send = (message) => socket.write(frame(0x1, Buffer.from(JSON.stringify(message))));
+  const transcribe = (text, finished) => send({ serverContent: { inputTranscription: { text, finished } } });
+  let words = null;
+  let shown = 0;
+  let speechMs = 0;
+  let silenceMs = 0;
+  let fragments = [];
+
+  const finish = () => {
+    if (words && shown > 0) {
+      transcribe(words.slice(0, shown).join(' '), true);
+      console.log(`final: ${words.slice(0, shown).join(' ')}`);
+    }
+    words = null;
+    shown = 0;
+    speechMs = 0;
+  };
+
+  const onAudio = ({ level, ms }) => {
+    if (level < THRESHOLD) {
+      silenceMs += ms;
+      if (words && silenceMs >= SILENCE_MS) finish();
+      return;
+    }
+    silenceMs = 0;
+    if (!words) {
+      words = PHRASES[nextPhrase++ % PHRASES.length].split(/\s+/);
+      shown = 0;
+    }
+    speechMs += ms;
+    const due = Math.min(words.length, Math.floor(speechMs / WORD_MS) + 1);
+    if (due > shown) {
+      shown = due;
+      transcribe(words.slice(0, shown).join(' '), false);
+    }
+  };
+
+  const onMessage = (text) => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return send({ error: { code: 400, message: 'Invalid JSON' } });
+    }
+    if (message.setup) {
+      console.log(`setup: ${JSON.stringify(message.setup)}`);
+      send({ setupComplete: {} });
+    }
+    const input = message.realtimeInput;
+    if (input?.audio?.data) onAudio(rms(input.audio.data));
+    if (input?.audioStreamEnd) finish();
+  };
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    pending = readFrames(Buffer.concat([pending, chunk]), (fin, opcode, payload) => {
+      if (opcode === 0x8) {
+        finish();
+        socket.end(frame(0x8, Buffer.alloc(0)));
+      } else if (opcode === 0x9) {
+        socket.write(frame(0xa, payload));
+      } else if (opcode === 0x1 || opcode === 0x0) {
+        fragments.push(payload);
+        if (fin) {
+          onMessage(Buffer.concat(fragments).toString('utf8'));
+          fragments = [];
+        }
+      }
+    });
+  });
+  socket.on('error', () => socket.destroy());
+  socket.on('close', () => console.log('session closed'));
+};
+
+const server = http.createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket connections only');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') return socket.destroy();
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+  console.log('session opened');
+  session(socket);
+});
+
+server.listen(PORT, () => console.log(`Mock speech-to-text listening on ws://localhost:${PORT}`));
@@ -0,0 +1,72 @@
+// Stand-in for a local text-to-speech server, for trying the "Local Server"
+// voice provider without a real engine. Start it with
+//   npm run mock:tts
+// and set VITE_TTS_URL=http://localhost:8788 in .env.local. Speech is
+// replaced by a tone whose length follows the text and rate and whose
+// frequency follows the voice and pitch, so settings changes are audible.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 8788);
+const SAMPLE_RATE = 16000;
+const VOICES = [
+  { id: 'low', name: 'Low Tone', frequency: 220 },
+  { id: 'mid', name: 'Mid Tone', frequency: 330 },
+  { id: 'high', name: 'High Tone', frequency: 440 }
+];
+
+const send = (res, status, body, type = 'application/json') => {
+  res.writeHead(status, {
+    'Content-Type': type,
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(body);
+};
+
+// 16-bit mono PCM WAV of a faded sine tone
+const tone = (frequency, seconds) => {
+  const samples = Math.round(SAMPLE_RATE * seconds);
+  const wav = Buffer.alloc(44 + samples * 2);
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + samples * 2, 4);
+  wav.write('WAVEfmt ', 8);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(SAMPLE_RATE, 24);
+  wav.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36);
+  wav.writeUInt32LE(samples * 2, 40);
+  for (let i = 0; i < samples; i++) {
+    const fade = Math.min(1, i / 400, (samples - i) / 400);
+    wav.writeInt16LE(Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 8000 * fade), 44 + i * 2);
+  }
+  return wav;
+};
+
+http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, '');
+  if (req.method === 'GET' && req.url === '/voices') {
+    return send(res, 200, JSON.stringify(VOICES.map(({ id, name }) => ({ id, name }))));
+  }
+  if (req.method !== 'POST' || req.url !== '/synthesize') return send(res, 404, JSON.stringify({ error: 'Not found' }));
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return send(res, 400, JSON.stringify({ error: 'Invalid JSON' }));
+    }
+    const text = String(body.text || '');
+    const voice = VOICES.find(v => v.id === body.voice) || VOICES[1];
+    const seconds = Math.min(10, Math.max(0.2, text.length * 0.06)) / (Number(body.rate) || 1);
+    console.log(`synthesize: "${text}" (${voice.id}, ${body.lang || "no lang"}, rate ${body.rate}, pitch ${body.pitch})`);
+    send(res, 200, tone(voice.frequency * (Number(body.pitch) || 1), seconds), 'audio/wav');
+  });
+}).listen(PORT, () => console.log(`Mock TTS listening on http://localhost:${PORT}`));
@@ -0,0 +1,86 @@
+import { CLIPS_STORE, openDatabase, request, transactionDone } from './localStore.ts';
+
+// Least recently played clips beyond this are evicted
+const MAX_CLIPS = 400;
+
+interface ClipRecord {
+  key: string;
+  blob: Blob;
+  usedAt: number;
+}
+
+// Synthesized speech kept across sessions, so repeated phrases play
+// instantly and without a network connection
+export interface ClipCache {
+  get(key: string): Promise<Blob | undefined>;
+  put(key: string, blob: Blob): Promise<void>;
+}
+
+const createIndexedDbClipCache = async (): Promise<ClipCache> => {
+  const db = await openDatabase();
+
+  const evict = async () => {
+    const tx = db.transaction(CLIPS_STORE, 'readwrite');
+    const clips = tx.objectStore(CLIPS_STORE);
+    let excess = (await request(clips.count())) - MAX_CLIPS;
+    if (excess > 0) {
+      const cursorRequest = clips.index('usedAt').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    }
+    await transactionDone(tx);
+  };
+
+  return {
+    get: async (key) => {
+      const tx = db.transaction(CLIPS_STORE, 'readwrite');
+      const clips = tx.objectStore(CLIPS_STORE);
+      const record = await request<ClipRecord | undefined>(clips.get(key));
+      if (record) clips.put({ ...record, usedAt: Date.now() });
+      await transactionDone(tx);
+      return record?.blob;
+    },
+    put: async (key, blob) => {
+      const tx = db.transaction(CLIPS_STORE, 'readwrite');
+      tx.objectStore(CLIPS_STORE).put({ key, blob, usedAt: Date.now() } satisfies ClipRecord);
+      await transactionDone(tx);
+      await evict();
+    }
+  };
+};
+
+// Without IndexedDB clips are only kept for the session
+const createMemoryClipCache = (): ClipCache => {
+  const clips = new Map<string, Blob>();
+  return {
+    get: async (key) => {
+      const blob = clips.get(key);
+      if (blob) {
+        clips.delete(key);
+        clips.set(key, blob);
+      }
+      return blob;
+    },
+    put: async (key, blob) => {
+      clips.delete(key);
+      clips.set(key, blob);
+      if (clips.size > MAX_CLIPS) clips.delete(clips.keys().next().value!);
+    }
+  };
+};
+
+export const openClipCache = async (): Promise<ClipCache> => {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return await createIndexedDbClipCache();
+    } catch (err) {
+      console.error('IndexedDB unavailable, caching speech in memory:', err);
+    }
+  }
+  return createMemoryClipCache();
+};
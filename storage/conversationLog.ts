@@ -0,0 +1,79 @@
+import { Message } from '../types.ts';
+import { CONVERSATIONS_STORE, openDatabase, request, transactionDone } from './localStore.ts';
+
+const FALLBACK_STORAGE_KEY = 'echoassist_conversations';
+
+export interface Conversation {
+  id: string;
+  startedAt: Date;
+  messages: Message[];
+}
+
+// Conversations kept on this device, newest first
+export interface ConversationLog {
+  list(): Promise<Conversation[]>;
+  save(conversation: Conversation): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+const newestFirst = (a: Conversation, b: Conversation) => b.startedAt.getTime() - a.startedAt.getTime();
+
+const createIndexedDbConversationLog = async (): Promise<ConversationLog> => {
+  const db = await openDatabase();
+  return {
+    list: async () => {
+      const tx = db.transaction(CONVERSATIONS_STORE, 'readonly');
+      return (await request<Conversation[]>(tx.objectStore(CONVERSATIONS_STORE).getAll())).sort(newestFirst);
+    },
+    save: async (conversation) => {
+      const tx = db.transaction(CONVERSATIONS_STORE, 'readwrite');
+      tx.objectStore(CONVERSATIONS_STORE).put(conversation);
+      await transactionDone(tx);
+    },
+    remove: async (id) => {
+      const tx = db.transaction(CONVERSATIONS_STORE, 'readwrite');
+      tx.objectStore(CONVERSATIONS_STORE).delete(id);
+      await transactionDone(tx);
+    }
+  };
+};
+
+// JSON loses Dates, so they are revived on read
+const readStoredConversations = (): Conversation[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(FALLBACK_STORAGE_KEY) || '[]');
+    return saved.map((c: any) => ({
+      ...c,
+      startedAt: new Date(c.startedAt),
+      messages: c.messages.map((m: any) => ({ ...m, timestamp: new Date(m.timestamp) }))
+    }));
+  } catch (e) {
+    console.error('Could not read conversations:', e);
+    return [];
+  }
+};
+
+const createLocalStorageConversationLog = (): ConversationLog => {
+  const write = (conversations: Conversation[]) =>
+    localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify(conversations));
+  return {
+    list: async () => readStoredConversations().sort(newestFirst),
+    save: async (conversation) => {
+      write([conversation, ...readStoredConversations().filter(c => c.id !== conversation.id)]);
+    },
+    remove: async (id) => {
+      write(readStoredConversations().filter(c => c.id !== id));
+    }
+  };
+};
+
+export const openConversationLog = async (): Promise<ConversationLog> => {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return await createIndexedDbConversationLog();
+    } catch (err) {
+      console.error('IndexedDB unavailable, saving conversations to localStorage:', err);
+    }
+  }
+  return createLocalStorageConversationLog();
+};
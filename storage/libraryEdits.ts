@@ -0,0 +1,58 @@
+import { CustomSign } from '../types.ts';
+import { freshId, mergeImported } from './libraryFile.ts';
+
+// Edits made from the Variation Library. Each returns the new library, or
+// throws when the edit would lose variations.
+
+const kindOf = (sign: CustomSign) => sign.kind || 'static';
+
+export const normalizeLabel = (label: string) => label.trim().toUpperCase();
+
+// Static signs and motion signs can't share variations
+const assertSameKind = (sign: CustomSign, target: CustomSign | undefined) => {
+  if (target && kindOf(target) !== kindOf(sign)) {
+    throw new Error(`${sign.label} and ${target.label} are different kinds of sign`);
+  }
+};
+
+// A sign with no variations left is removed
+const withoutEmpty = (signs: CustomSign[]) =>
+  signs.filter(s => s.samples.length > 0 || (s.sequences || []).length > 0);
+
+export const removeVariation = (signs: CustomSign[], signId: string, variationId: string) =>
+  withoutEmpty(signs.map(s => s.id !== signId ? s : {
+    ...s,
+    samples: s.samples.filter(v => v.id !== variationId),
+    ...(s.sequences ? { sequences: s.sequences.filter(v => v.id !== variationId) } : {})
+  }));
+
+// Renames a sign. Taking another sign's label merges the two, keeping that
+// sign's id and translations where both have one.
+export const renameSign = (signs: CustomSign[], signId: string, label: string) => {
+  const sign = signs.find(s => s.id === signId);
+  const newLabel = normalizeLabel(label);
+  if (!sign || !newLabel || newLabel === sign.label) return signs;
+  const target = signs.find(s => s.label === newLabel);
+  if (!target) return signs.map(s => s.id === signId ? { ...s, label: newLabel } : s);
+  assertSameKind(sign, target);
+  return mergeImported(signs.filter(s => s.id !== signId), [{ ...sign, label: newLabel }], 'combine').signs;
+};
+
+// Moves one variation to the sign labelled `label`, creating it if needed
+export const moveVariation = (signs: CustomSign[], signId: string, variationId: string, label: string) => {
+  const sign = signs.find(s => s.id === signId);
+  const newLabel = normalizeLabel(label);
+  if (!sign || !newLabel || newLabel === sign.label) return signs;
+  assertSameKind(sign, signs.find(s => s.label === newLabel));
+  const sample = sign.samples.find(v => v.id === variationId);
+  const sequence = sign.sequences?.find(v => v.id === variationId);
+  if (!sample && !sequence) return signs;
+  const moved: CustomSign = {
+    id: freshId(),
+    label: newLabel,
+    kind: kindOf(sign),
+    samples: sample ? [sample] : [],
+    ...(sequence ? { sequences: [sequence] } : {})
+  };
+  return mergeImported(removeVariation(signs, signId, variationId), [moved], 'combine').signs;
+};
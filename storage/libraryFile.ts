@@ -0,0 +1,189 @@
+import { CustomSign, HandSample, MotionSample } from '../types.ts';
+import { upgradeSign } from '../utils/features.ts';
+
+// See docs/library-format.md for the file layout and version history.
+export const LIBRARY_FORMAT = 'echoassist-library';
+export const LIBRARY_FORMAT_VERSION = 2;
+
+export interface LibraryFile {
+  format: typeof LIBRARY_FORMAT;
+  version: number;
+  exportedAt: string;
+  signs: CustomSign[];
+}
+
+export type MergeStrategy = 'keep' | 'replace' | 'combine';
+
+export interface ImportResult {
+  signs: CustomSign[];
+  added: number;
+  // Existing signs kept, replaced or combined into
+  conflicts: number;
+  // Imported signs left out because they can't be combined with the
+  // existing sign of their label (one static, the other motion)
+  skipped: number;
+}
+
+// migrations[n] upgrades the signs of a version-n document to version n + 1
+const migrations: ((signs: any[]) => any[])[] = [
+  // 0 → 1: bare arrays saved under echoassist_stable_v1 / the old echo_library
+  // row. Signs had no kind and only static samples.
+  signs => signs.map(sign => ({
+    ...sign,
+    kind: sign.kind || 'static',
+    samples: Array.isArray(sign.samples) ? sign.samples : []
+  })),
+  // 1 → 2: landmarks become aspect corrected and rotation aligned, with joint
+  // angles and roll. Depth can't be recovered, so old samples stay 2D.
+  signs => sanitize(signs, true).map(upgradeSign)
+];
+
+const isPointList = (value: any) =>
+  Array.isArray(value) && value.length === 21 && value.every((p: any) => typeof p?.nx === 'number' && typeof p?.ny === 'number');
+
+// Before v2 shapes had no joint angles or roll; `legacy` accepts those so
+// the 1 → 2 migration can re-featurize them
+const isShape = (value: any, legacy: boolean) =>
+  isPointList(value?.normalized) && Array.isArray(value.curlStates) &&
+  (legacy || (Array.isArray(value.jointAngles) && value.jointAngles.length === 15 && typeof value.roll === 'number'));
+
+const isPose = (value: any, legacy: boolean) =>
+  isShape(value, legacy) && (value.secondary === undefined || isShape(value.secondary, legacy));
+
+const isSample = (value: any, legacy: boolean): value is HandSample =>
+  typeof value?.id === 'string' && isPose(value, legacy);
+
+const isSequence = (value: any, legacy: boolean): value is MotionSample =>
+  typeof value?.id === 'string' && typeof value.duration === 'number' &&
+  Array.isArray(value.frames) && value.frames.every((f: any) => typeof f?.t === 'number' && isPose(f, legacy));
+
+const sanitizeTranslations = (value: any): Record<string, string> | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const entries = Object.entries(value)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== '')
+    .map(([lang, text]) => [lang, text.trim()]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+// Drops malformed signs and variations rather than failing the whole load
+const sanitize = (signs: any[], legacy = false): CustomSign[] => signs
+  .filter(sign => typeof sign?.id === 'string' && typeof sign.label === 'string')
+  .map(sign => ({
+    ...sign,
+    label: sign.label.trim().toUpperCase(),
+    translations: sanitizeTranslations(sign.translations),
+    samples: (sign.samples || []).filter((v: any) => isSample(v, legacy)),
+    ...(sign.sequences ? { sequences: sign.sequences.filter((v: any) => isSequence(v, legacy)) } : {})
+  }))
+  .filter(sign => sign.samples.length > 0 || (sign.sequences?.length ?? 0) > 0);
+
+// Accepts a LibraryFile of any known version or a legacy bare array and
+// returns signs in the current schema
+export const migrateLibrary = (data: unknown): CustomSign[] => {
+  let version: number;
+  let signs: any[];
+
+  if (Array.isArray(data)) {
+    version = 0;
+    signs = data;
+  } else if (data && typeof data === 'object' && (data as any).format === LIBRARY_FORMAT) {
+    version = Number((data as any).version);
+    signs = (data as any).signs;
+    if (!Number.isInteger(version) || version < 1) throw new Error('Unknown library file version.');
+    if (version > LIBRARY_FORMAT_VERSION) {
+      throw new Error(`This file was made by a newer version of EchoAssist (format v${version}).`);
+    }
+    if (!Array.isArray(signs)) throw new Error('Library file has no signs.');
+  } else {
+    throw new Error('Not an EchoAssist library file.');
+  }
+
+  for (let v = version; v < LIBRARY_FORMAT_VERSION; v++) signs = migrations[v](signs);
+  return sanitize(signs);
+};
+
+export const exportLibrary = (signs: CustomSign[]): LibraryFile => ({
+  format: LIBRARY_FORMAT,
+  version: LIBRARY_FORMAT_VERSION,
+  exportedAt: new Date().toISOString(),
+  signs
+});
+
+export const parseLibraryFile = (text: string): CustomSign[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('File is not valid JSON.');
+  }
+  return migrateLibrary(data);
+};
+
+let idCounter = 0;
+export const freshId = () => `${Date.now()}${(idCounter++).toString().padStart(3, '0')}`;
+
+// Gives incoming variations new ids where they would collide with existing ones
+const withUniqueIds = <T extends { id: string }>(items: T[], taken: Set<string>) => items.map(item => {
+  if (!taken.has(item.id)) {
+    taken.add(item.id);
+    return item;
+  }
+  const id = freshId();
+  taken.add(id);
+  return { ...item, id };
+});
+
+// Merges imported signs into the library by label. On a label conflict,
+// 'keep' leaves the existing sign alone, 'replace' swaps in the imported
+// variations, and 'combine' adds the imported variations to the existing ones.
+// A static sign and a motion sign can't be combined, so such pairs are skipped.
+export const mergeImported = (existing: CustomSign[], incoming: CustomSign[], strategy: MergeStrategy): ImportResult => {
+  const byLabel = new Map(existing.map(s => [s.label, s]));
+  const signIds = new Set(existing.map(s => s.id));
+  let added = 0;
+  let conflicts = 0;
+  let skipped = 0;
+  const result = [...existing];
+
+  incoming.forEach(sign => {
+    const current = byLabel.get(sign.label);
+    if (!current) {
+      const id = signIds.has(sign.id) ? freshId() : sign.id;
+      signIds.add(id);
+      const imported = { ...sign, id };
+      result.push(imported);
+      byLabel.set(sign.label, imported);
+      added++;
+      return;
+    }
+
+    if (strategy === 'combine' && (current.kind || 'static') !== (sign.kind || 'static')) {
+      skipped++;
+      return;
+    }
+    conflicts++;
+    if (strategy === 'keep') return;
+
+    const index = result.indexOf(current);
+    if (strategy === 'replace') {
+      result[index] = { ...sign, id: current.id };
+    } else {
+      const taken = new Set([...current.samples, ...(current.sequences || [])].map(v => v.id));
+      const isMotion = current.kind === 'motion';
+      result[index] = {
+        ...current,
+        ...(sign.translations ? { translations: { ...sign.translations, ...current.translations } } : {}),
+        samples: isMotion ? current.samples : [...current.samples, ...withUniqueIds(sign.samples, taken)],
+        ...(isMotion ? { sequences: [...(current.sequences || []), ...withUniqueIds(sign.sequences || [], taken)] } : {})
+      };
+    }
+    byLabel.set(sign.label, result[index]);
+  });
+
+  return { signs: result, added, conflicts, skipped };
+};
+
+export const countConflicts = (existing: CustomSign[], incoming: CustomSign[]) => {
+  const labels = new Set(existing.map(s => s.label));
+  return incoming.filter(s => labels.has(s.label)).length;
+};
@@ -0,0 +1,261 @@
+import { CustomSign } from '../types.ts';
+import { LocalStore } from './localStore.ts';
+
+// `changed` lists the sample/sequence ids added or edited (undefined means
+// all of them, e.g. for a new sign); `removed` lists ids deleted from it.
+export type LibraryChange =
+  | { type: 'upsert'; sign: CustomSign; at: number; changed?: string[]; removed?: string[] }
+  | { type: 'delete'; id: string; at: number };
+
+// An optional cloud copy of one library (a user's or a team's). `push`
+// applies queued changes on top of whatever the cloud currently holds.
+export interface SyncTarget {
+  readonly scope: string;
+  pull(): Promise<CustomSign[]>;
+  push(changes: LibraryChange[]): Promise<void>;
+}
+
+export type SyncStatus = 'local' | 'idle' | 'syncing' | 'success' | 'offline' | 'error';
+
+// Which cloud library the signs in the local store belong to; unset while
+// the library has only ever lived on this device
+const OWNER_KEY = 'libraryOwner';
+const OUTBOX_PREFIX = 'outbox:';
+const FLUSH_DELAY = 1200;
+const RETRY_DELAY = 15000;
+
+type Variation = { id: string };
+
+const variations = (sign: CustomSign): Variation[] => [...sign.samples, ...(sign.sequences || [])];
+
+const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+
+export const diffLibraries = (prev: CustomSign[], next: CustomSign[], at = Date.now()): LibraryChange[] => {
+  const before = new Map(prev.map(s => [s.id, s]));
+  const after = new Set(next.map(s => s.id));
+  const changes: LibraryChange[] = [];
+  next.forEach(sign => {
+    const old = before.get(sign.id);
+    if (!old) {
+      changes.push({ type: 'upsert', sign, at });
+      return;
+    }
+    if (old === sign || JSON.stringify(old) === JSON.stringify(sign)) return;
+
+    const oldById = new Map(variations(old).map(v => [v.id, v]));
+    const newIds = new Set(variations(sign).map(v => v.id));
+    const changed = variations(sign)
+      .filter(v => oldById.get(v.id) !== v && JSON.stringify(oldById.get(v.id)) !== JSON.stringify(v))
+      .map(v => v.id);
+    const removed = Array.from(oldById.keys()).filter(id => !newIds.has(id));
+    changes.push({ type: 'upsert', sign, at, changed, removed });
+  });
+  prev.forEach(sign => {
+    if (!after.has(sign.id)) changes.push({ type: 'delete', id: sign.id, at });
+  });
+  return changes;
+};
+
+// Later changes to the same sign are folded into earlier ones
+export const compactChanges = (changes: LibraryChange[]) => {
+  const latest = new Map<string, LibraryChange>();
+  changes.forEach(c => {
+    const id = c.type === 'upsert' ? c.sign.id : c.id;
+    const prev = latest.get(id);
+    if (c.type === 'upsert' && prev?.type === 'upsert') {
+      latest.set(id, {
+        ...c,
+        changed: prev.changed && c.changed
+          ? union(prev.changed, c.changed).filter(v => !c.removed?.includes(v))
+          : undefined,
+        removed: union(prev.removed, c.removed).filter(v => !c.changed?.includes(v))
+      });
+    } else {
+      latest.set(id, c);
+    }
+  });
+  return Array.from(latest.values());
+};
+
+// Applies a local edit to the cloud's copy of a sign. Only the variations the
+// edit touched are taken from the local copy, so variations added elsewhere
+// in the meantime are kept.
+const mergeSign = (base: CustomSign, change: Extract<LibraryChange, { type: 'upsert' }>): CustomSign => {
+  const touched = (id: string) => change.changed === undefined || change.changed.includes(id);
+  const merge = <T extends Variation>(remote: T[], local: T[]) => {
+    const localById = new Map(local.map(v => [v.id, v]));
+    const merged = remote
+      .filter(v => !change.removed?.includes(v.id))
+      .map(v => touched(v.id) && localById.has(v.id) ? localById.get(v.id)! : v);
+    local.forEach(v => {
+      if (touched(v.id) && !merged.some(m => m.id === v.id)) merged.push(v);
+    });
+    return merged;
+  };
+  const { samples, sequences, ...fields } = change.sign;
+  return {
+    ...base,
+    ...fields,
+    samples: merge(base.samples, samples),
+    sequences: sequences || base.sequences ? merge(base.sequences || [], sequences || []) : undefined
+  };
+};
+
+export const applyChanges = (signs: CustomSign[], changes: LibraryChange[]): CustomSign[] => {
+  const result = new Map(signs.map(s => [s.id, s]));
+  compactChanges(changes).forEach(change => {
+    if (change.type === 'delete') {
+      result.delete(change.id);
+      return;
+    }
+    const base = result.get(change.sign.id);
+    result.set(change.sign.id, base ? mergeSign(base, change) : change.sign);
+  });
+  return Array.from(result.values());
+};
+
+export interface LibrarySync {
+  // Queues local edits and schedules a push
+  record(changes: LibraryChange[]): Promise<void>;
+  // Pushes pending edits, then returns the cloud library with anything still
+  // unsent applied on top, or null when there is no reachable cloud
+  reconcile(): Promise<CustomSign[] | null>;
+  pendingCount(): number;
+  dispose(): void;
+}
+
+interface SyncCallbacks {
+  onStatus: (status: SyncStatus, pending: number) => void;
+  // Called with the reconciled library when the connection comes back
+  onReconciled: (signs: CustomSign[]) => void;
+}
+
+export const createLibrarySync = async (
+  local: LocalStore,
+  remote: SyncTarget | null,
+  { onStatus, onReconciled }: SyncCallbacks
+): Promise<LibrarySync> => {
+  let owner = await local.getMeta<string>(OWNER_KEY);
+  const outboxes = new Map<string, LibraryChange[]>();
+  let flushTimer: number | null = null;
+  let flushing: Promise<boolean> | null = null;
+
+  const outboxFor = async (scope: string) => {
+    if (!outboxes.has(scope)) outboxes.set(scope, (await local.getMeta<LibraryChange[]>(OUTBOX_PREFIX + scope)) || []);
+    return outboxes.get(scope)!;
+  };
+  // Outbox writes for a scope run one after another, each on the result of
+  // the last, so edits that overlap don't drop each other's changes
+  const outboxWrites = new Map<string, Promise<void>>();
+  const updateOutbox = (scope: string, update: (changes: LibraryChange[]) => LibraryChange[]) => {
+    const write = (outboxWrites.get(scope) || Promise.resolve()).then(async () => {
+      const changes = update(await outboxFor(scope));
+      outboxes.set(scope, changes);
+      await local.setMeta(OUTBOX_PREFIX + scope, changes);
+    });
+    outboxWrites.set(scope, write.catch(() => undefined));
+    return write;
+  };
+  // Edits are queued for the library the local signs belong to, which can
+  // differ from `remote` until the first successful pull
+  const pending = () => (owner && outboxes.get(owner)?.length) || 0;
+  const report = (status: SyncStatus) => onStatus(remote ? status : 'local', pending());
+
+  const schedule = (delay: number) => {
+    if (!remote) return;
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = window.setTimeout(() => { flushTimer = null; flush(); }, delay);
+  };
+
+  const flush = (): Promise<boolean> => {
+    if (!remote) return Promise.resolve(false);
+    if (flushing) return flushing;
+    if (!navigator.onLine) {
+      report('offline');
+      return Promise.resolve(false);
+    }
+
+    flushing = (async () => {
+      try {
+        await outboxWrites.get(remote.scope);
+        const outbox = await outboxFor(remote.scope);
+        if (outbox.length === 0) return true;
+        const sent = outbox.length;
+        report('syncing');
+        await remote.push(compactChanges(outbox));
+        // Keep anything recorded while the push was in flight
+        await updateOutbox(remote.scope, changes => changes.slice(sent));
+        report('success');
+        return true;
+      } catch (err) {
+        console.error('Cloud sync failed:', err);
+        report(navigator.onLine ? 'error' : 'offline');
+        schedule(RETRY_DELAY);
+        return false;
+      } finally {
+        flushing = null;
+      }
+    })();
+    return flushing;
+  };
+
+  const reconcile = async () => {
+    if (!remote) return null;
+    if (!navigator.onLine) {
+      report('offline');
+      return null;
+    }
+    if (flushing) await flushing;
+
+    // A library that has only lived on this device is uploaded into the
+    // first cloud library it meets rather than replaced by it
+    if (!owner) {
+      const at = Date.now();
+      const signs = await local.loadSigns();
+      const uploads: LibraryChange[] = signs.map(sign => ({ type: 'upsert', sign, at }));
+      await updateOutbox(remote.scope, changes => [...uploads, ...changes]);
+    }
+
+    await flush();
+    report('syncing');
+    try {
+      const cloud = await remote.pull();
+      owner = remote.scope;
+      await local.setMeta(OWNER_KEY, owner);
+      report('success');
+      await outboxWrites.get(remote.scope);
+      return applyChanges(cloud, await outboxFor(remote.scope));
+    } catch (err) {
+      console.error('Cloud fetch failed:', err);
+      report('error');
+      return null;
+    }
+  };
+
+  const onOnline = () => {
+    reconcile()
+      .then(signs => { if (signs) onReconciled(signs); })
+      .catch(err => {
+        console.error('Cloud sync failed:', err);
+        report(navigator.onLine ? 'error' : 'offline');
+      });
+  };
+  window.addEventListener('online', onOnline);
+  if (owner) await outboxFor(owner);
+  report('idle');
+
+  return {
+    record: async (changes) => {
+      if (changes.length === 0 || !owner) return;
+      await updateOutbox(owner, outbox => [...outbox, ...changes]);
+      report(navigator.onLine ? 'idle' : 'offline');
+      schedule(FLUSH_DELAY);
+    },
+    reconcile,
+    pendingCount: pending,
+    dispose: () => {
+      if (flushTimer) clearTimeout(flushTimer);
+      window.removeEventListener('online', onOnline);
+    }
+  };
+};
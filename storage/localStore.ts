@@ -0,0 +1,143 @@
+import { CustomSign } from '../types.ts';
+import { exportLibrary, LIBRARY_FORMAT, LIBRARY_FORMAT_VERSION, migrateLibrary } from './libraryFile.ts';
+
+// Key the library lived under (as a bare array) before the IndexedDB backend
+export const LEGACY_STORAGE_KEY = 'echoassist_stable_v1';
+// localStorage fallback, stored in the versioned library file format
+const FALLBACK_STORAGE_KEY = 'echoassist_library';
+
+const DB_NAME = 'echoassist';
+const DB_VERSION = 3;
+const SIGNS_STORE = 'signs';
+const META_STORE = 'meta';
+// Synthesized speech, see clipCache.ts
+export const CLIPS_STORE = 'clips';
+// Saved conversations, see conversationLog.ts
+export const CONVERSATIONS_STORE = 'conversations';
+const LEGACY_IMPORTED_KEY = 'legacyImported';
+// Library format version the signs store was last written with
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const META_PREFIX = 'echoassist_meta_';
+
+// The on-device copy of the library plus small bits of bookkeeping (sync
+// outbox, flags). Always available, whether or not a cloud target is configured.
+export interface LocalStore {
+  readonly kind: 'indexeddb' | 'localstorage';
+  loadSigns(): Promise<CustomSign[]>;
+  saveSigns(signs: CustomSign[]): Promise<void>;
+  getMeta<T>(key: string): Promise<T | undefined>;
+  setMeta<T>(key: string, value: T): Promise<void>;
+}
+
+export const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+export const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    if (!db.objectStoreNames.contains(SIGNS_STORE)) db.createObjectStore(SIGNS_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    if (!db.objectStoreNames.contains(CLIPS_STORE)) {
+      db.createObjectStore(CLIPS_STORE, { keyPath: 'key' }).createIndex('usedAt', 'usedAt');
+    }
+    if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const readStoredLibrary = (key: string): CustomSign[] => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? migrateLibrary(JSON.parse(saved)) : [];
+  } catch (e) {
+    console.error(`Could not read library from ${key}:`, e);
+    return [];
+  }
+};
+
+export const createIndexedDbStore = async (): Promise<LocalStore> => {
+  const db = await openDatabase();
+
+  const store: LocalStore = {
+    kind: 'indexeddb',
+    loadSigns: async () => {
+      const tx = db.transaction(SIGNS_STORE, 'readonly');
+      return request<CustomSign[]>(tx.objectStore(SIGNS_STORE).getAll());
+    },
+    saveSigns: async (signs) => {
+      const tx = db.transaction(SIGNS_STORE, 'readwrite');
+      const objects = tx.objectStore(SIGNS_STORE);
+      objects.clear();
+      signs.forEach(sign => objects.put(sign));
+      await transactionDone(tx);
+    },
+    getMeta: async <T>(key: string) => {
+      const tx = db.transaction(META_STORE, 'readonly');
+      return request<T | undefined>(tx.objectStore(META_STORE).get(key));
+    },
+    setMeta: async <T>(key: string, value: T) => {
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(value, key);
+      await transactionDone(tx);
+    }
+  };
+
+  // One-time import of a library saved by the localStorage-only version.
+  // The old key is left in place so a downgrade still finds its data.
+  if (!(await store.getMeta<boolean>(LEGACY_IMPORTED_KEY))) {
+    const existing = await store.loadSigns();
+    const legacy = readStoredLibrary(LEGACY_STORAGE_KEY);
+    if (existing.length === 0 && legacy.length > 0) await store.saveSigns(legacy);
+    await store.setMeta(LEGACY_IMPORTED_KEY, true);
+    await store.setMeta(SCHEMA_VERSION_KEY, LIBRARY_FORMAT_VERSION);
+  }
+
+  // Upgrade signs written by an older version of the app in place
+  const schemaVersion = (await store.getMeta<number>(SCHEMA_VERSION_KEY)) ?? 1;
+  if (schemaVersion < LIBRARY_FORMAT_VERSION) {
+    const signs = await store.loadSigns();
+    await store.saveSigns(migrateLibrary({ format: LIBRARY_FORMAT, version: schemaVersion, signs }));
+    await store.setMeta(SCHEMA_VERSION_KEY, LIBRARY_FORMAT_VERSION);
+  }
+
+  return store;
+};
+
+// Fallback for browsers without IndexedDB (some private browsing modes)
+export const createLocalStorageStore = (): LocalStore => ({
+  kind: 'localstorage',
+  loadSigns: async () => readStoredLibrary(
+    localStorage.getItem(FALLBACK_STORAGE_KEY) !== null ? FALLBACK_STORAGE_KEY : LEGACY_STORAGE_KEY
+  ),
+  saveSigns: async (signs) => {
+    localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify(exportLibrary(signs)));
+  },
+  getMeta: async <T>(key: string) => {
+    const saved = localStorage.getItem(META_PREFIX + key);
+    return saved ? JSON.parse(saved) as T : undefined;
+  },
+  setMeta: async <T>(key: string, value: T) => {
+    localStorage.setItem(META_PREFIX + key, JSON.stringify(value));
+  }
+});
+
+export const openLocalStore = async (): Promise<LocalStore> => {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return await createIndexedDbStore();
+    } catch (err) {
+      console.error('IndexedDB unavailable, using localStorage:', err);
+    }
+  }
+  return createLocalStorageStore();
+};
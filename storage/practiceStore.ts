@@ -0,0 +1,19 @@
+import { SignProgress } from '../utils/practice.ts';
+
+const PRACTICE_KEY = 'echoassist_practice';
+
+// Practice progress is the learner's own, so it stays on this device rather
+// than syncing with a (possibly shared) library. Keyed by sign id.
+export const loadProgress = (): Record<string, SignProgress> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PRACTICE_KEY) || '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch (e) {
+    console.error('Could not read practice progress:', e);
+    return {};
+  }
+};
+
+export const saveProgress = (progress: Record<string, SignProgress>) => {
+  localStorage.setItem(PRACTICE_KEY, JSON.stringify(progress));
+};
@@ -0,0 +1,110 @@
+import { DEFAULT_SETTINGS, normalizeSettings, Settings } from '../utils/settings.ts';
+
+const PROFILES_KEY = 'echoassist_profiles';
+const ACTIVE_PROFILE_KEY = 'echoassist_profile';
+
+// Preferences saved one by one before profiles existed. They seed the first
+// profile and are left in place so a downgrade still finds them.
+const LEGACY_KEYS = {
+  dominantHand: 'echoassist_dominant_hand',
+  mirroredCamera: 'echoassist_mirrored_camera',
+  classifierId: 'echoassist_classifier',
+  translatorId: 'echoassist_translator',
+  contextEngineId: 'echoassist_context_engine',
+  recognizerId: 'echoassist_recognizer',
+  speech: 'echoassist_speech'
+};
+
+// A named set of settings, e.g. one per signer or per room. Deleted
+// profiles are kept as tombstones so the deletion syncs to other devices.
+export interface Profile {
+  id: string;
+  name: string;
+  settings: Settings;
+  updatedAt: number;
+  deleted?: boolean;
+}
+
+// An optional cloud copy of the profiles, stored next to a library
+export interface ProfileSyncTarget {
+  pull(): Promise<Profile[]>;
+  push(profiles: Profile[]): Promise<void>;
+}
+
+export const createProfile = (name: string, settings: Settings = DEFAULT_SETTINGS): Profile => ({
+  id: `${Date.now()}${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  settings,
+  updatedAt: Date.now()
+});
+
+const readLegacySettings = (): Settings => {
+  const read = (key: string) => localStorage.getItem(key);
+  let speech: unknown;
+  try {
+    speech = JSON.parse(read(LEGACY_KEYS.speech) || 'null') ?? undefined;
+  } catch (e) {
+    speech = undefined;
+  }
+  return normalizeSettings({
+    ...DEFAULT_SETTINGS,
+    dominantHand: read(LEGACY_KEYS.dominantHand) ?? DEFAULT_SETTINGS.dominantHand,
+    mirroredCamera: read(LEGACY_KEYS.mirroredCamera) === 'true',
+    classifierId: read(LEGACY_KEYS.classifierId) ?? DEFAULT_SETTINGS.classifierId,
+    translatorId: read(LEGACY_KEYS.translatorId) ?? DEFAULT_SETTINGS.translatorId,
+    contextEngineId: read(LEGACY_KEYS.contextEngineId) ?? DEFAULT_SETTINGS.contextEngineId,
+    recognizerId: read(LEGACY_KEYS.recognizerId) ?? DEFAULT_SETTINGS.recognizerId,
+    speech: { ...DEFAULT_SETTINGS.speech, ...(speech as object) }
+  });
+};
+
+const isProfile = (value: any) =>
+  typeof value?.id === 'string' && typeof value.name === 'string' && typeof value.updatedAt === 'number';
+
+const sanitize = (profiles: any[]): Profile[] => profiles
+  .filter(isProfile)
+  .map(p => ({ ...p, settings: normalizeSettings(p.settings) }));
+
+// Always returns at least one live profile
+export const loadProfiles = (): Profile[] => {
+  let profiles: Profile[] = [];
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]');
+    profiles = Array.isArray(saved) ? sanitize(saved) : [];
+  } catch (e) {
+    console.error('Could not read profiles:', e);
+  }
+  if (profiles.some(p => !p.deleted)) return profiles;
+  return [...profiles, createProfile('Default', readLegacySettings())];
+};
+
+export const saveProfiles = (profiles: Profile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadActiveProfileId = () => localStorage.getItem(ACTIVE_PROFILE_KEY);
+
+export const saveActiveProfileId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+};
+
+// The newer edit of each profile wins
+export const mergeProfiles = (local: Profile[], remote: Profile[]): Profile[] => {
+  const merged = new Map(local.map(p => [p.id, p]));
+  sanitize(remote).forEach(p => {
+    const mine = merged.get(p.id);
+    if (!mine || p.updatedAt > mine.updatedAt) merged.set(p.id, p);
+  });
+  return Array.from(merged.values());
+};
+
+// Pulls the cloud's profiles, merges them with ours and pushes whichever of
+// ours are newer. Returns the merged list.
+export const syncProfiles = async (local: Profile[], target: ProfileSyncTarget): Promise<Profile[]> => {
+  const remote = await target.pull();
+  const merged = mergeProfiles(local, remote);
+  const remoteTime = new Map(remote.map(p => [p.id, p.updatedAt]));
+  const outgoing = merged.filter(p => p.updatedAt > (remoteTime.get(p.id) ?? -Infinity));
+  if (outgoing.length > 0) await target.push(outgoing);
+  return merged;
+};
@@ -0,0 +1,131 @@
+import { Handedness, Prediction } from '../types.ts';
+
+// See docs/session-format.md for the file layout.
+export const SESSION_FORMAT = 'echoassist-session';
+export const SESSION_FORMAT_VERSION = 1;
+
+// Landmarks are rounded to this many decimals, well below tracking jitter
+const PRECISION = 5;
+
+// The camera and signer a session was recorded with. Features depend on
+// them, so a replay uses these rather than the current settings.
+export interface SessionCamera {
+  width: number;
+  height: number;
+  mirroredCamera: boolean;
+  dominantHand: Handedness;
+}
+
+// One MediaPipe result as recorded: `t` is ms from the start of the
+// session, `hands` the raw landmarks of each tracked hand with MediaPipe's
+// handedness label and score. `predictions` are what recognition showed
+// for the frame, if it was confident.
+export interface SessionFrame {
+  t: number;
+  hands: { landmarks: { x: number; y: number; z: number }[]; label: string; score: number }[];
+  predictions?: Prediction[];
+}
+
+// The sentence bar's gloss whenever it changed
+export interface SessionSentence {
+  t: number;
+  gloss: string[];
+}
+
+export interface RecordedSession {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  recordedAt: string;
+  camera: SessionCamera;
+  frames: SessionFrame[];
+  sentences: SessionSentence[];
+}
+
+export interface SessionRecorder {
+  // Records a MediaPipe result seen at `t` (ms, any clock)
+  frame(results: any, t: number): void;
+  // What recognition made of the latest frame
+  predictions(predictions: Prediction[]): void;
+  // The sentence as of the latest frame
+  sentence(gloss: string[]): void;
+  finish(): RecordedSession;
+}
+
+const round = (value: number) => Number(value.toFixed(PRECISION));
+
+export const createSessionRecorder = (camera: SessionCamera): SessionRecorder => {
+  const recordedAt = new Date().toISOString();
+  const frames: SessionFrame[] = [];
+  const sentences: SessionSentence[] = [];
+  let start: number | null = null;
+
+  return {
+    frame: (results, t) => {
+      if (start === null) start = t;
+      frames.push({
+        t: t - start,
+        hands: (results?.multiHandLandmarks || []).map((marks: any[], i: number) => ({
+          landmarks: marks.map(p => ({ x: round(p.x), y: round(p.y), z: round(p.z ?? 0) })),
+          label: results.multiHandedness?.[i]?.label ?? 'Right',
+          score: round(results.multiHandedness?.[i]?.score ?? 1)
+        }))
+      });
+    },
+    predictions: (predictions) => {
+      const last = frames[frames.length - 1];
+      if (last) last.predictions = predictions.map(p => ({ label: p.label, confidence: round(p.confidence) }));
+    },
+    sentence: (gloss) => {
+      const t = frames[frames.length - 1]?.t ?? 0;
+      const previous = sentences[sentences.length - 1];
+      if (previous && previous.gloss.join(' ') === gloss.join(' ')) return;
+      sentences.push({ t, gloss: [...gloss] });
+    },
+    finish: () => ({ format: SESSION_FORMAT, version: SESSION_FORMAT_VERSION, recordedAt, camera, frames, sentences })
+  };
+};
+
+// A recorded frame in the shape MediaPipe's onResults callback receives
+export const toResults = (frame: SessionFrame, camera: SessionCamera) => ({
+  image: { width: camera.width, height: camera.height },
+  multiHandLandmarks: frame.hands.map(h => h.landmarks),
+  multiHandedness: frame.hands.map((h, index) => ({ index, label: h.label, score: h.score }))
+});
+
+const isHand = (hand: any) =>
+  Array.isArray(hand?.landmarks) && hand.landmarks.length === 21 &&
+  hand.landmarks.every((p: any) => typeof p?.x === 'number' && typeof p?.y === 'number') &&
+  typeof hand.label === 'string';
+
+export const parseSessionFile = (text: string): RecordedSession => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('File is not valid JSON.');
+  }
+  if (data?.format !== SESSION_FORMAT) throw new Error('Not an EchoAssist session file.');
+  if (!Number.isInteger(data.version) || data.version < 1) throw new Error('Unknown session file version.');
+  if (data.version > SESSION_FORMAT_VERSION) {
+    throw new Error(`This session was recorded by a newer version of EchoAssist (format v${data.version}).`);
+  }
+  const camera = data.camera;
+  if (!(camera?.width > 0 && camera?.height > 0)) throw new Error('Session has no camera size.');
+  const frames: SessionFrame[] = Array.isArray(data.frames)
+    ? data.frames.filter((f: any) => typeof f?.t === 'number' && Array.isArray(f.hands) && f.hands.every(isHand))
+    : [];
+  if (frames.length === 0) throw new Error('Session has no frames.');
+  return {
+    format: SESSION_FORMAT,
+    version: data.version,
+    recordedAt: String(data.recordedAt ?? ''),
+    camera: {
+      width: camera.width,
+      height: camera.height,
+      mirroredCamera: !!camera.mirroredCamera,
+      dominantHand: camera.dominantHand === 'Left' ? 'Left' : 'Right'
+    },
+    frames: frames.sort((a, b) => a.t - b.t),
+    sentences: Array.isArray(data.sentences) ? data.sentences.filter((s: any) => typeof s?.t === 'number' && Array.isArray(s.gloss)) : []
+  };
+};
@@ -0,0 +1,241 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CustomSign, HandSample, MotionSample, SignKind } from '../types.ts';
+import { upgradeSign } from '../utils/features.ts';
+import { migrateLibrary } from './libraryFile.ts';
+import { LibraryChange, SyncTarget } from './librarySync.ts';
+import { Profile, ProfileSyncTarget } from './profileStore.ts';
+
+// Tables are described in supabase/schema.sql. Every row carries the
+// library it belongs to: the user's id for a personal library, or a team id.
+const SIGNS_TABLE = 'echo_signs';
+const SAMPLES_TABLE = 'echo_samples';
+const TEAM_MEMBERS_TABLE = 'echo_team_members';
+const PROFILES_TABLE = 'echo_profiles';
+// Older versions kept one shared library as a JSON array in this row
+const LEGACY_TABLE = 'echo_library';
+const LEGACY_ROW_ID = 1;
+// `in` filters travel in the URL, so long id lists are sent in batches
+const ID_BATCH = 100;
+
+const batches = <T>(items: T[]) =>
+  Array.from({ length: Math.ceil(items.length / ID_BATCH) }, (_, i) => items.slice(i * ID_BATCH, (i + 1) * ID_BATCH));
+
+export interface CloudLibrary {
+  id: string;
+  name: string;
+  kind: 'personal' | 'team';
+}
+
+interface SignRow {
+  id: string;
+  label: string;
+  kind: SignKind;
+  translations: Record<string, string> | null;
+  updated_at: string;
+}
+
+interface SampleRow {
+  id: string;
+  sign_id: string;
+  kind: SignKind;
+  data: HandSample | MotionSample;
+}
+
+export const listLibraries = async (client: SupabaseClient, userId: string): Promise<CloudLibrary[]> => {
+  const personal: CloudLibrary = { id: userId, name: 'Personal', kind: 'personal' };
+  const { data, error } = await client
+    .from(TEAM_MEMBERS_TABLE)
+    .select('team_id, echo_teams(name)')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Team lookup failed:', error);
+    return [personal];
+  }
+  const teams = (data || []).map((row: any) => ({
+    id: row.team_id,
+    name: row.echo_teams?.name || 'Team',
+    kind: 'team' as const
+  }));
+  return [personal, ...teams];
+};
+
+// Signs in the old single-row library, or none when that table or row is
+// gone or can't be read
+const pullLegacyLibrary = async (client: SupabaseClient): Promise<CustomSign[]> => {
+  const { data, error } = await client.from(LEGACY_TABLE).select('payload').eq('id', LEGACY_ROW_ID).maybeSingle();
+  if (error || !data?.payload) return [];
+  try {
+    return migrateLibrary(data.payload);
+  } catch (err) {
+    console.error('Old cloud library could not be read:', err);
+    return [];
+  }
+};
+
+// Whether the library has ever held a sign, counting deleted ones
+const hasHistory = async (client: SupabaseClient, libraryId: string) => {
+  const { count, error } = await client.from(SIGNS_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('library_id', libraryId);
+  if (error) throw error;
+  return (count ?? 0) > 0;
+};
+
+// One row per sign and one per variation, so pushes only send what changed.
+// Variations are never overwritten by another device's edit of the same sign
+// (they are separate rows), deletions are tombstones, and sign fields such as
+// the label are only written when the local edit is newer than the cloud's.
+// With `importLegacy` (the user's personal library), a library that has never
+// held a sign starts from the old single-row library, if there is one.
+export const createSupabaseTarget = (client: SupabaseClient, libraryId: string, importLegacy = false): SyncTarget => {
+  const pull = async (): Promise<CustomSign[]> => {
+    const [signs, samples] = await Promise.all([
+      client.from(SIGNS_TABLE).select('id, label, kind, translations, updated_at')
+        .eq('library_id', libraryId).eq('deleted', false),
+      client.from(SAMPLES_TABLE).select('id, sign_id, kind, data')
+        .eq('library_id', libraryId).eq('deleted', false).order('created_at')
+    ]);
+    if (signs.error) throw signs.error;
+    if (samples.error) throw samples.error;
+    if (importLegacy && signs.data.length === 0 && !(await hasHistory(client, libraryId))) {
+      const legacy = await pullLegacyLibrary(client);
+      if (legacy.length > 0) {
+        const at = Date.now();
+        await push(legacy.map(sign => ({ type: 'upsert', sign, at })));
+        return legacy;
+      }
+    }
+
+    const byId = new Map<string, CustomSign>();
+    (signs.data as SignRow[]).forEach(row => {
+      byId.set(row.id, {
+        id: row.id,
+        label: row.label,
+        kind: row.kind,
+        ...(row.translations && Object.keys(row.translations).length > 0 ? { translations: row.translations } : {}),
+        samples: [],
+        ...(row.kind === 'motion' ? { sequences: [] } : {})
+      });
+    });
+    (samples.data as SampleRow[]).forEach(row => {
+      const sign = byId.get(row.sign_id);
+      if (!sign) return;
+      if (row.kind === 'motion') (sign.sequences = sign.sequences || []).push(row.data as MotionSample);
+      else sign.samples.push(row.data as HandSample);
+    });
+    // Rows written by older clients hold pre-v2 features
+    return Array.from(byId.values()).map(upgradeSign);
+  };
+
+  const push = async (changes: LibraryChange[]) => {
+    if (changes.length === 0) return;
+    const ids = changes.map(c => c.type === 'upsert' ? c.sign.id : c.id);
+    const cloudTime = new Map<string, number>();
+    for (const batch of batches(ids)) {
+      const { data: existing, error: lookupError } = await client
+        .from(SIGNS_TABLE)
+        .select('id, updated_at')
+        .eq('library_id', libraryId)
+        .in('id', batch);
+      if (lookupError) throw lookupError;
+      (existing || []).forEach((r: any) => cloudTime.set(r.id, Date.parse(r.updated_at)));
+    }
+    const isNewer = (id: string, at: number) => !cloudTime.has(id) || at >= cloudTime.get(id)!;
+
+    const signRows: any[] = [];
+    const sampleRows: any[] = [];
+    const deletedSigns: string[] = [];
+    const removedSamples: { signId: string; ids: string[] }[] = [];
+
+    changes.forEach(change => {
+      if (change.type === 'delete') {
+        if (isNewer(change.id, change.at)) deletedSigns.push(change.id);
+        return;
+      }
+      const { sign, at } = change;
+      const kind: SignKind = sign.kind || 'static';
+      if (isNewer(sign.id, at)) {
+        signRows.push({
+          library_id: libraryId,
+          id: sign.id,
+          label: sign.label,
+          kind,
+          translations: sign.translations || {},
+          updated_at: new Date(at).toISOString(),
+          deleted: false
+        });
+      }
+      const variations: (HandSample | MotionSample)[] = kind === 'motion' ? sign.sequences || [] : sign.samples;
+      variations
+        .filter(v => change.changed === undefined || change.changed.includes(v.id))
+        .forEach(v => sampleRows.push({
+          library_id: libraryId,
+          sign_id: sign.id,
+          id: v.id,
+          kind,
+          data: v,
+          updated_at: new Date(at).toISOString(),
+          deleted: false
+        }));
+      if (change.removed?.length) removedSamples.push({ signId: sign.id, ids: change.removed });
+    });
+
+    if (signRows.length > 0) {
+      const { error } = await client.from(SIGNS_TABLE).upsert(signRows, { onConflict: 'library_id,id' });
+      if (error) throw error;
+    }
+    if (sampleRows.length > 0) {
+      const { error } = await client.from(SAMPLES_TABLE).upsert(sampleRows, { onConflict: 'library_id,sign_id,id' });
+      if (error) throw error;
+    }
+    const now = new Date().toISOString();
+    for (const { signId, ids: sampleIds } of removedSamples) {
+      for (const batch of batches(sampleIds)) {
+        const { error } = await client.from(SAMPLES_TABLE)
+          .update({ deleted: true, updated_at: now })
+          .eq('library_id', libraryId).eq('sign_id', signId).in('id', batch);
+        if (error) throw error;
+      }
+    }
+    for (const batch of batches(deletedSigns)) {
+      const { error } = await client.from(SIGNS_TABLE)
+        .update({ deleted: true, updated_at: now })
+        .eq('library_id', libraryId).in('id', batch);
+      if (error) throw error;
+    }
+  };
+
+  return { scope: libraryId, pull, push };
+};
+
+// Profiles travel with the library they were synced under. Rows include
+// tombstones so deletions reach other devices; merging happens client side.
+export const createSupabaseProfileTarget = (client: SupabaseClient, libraryId: string): ProfileSyncTarget => ({
+  pull: async () => {
+    const { data, error } = await client.from(PROFILES_TABLE)
+      .select('id, name, settings, updated_at, deleted')
+      .eq('library_id', libraryId);
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      settings: row.settings,
+      updatedAt: Date.parse(row.updated_at),
+      ...(row.deleted ? { deleted: true } : {})
+    }));
+  },
+
+  push: async (profiles: Profile[]) => {
+    if (profiles.length === 0) return;
+    const { error } = await client.from(PROFILES_TABLE).upsert(profiles.map(p => ({
+      library_id: libraryId,
+      id: p.id,
+      name: p.name,
+      settings: p.settings,
+      updated_at: new Date(p.updatedAt).toISOString(),
+      deleted: !!p.deleted
+    })), { onConflict: 'library_id,id' });
+    if (error) throw error;
+  }
+});
@@ -0,0 +1,95 @@
+-- EchoAssist cloud library schema.
+--
+-- Each sign and each recorded variation is its own row so devices sync
+-- incrementally. `library_id` is the owner's auth user id for a personal
+-- library, or a team id for a shared one. Deletions are tombstones
+-- (`deleted = true`) so they propagate to devices that were offline.
+
+create table if not exists echo_teams (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists echo_team_members (
+  team_id uuid not null references echo_teams (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'member',
+  primary key (team_id, user_id)
+);
+
+create table if not exists echo_signs (
+  library_id uuid not null,
+  id text not null,
+  label text not null,
+  kind text not null default 'static',
+  -- Spoken-language names of the sign, e.g. {"es": "agua"}
+  translations jsonb not null default '{}',
+  updated_at timestamptz not null default now(),
+  deleted boolean not null default false,
+  primary key (library_id, id)
+);
+
+-- For tables created before translations existed
+alter table echo_signs add column if not exists translations jsonb not null default '{}';
+
+create table if not exists echo_samples (
+  library_id uuid not null,
+  sign_id text not null,
+  id text not null,
+  kind text not null default 'static',
+  data jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted boolean not null default false,
+  primary key (library_id, sign_id, id)
+);
+
+-- Older versions kept one shared library as a JSON array in echo_library
+-- (row id = 1). The app copies it into a user's personal library the first
+-- time that library is opened empty, so leave the table in place until
+-- everyone has signed in once; it can be dropped after that.
+
+-- Settings profiles (thresholds, timing, camera, voice), synced with the library
+create table if not exists echo_profiles (
+  library_id uuid not null,
+  id text not null,
+  name text not null,
+  settings jsonb not null,
+  updated_at timestamptz not null default now(),
+  deleted boolean not null default false,
+  primary key (library_id, id)
+);
+
+create index if not exists echo_samples_library_idx on echo_samples (library_id) where not deleted;
+
+-- A user may access their own library and those of teams they belong to
+create or replace function echo_can_access(target uuid) returns boolean
+language sql stable security definer as $$
+  select target = auth.uid()
+    or exists (
+      select 1 from echo_team_members m
+      where m.team_id = target and m.user_id = auth.uid()
+    );
+$$;
+
+alter table echo_teams enable row level security;
+alter table echo_team_members enable row level security;
+alter table echo_signs enable row level security;
+alter table echo_samples enable row level security;
+alter table echo_profiles enable row level security;
+
+create policy "members read teams" on echo_teams
+  for select using (echo_can_access(id));
+
+create policy "members read memberships" on echo_team_members
+  for select using (user_id = auth.uid() or echo_can_access(team_id));
+
+create policy "library access" on echo_signs
+  for all using (echo_can_access(library_id)) with check (echo_can_access(library_id));
+
+create policy "library access" on echo_samples
+  for all using (echo_can_access(library_id)) with check (echo_can_access(library_id));
+
+create policy "library access" on echo_profiles
+  for all using (echo_can_access(library_id)) with check (echo_can_access(library_id));
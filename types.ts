@@ -18,3 +18,79 @@ export enum AppStatus {
   LISTENING = 'LISTENING',
   ERROR = 'ERROR'
 }
+
+// Relative to the wrist in palm lengths, rotated so the palm points up.
+// `nz` is depth towards the camera; missing on samples recorded before v2.
+export interface LandmarkPoint {
+  nx: number;
+  ny: number;
+  nz?: number;
+}
+
+export type Handedness = 'Left' | 'Right';
+
+export interface HandShape {
+  normalized: LandmarkPoint[];
+  // 1 per finger whose tip is folded back towards the wrist
+  curlStates: number[];
+  // Flexion of each finger's three joints in radians, thumb first; 0 is straight
+  jointAngles: number[];
+  // In-plane rotation removed from `normalized`, in radians
+  roll: number;
+}
+
+// The dominant hand plus, for two-handed signs, the other hand. Landmarks are
+// stored as if signed with the right hand as dominant, so left-handed signers
+// match right-handed samples; `handedness` records the physical dominant hand.
+export interface HandPose extends HandShape {
+  handedness?: Handedness;
+  secondary?: HandShape;
+  // Secondary wrist relative to the dominant wrist, in palm lengths
+  offset?: { dx: number; dy: number };
+}
+
+export interface HandSample extends HandPose {
+  id: string;
+  // Set on synthetic variations: the id of the recorded sample they were
+  // generated from
+  source?: string;
+}
+
+// A single timestamped frame of a motion recording. `wrist` is in camera
+// coordinates and `scale` is the palm length, so the hand's path through
+// space can be compared independently of distance to the camera.
+// `mirrored` (the landmarks were flipped into right-handed geometry) and
+// `aspect` (the frame's width / height) let the path be put in the same
+// geometry; frames recorded before they were kept lack them.
+export interface HandFrame extends HandPose {
+  t: number;
+  wrist: { x: number; y: number };
+  scale: number;
+  mirrored?: boolean;
+  aspect?: number;
+}
+
+export interface MotionSample {
+  id: string;
+  duration: number;
+  frames: HandFrame[];
+}
+
+export type SignKind = 'static' | 'motion';
+
+export interface CustomSign {
+  id: string;
+  label: string;
+  // Missing on signs saved before motion support; treated as 'static'
+  kind?: SignKind;
+  samples: HandSample[];
+  sequences?: MotionSample[];
+  // What the sign is called in other spoken languages, by language code
+  // (e.g. { es: 'agua' }); the label is used for languages not listed
+  translations?: Record<string, string>;
+}
+
+export interface Prediction {
+  label: string;
+  confidence: number;
+}
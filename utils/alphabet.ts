@@ -0,0 +1,196 @@
+import { CustomSign, HandFrame, HandSample } from '../types.ts';
+import { processHandData } from './features.ts';
+import { letterLabel } from './fingerspelling.ts';
+import { createMotionSample } from './motion.ts';
+
+// A starter ASL manual alphabet. The handshapes are built from written
+// descriptions with a simple skeletal model rather than recorded, so they
+// are a rough guide: signers should add their own variations of each letter
+// (the classifier weighs all samples of a sign equally) or re-record them.
+
+type Vec = { x: number; y: number; z: number };
+
+// Flexion of a finger's MCP, PIP and DIP joints in degrees
+type Flex = [number, number, number];
+
+const STRAIGHT: Flex = [0, 0, 0];
+const FIST: Flex = [90, 100, 60];
+const CURVED: Flex = [35, 45, 30];
+const ROUND: Flex = [50, 65, 45];
+const HOOK: Flex = [10, 85, 70];
+const TUCKED: Flex = [25, 110, 80];
+const FOLDED: Flex = [80, 70, 30];
+
+interface Handshape {
+  // Index, middle, ring, pinky
+  fingers: [Flex, Flex, Flex, Flex];
+  // Sideways spread of each finger in degrees, towards the thumb
+  spread?: [number, number, number, number];
+  // Where the thumb tip rests, in palm lengths from the wrist, or the
+  // finger (0 = index) whose tip it touches
+  thumb: Vec | { touch: number };
+  // Rotation of the whole hand in the image plane, in degrees; 90 points
+  // the fingers across the body
+  roll?: number;
+  // Wrist path for motion letters, in palm lengths as seen by the camera
+  path?: { x: number; y: number; roll?: number }[];
+}
+
+// Hand model in palm lengths: wrist at the origin, fingers up (+y), thumb
+// side +x, palm facing the camera with fingers closing towards it (-z).
+const KNUCKLES: Vec[] = [
+  { x: 0.3, y: 0.94, z: 0 },
+  { x: 0, y: 1, z: 0 },
+  { x: -0.24, y: 0.93, z: 0 },
+  { x: -0.44, y: 0.8, z: 0 }
+];
+const BONES = [
+  [0.46, 0.27, 0.22],
+  [0.5, 0.3, 0.24],
+  [0.47, 0.28, 0.23],
+  [0.37, 0.21, 0.2]
+];
+const THUMB_BASE: Vec = { x: 0.22, y: 0.22, z: -0.05 };
+const NATURAL_SPREAD: [number, number, number, number] = [4, 0, -4, -9];
+
+const at = (x: number, y: number, z: number): Vec => ({ x, y, z });
+const deg = (d: number) => (d * Math.PI) / 180;
+const lerp = (a: Vec, b: Vec, k: number): Vec => at(a.x + (b.x - a.x) * k, a.y + (b.y - a.y) * k, a.z + (b.z - a.z) * k);
+
+const HANDSHAPES: Record<string, Handshape> = {
+  A: { fingers: [FIST, FIST, FIST, FIST], thumb: at(0.42, 0.72, -0.12) },
+  B: { fingers: [STRAIGHT, STRAIGHT, STRAIGHT, STRAIGHT], spread: [1, 0, -1, -2], thumb: at(-0.05, 0.55, -0.2) },
+  C: { fingers: [CURVED, CURVED, CURVED, CURVED], spread: [1, 0, -1, -2], thumb: at(0.42, 0.62, -0.5) },
+  D: { fingers: [STRAIGHT, ROUND, ROUND, ROUND], thumb: { touch: 1 } },
+  E: { fingers: [TUCKED, TUCKED, TUCKED, TUCKED], thumb: at(0, 0.5, -0.25) },
+  F: { fingers: [ROUND, STRAIGHT, STRAIGHT, STRAIGHT], spread: [4, 3, -6, -14], thumb: { touch: 0 } },
+  G: { fingers: [STRAIGHT, FIST, FIST, FIST], thumb: at(0.45, 0.95, -0.1), roll: 90 },
+  H: { fingers: [STRAIGHT, STRAIGHT, FIST, FIST], spread: [1, -1, -4, -9], thumb: at(0.05, 0.62, -0.45), roll: 90 },
+  I: { fingers: [FIST, FIST, FIST, STRAIGHT], thumb: at(-0.1, 0.62, -0.5) },
+  K: { fingers: [STRAIGHT, STRAIGHT, FIST, FIST], spread: [8, -10, -4, -9], thumb: at(0.12, 1.3, -0.2) },
+  L: { fingers: [STRAIGHT, FIST, FIST, FIST], thumb: at(0.95, 0.45, 0) },
+  M: { fingers: [FOLDED, FOLDED, FOLDED, FIST], thumb: at(-0.32, 0.58, -0.2) },
+  N: { fingers: [FOLDED, FOLDED, FIST, FIST], thumb: at(-0.12, 0.6, -0.2) },
+  O: { fingers: [ROUND, ROUND, ROUND, ROUND], spread: [1, 0, -1, -2], thumb: { touch: 0 } },
+  P: { fingers: [STRAIGHT, STRAIGHT, FIST, FIST], spread: [8, -10, -4, -9], thumb: at(0.12, 1.3, -0.2), roll: 160 },
+  Q: { fingers: [STRAIGHT, FIST, FIST, FIST], thumb: at(0.45, 0.95, -0.1), roll: 180 },
+  R: { fingers: [STRAIGHT, STRAIGHT, FIST, FIST], spread: [-7, 9, -4, -9], thumb: at(-0.05, 0.62, -0.45) },
+  S: { fingers: [FIST, FIST, FIST, FIST], thumb: at(-0.08, 0.68, -0.55) },
+  T: { fingers: [FOLDED, FIST, FIST, FIST], thumb: at(0.16, 0.92, -0.38) },
+  U: { fingers: [STRAIGHT, STRAIGHT, FIST, FIST], spread: [1, -1, -4, -9], thumb: at(-0.05, 0.62, -0.45) },
+  V: { fingers: [STRAIGHT, STRAIGHT, FIST, FIST], spread: [12, -12, -4, -9], thumb: at(-0.05, 0.62, -0.45) },
+  W: { fingers: [STRAIGHT, STRAIGHT, STRAIGHT, ROUND], spread: [12, 0, -12, -9], thumb: { touch: 3 } },
+  X: { fingers: [HOOK, FIST, FIST, FIST], thumb: at(-0.05, 0.62, -0.45) },
+  Y: { fingers: [FIST, FIST, FIST, STRAIGHT], spread: [4, 0, -4, -25], thumb: at(0.95, 0.5, 0) },
+  // Pinky traces a J: down, then hooking across with a quarter turn
+  J: {
+    fingers: [FIST, FIST, FIST, STRAIGHT], thumb: at(-0.1, 0.62, -0.5),
+    path: [{ x: 0, y: 0 }, { x: 0, y: 0.5 }, { x: 0, y: 0.9 }, { x: 0.3, y: 1.15, roll: 45 }, { x: 0.7, y: 1.1, roll: 90 }]
+  },
+  // Index finger draws a Z (mirrored, as the camera sees it)
+  Z: {
+    fingers: [STRAIGHT, FIST, FIST, FIST], thumb: at(0.05, 0.62, -0.45),
+    path: [{ x: 0, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 0.9 }, { x: -1, y: 0.9 }]
+  }
+};
+
+// Deterministic noise so every install of the pack is the same
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let r = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+  return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+};
+
+// 21 landmarks in the model's frame, MediaPipe order
+const buildHand = (shape: Handshape, random: () => number): Vec[] => {
+  const jitter = (amount: number) => (random() * 2 - 1) * amount;
+  const spread = shape.spread || NATURAL_SPREAD;
+  const fingers = KNUCKLES.map((knuckle, f) => {
+    const side = deg(spread[f] + jitter(2));
+    const points = [knuckle];
+    let bend = 0;
+    shape.fingers[f].forEach((angle, j) => {
+      bend += deg(angle + jitter(6));
+      const last = points[points.length - 1];
+      const bone = BONES[f][j];
+      points.push(at(
+        last.x + bone * Math.sin(side) * Math.cos(bend),
+        last.y + bone * Math.cos(side) * Math.cos(bend),
+        last.z - bone * Math.sin(bend)
+      ));
+    });
+    return points;
+  });
+
+  const target = 'touch' in shape.thumb ? fingers[shape.thumb.touch][3] : shape.thumb;
+  const tip = at(target.x + jitter(0.03), target.y + jitter(0.03), target.z + jitter(0.03));
+  // The thumb's joints bow out away from the palm on the way to the tip
+  const bow = (k: number, amount: number) => {
+    const p = lerp(THUMB_BASE, tip, k);
+    return at(p.x + amount, p.y, p.z - amount * 0.5);
+  };
+  const thumb = [THUMB_BASE, bow(0.45, 0.12), bow(0.75, 0.06), tip];
+
+  return [at(0, 0, 0), ...thumb, ...fingers.flat()];
+};
+
+// Places the model hand in a 4:3 camera frame and featurizes it exactly
+// like a live frame (right hand, camera not mirrored)
+const ASPECT = 4 / 3;
+const PALM_SIZE = 0.12;
+
+const toLandmarks = (points: Vec[], roll: number, centre: { x: number; y: number }) => {
+  const cos = Math.cos(roll);
+  const sin = Math.sin(roll);
+  return points.map(p => {
+    // Model y is up, image y is down
+    const x = p.x * cos + p.y * sin;
+    const y = p.x * sin - p.y * cos;
+    return { x: centre.x + (x * PALM_SIZE) / ASPECT, y: centre.y + y * PALM_SIZE, z: (p.z * PALM_SIZE) / ASPECT };
+  });
+};
+
+const pose = (shape: Handshape, random: () => number, roll = 0, centre = { x: 0.5, y: 0.55 }) => {
+  const landmarks = toLandmarks(buildHand(shape, random), deg((shape.roll || 0) + roll + (random() * 2 - 1) * 6), centre);
+  return { ...processHandData(landmarks, false, ASPECT), handedness: 'Right' as const };
+};
+
+const VARIATIONS = 3;
+const MOTION_STEPS = 20;
+const MOTION_MS = 900;
+
+const letterSign = (letter: string, shape: Handshape, random: () => number): CustomSign => {
+  const id = `alphabet-${letter}`;
+  if (!shape.path) {
+    const samples: HandSample[] = Array.from({ length: VARIATIONS }, (_, i) => {
+      const { normalized, curlStates, jointAngles, roll, handedness } = pose(shape, random);
+      return { id: `${id}-${i}`, normalized, curlStates, jointAngles, roll, handedness };
+    });
+    return { id, label: letterLabel(letter), kind: 'static', samples };
+  }
+
+  const path = shape.path;
+  const sequences = Array.from({ length: VARIATIONS }, (_, i) => {
+    const frames: HandFrame[] = Array.from({ length: MOTION_STEPS }, (_, step) => {
+      // Position along the path's corners, linear between them
+      const k = (step / (MOTION_STEPS - 1)) * (path.length - 1);
+      const a = path[Math.floor(k)];
+      const b = path[Math.min(path.length - 1, Math.floor(k) + 1)];
+      const f = k - Math.floor(k);
+      const x = a.x + (b.x - a.x) * f;
+      const y = a.y + (b.y - a.y) * f;
+      const roll = (a.roll || 0) + ((b.roll || 0) - (a.roll || 0)) * f;
+      const data = pose(shape, random, roll, { x: 0.5 + (x * PALM_SIZE) / ASPECT, y: 0.4 + y * PALM_SIZE });
+      return { ...data, t: (step / (MOTION_STEPS - 1)) * MOTION_MS };
+    });
+    return { ...createMotionSample(frames)!, id: `${id}-${i}` };
+  });
+  return { id, label: letterLabel(letter), kind: 'motion', samples: [], sequences };
+};
+
+// One sign per letter, FS-A … FS-Z
+export const createAlphabetPack = (): CustomSign[] => {
+  const random = createRandom(26);
+  return Object.keys(HANDSHAPES).sort().map(letter => letterSign(letter, HANDSHAPES[letter], random));
+};
@@ -0,0 +1,136 @@
+import { freshId } from '../storage/libraryFile.ts';
+import { HandFrame, HandPose, HandSample, HandShape } from '../types.ts';
+import { articulation } from './features.ts';
+import { isNearDuplicate } from './sampleQuality.ts';
+import { calculateSimilarity } from './similarity.ts';
+
+// Guided capture: the signer is talked through a few hand positions while a
+// burst of frames is recorded for each, and the steadiest, most varied
+// frames become samples.
+export type CaptureAngle = 'left' | 'center' | 'right' | 'near' | 'far';
+export const CAPTURE_ANGLES: CaptureAngle[] = ['center', 'left', 'right', 'near', 'far'];
+
+// Time to read the prompt and move, then recording time, per position
+export const CAPTURE_PROMPT_MS = 1500;
+export const CAPTURE_BURST_MS = 1500;
+// Samples kept per position
+const KEEP_PER_ANGLE = 2;
+// Frames within this window of each other should look alike if the hand is held still
+const STABILITY_WINDOW_MS = 200;
+// Only the steadier part of each burst is considered
+const STABLE_FRACTION = 0.5;
+
+// Synthetic variations made from each kept sample
+export const AUGMENT_PER_SAMPLE = 2;
+// Standard deviations of the random changes
+const ROTATION_SD = (4 * Math.PI) / 180;
+const ROLL_SD = (3 * Math.PI) / 180;
+const PROPORTION_SD = 0.03;
+const NOISE_SD = 0.006;
+
+export interface CaptureFrame extends HandFrame {
+  angle: CaptureAngle;
+}
+
+export const toSample = (pose: HandPose): HandSample => ({
+  id: freshId(),
+  normalized: pose.normalized,
+  curlStates: pose.curlStates,
+  jointAngles: pose.jointAngles,
+  roll: pose.roll,
+  handedness: pose.handedness,
+  secondary: pose.secondary,
+  offset: pose.offset
+});
+
+// Mean similarity to the frames recorded just before and after: low while
+// the hand is still moving into position
+const stability = (frames: HandFrame[], i: number) => {
+  const neighbours = frames.filter((f, j) => j !== i && Math.abs(f.t - frames[i].t) <= STABILITY_WINDOW_MS);
+  if (neighbours.length === 0) return 0;
+  return neighbours.reduce((sum, f) => sum + calculateSimilarity(frames[i], f), 0) / neighbours.length;
+};
+
+// From each position, the steadiest frame and then whichever steady frames
+// differ most from everything kept so far. Frames that duplicate the
+// sign's existing samples are skipped.
+export const selectFrames = (frames: CaptureFrame[], existing: HandSample[] = []): HandSample[] => {
+  const kept: HandPose[] = [];
+  const samples: HandSample[] = [];
+  CAPTURE_ANGLES.forEach(angle => {
+    const burst = frames.filter(f => f.angle === angle);
+    const ranked = burst
+      .map((frame, i) => ({ frame, stability: stability(burst, i) }))
+      .sort((a, b) => b.stability - a.stability)
+      .slice(0, Math.max(1, Math.ceil(burst.length * STABLE_FRACTION)))
+      .map(r => r.frame)
+      .filter(f => !isNearDuplicate(f, existing));
+
+    for (let n = 0; n < KEEP_PER_ANGLE && ranked.length > 0; n++) {
+      // The first pick is the steadiest; later ones the farthest from what's kept
+      let pick = 0;
+      if (kept.length > 0) {
+        let farthest = -1;
+        ranked.forEach((frame, i) => {
+          const distance = Math.min(...kept.map(k => 1 - calculateSimilarity(frame, k)));
+          if (distance > farthest) {
+            farthest = distance;
+            pick = i;
+          }
+        });
+      }
+      const [frame] = ranked.splice(pick, 1);
+      if (isNearDuplicate(frame, kept)) continue;
+      kept.push(frame);
+      samples.push(toSample(frame));
+    }
+  });
+  return samples;
+};
+
+const gaussian = (random: () => number) => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Tilts the hand slightly towards or away from the camera (about the palm's
+// two in-plane axes), changes its width and depth proportions and adds
+// landmark noise, then re-derives curls and joint angles. Landmarks are
+// already in palm lengths, so overall size can't change; proportions can.
+const perturbShape = (shape: HandShape, random: () => number): HandShape => {
+  const yaw = gaussian(random) * ROTATION_SD;
+  const pitch = gaussian(random) * ROTATION_SD;
+  const width = 1 + gaussian(random) * PROPORTION_SD;
+  const depth = 1 + gaussian(random) * PROPORTION_SD;
+  const points = shape.normalized.map((p, i) => {
+    const x0 = p.nx * width;
+    const y0 = p.ny;
+    const z0 = (p.nz ?? 0) * depth;
+    // Yaw about the palm's long axis, then pitch about the sideways axis
+    const x1 = x0 * Math.cos(yaw) + z0 * Math.sin(yaw);
+    const z1 = -x0 * Math.sin(yaw) + z0 * Math.cos(yaw);
+    const y2 = y0 * Math.cos(pitch) - z1 * Math.sin(pitch);
+    const z2 = y0 * Math.sin(pitch) + z1 * Math.cos(pitch);
+    const noise = i === 0 ? 0 : NOISE_SD;
+    return { x: x1 + gaussian(random) * noise, y: y2 + gaussian(random) * noise, z: z2 + gaussian(random) * noise };
+  });
+  const hasDepth = shape.normalized.every(p => p.nz !== undefined);
+  return {
+    normalized: points.map(p => hasDepth ? { nx: p.x, ny: p.y, nz: p.z } : { nx: p.x, ny: p.y }),
+    ...articulation(points),
+    roll: shape.roll + gaussian(random) * ROLL_SD
+  };
+};
+
+// Synthetic variations of a recorded sample, tagged with their source so
+// they can be told apart (and left out when validating the library)
+export const augmentSample = (sample: HandSample, count = AUGMENT_PER_SAMPLE, random: () => number = Math.random): HandSample[] =>
+  Array.from({ length: count }, (_, n) => ({
+    ...sample,
+    ...perturbShape(sample, random),
+    ...(sample.secondary ? { secondary: perturbShape(sample.secondary, random) } : {}),
+    ...(sample.offset ? { offset: { dx: sample.offset.dx + gaussian(random) * NOISE_SD * 4, dy: sample.offset.dy + gaussian(random) * NOISE_SD * 4 } } : {}),
+    id: `${sample.id}-aug${n}`,
+    source: sample.id
+  }));
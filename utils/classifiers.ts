@@ -0,0 +1,307 @@
+import { CustomSign, HandPose, HandShape, Prediction } from '../types.ts';
+import { calculateSimilarity } from './similarity.ts';
+import { createVectorIndex, VectorIndex } from './vectorIndex.ts';
+
+export type ClassifierId = 'matcher' | 'knn' | 'neural';
+
+// A recognition engine for static signs. `train` is called whenever the
+// library changes; `classify` scores every trained label for one live pose.
+// Motion signs are matched separately by time-warping in utils/motion.ts.
+export interface SignClassifier {
+  readonly id: ClassifierId;
+  readonly name: string;
+  train(signs: CustomSign[]): Promise<void>;
+  classify(pose: HandPose): Prediction[];
+}
+
+export const CLASSIFIER_OPTIONS: { id: ClassifierId; name: string }[] = [
+  { id: 'matcher', name: 'Matcher' },
+  { id: 'knn', name: 'k-NN' },
+  { id: 'neural', name: 'Neural' }
+];
+
+// Root-mean-square feature distance at which a pose is considered unrelated
+// to everything in the library; used to gate k-NN and neural confidence.
+const CLOSENESS_RANGE = 0.5;
+const KNN_NEIGHBOURS = 5;
+// In an approximate index, how many nearest samples are looked at when
+// finding each label's closest sample; labels with none among them score 0
+const NEIGHBOUR_POOL = 64;
+
+const HIDDEN_UNITS = 32;
+const EPOCHS = 250;
+const LEARNING_RATE = 0.05;
+const MOMENTUM = 0.9;
+// Gaussian noise added to standardized inputs while training
+const TRAIN_NOISE = 0.05;
+// Epochs between yields to the event loop so training doesn't block the UI
+const EPOCHS_PER_CHUNK = 10;
+
+interface Example {
+  label: string;
+  vector: number[];
+}
+
+// Landmarks (depth 0 when unknown), joint angles, curl states and roll as a
+// unit vector so that it wraps around
+const shapeVector = (shape: HandShape | undefined) =>
+  shape
+    ? [
+      ...shape.normalized.flatMap(p => [p.nx, p.ny, p.nz ?? 0]),
+      ...shape.jointAngles,
+      ...shape.curlStates,
+      Math.cos(shape.roll),
+      Math.sin(shape.roll)
+    ]
+    : new Array<number>(85).fill(0);
+
+// Fixed-length feature vector: dominant hand, second hand (zeros when absent),
+// wrist offset and a two-hand flag
+export const poseToVector = (pose: HandPose) => [
+  ...shapeVector(pose),
+  ...shapeVector(pose.secondary),
+  pose.offset?.dx ?? 0,
+  pose.offset?.dy ?? 0,
+  pose.secondary ? 1 : 0
+];
+
+const closeness = (distance: number) => Math.max(0, 1 - distance / CLOSENESS_RANGE);
+
+const toExamples = (signs: CustomSign[]): Example[] =>
+  signs.flatMap(sign => sign.samples.map(sample => ({ label: sign.label, vector: poseToVector(sample) })));
+
+const indexExamples = (examples: Example[]) => createVectorIndex(examples.map(ex => ex.vector));
+
+// Samples worth looking at for a query: all of them unless the index is
+// approximate
+const poolSize = (index: VectorIndex) => index.approximate ? NEIGHBOUR_POOL : index.size;
+
+const nearestByLabel = (examples: Example[], index: VectorIndex, vector: number[]) => {
+  const nearest = new Map<string, number>();
+  index.search(vector, poolSize(index)).forEach(({ index: i, distance }) => {
+    if (distance < (nearest.get(examples[i].label) ?? Infinity)) nearest.set(examples[i].label, distance);
+  });
+  return nearest;
+};
+
+// The original hand-tuned matcher: best similarity over each sign's samples.
+// In a large library only the samples nearest in feature space are scored.
+export const createMatcherClassifier = (): SignClassifier => {
+  let library: CustomSign[] = [];
+  let samples: { label: string; sample: HandPose }[] = [];
+  let index: VectorIndex = createVectorIndex([]);
+  return {
+    id: 'matcher',
+    name: 'Matcher',
+    train: async (signs) => {
+      library = signs;
+      samples = signs.flatMap(sign => sign.samples.map(sample => ({ label: sign.label, sample })));
+      index = createVectorIndex(samples.map(s => poseToVector(s.sample)));
+    },
+    classify: (pose) => {
+      const best = new Map<string, number>();
+      const candidates = index.approximate
+        ? index.search(poseToVector(pose), NEIGHBOUR_POOL).map(n => samples[n.index])
+        : samples;
+      candidates.forEach(({ label, sample }) => {
+        const conf = calculateSimilarity(pose, sample);
+        if (conf > (best.get(label) ?? 0)) best.set(label, conf);
+      });
+      return library.map(sign => ({ label: sign.label, confidence: best.get(sign.label) ?? 0 }));
+    }
+  };
+};
+
+// Distance-weighted vote among the nearest samples, scaled by how close the
+// nearest sample of each label actually is
+export const createKnnClassifier = (k = KNN_NEIGHBOURS): SignClassifier => {
+  let examples: Example[] = [];
+  let index: VectorIndex = createVectorIndex([]);
+  let labels: string[] = [];
+  return {
+    id: 'knn',
+    name: 'k-NN',
+    train: async (signs) => {
+      examples = toExamples(signs);
+      index = indexExamples(examples);
+      labels = signs.map(s => s.label);
+    },
+    classify: (pose) => {
+      const vector = poseToVector(pose);
+      const votes = new Map<string, number>();
+      let total = 0;
+      index.search(vector, k).forEach(({ index: i, distance }) => {
+        const w = 1 / (distance + 1e-3);
+        votes.set(examples[i].label, (votes.get(examples[i].label) || 0) + w);
+        total += w;
+      });
+      const nearest = nearestByLabel(examples, index, vector);
+      return labels.map(label => ({
+        label,
+        confidence: total > 0
+          ? ((votes.get(label) || 0) / total) * closeness(nearest.get(label) ?? Infinity)
+          : 0
+      }));
+    }
+  };
+};
+
+// Deterministic PRNG so retraining on the same library gives the same model
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const softmax = (z: number[]) => {
+  const max = Math.max(...z);
+  const exp = z.map(v => Math.exp(v - max));
+  const sum = exp.reduce((a, b) => a + b, 0);
+  return exp.map(v => v / sum);
+};
+
+interface Network {
+  mean: number[];
+  std: number[];
+  w1: number[][];
+  b1: number[];
+  w2: number[][];
+  b2: number[];
+}
+
+const forward = (net: Network, input: number[]) => {
+  const hidden = net.w1.map((row, h) => {
+    let sum = net.b1[h];
+    for (let i = 0; i < input.length; i++) sum += row[i] * input[i];
+    return Math.max(0, sum);
+  });
+  const logits = net.w2.map((row, c) => {
+    let sum = net.b2[c];
+    for (let h = 0; h < hidden.length; h++) sum += row[h] * hidden[h];
+    return sum;
+  });
+  return { hidden, probs: softmax(logits) };
+};
+
+// One-hidden-layer perceptron trained with SGD on the CPU. Softmax alone would
+// be confident about any pose, so its output is gated by nearest-sample closeness.
+export const createNeuralClassifier = (): SignClassifier => {
+  let net: Network | null = null;
+  let examples: Example[] = [];
+  let index: VectorIndex = createVectorIndex([]);
+  let labels: string[] = [];
+  let generation = 0;
+
+  return {
+    id: 'neural',
+    name: 'Neural',
+    train: async (signs) => {
+      const run = ++generation;
+      const trainExamples = toExamples(signs);
+      const trainLabels = signs.filter(s => s.samples.length > 0).map(s => s.label);
+      if (trainExamples.length === 0) {
+        net = null;
+        examples = [];
+        index = createVectorIndex([]);
+        labels = [];
+        return;
+      }
+
+      const dims = trainExamples[0].vector.length;
+      const mean = new Array<number>(dims).fill(0);
+      const std = new Array<number>(dims).fill(0);
+      trainExamples.forEach(ex => ex.vector.forEach((v, i) => { mean[i] += v / trainExamples.length; }));
+      trainExamples.forEach(ex => ex.vector.forEach((v, i) => { std[i] += Math.pow(v - mean[i], 2) / trainExamples.length; }));
+      for (let i = 0; i < dims; i++) std[i] = Math.sqrt(std[i]) || 1;
+
+      const rand = mulberry32(trainExamples.length * 7919 + trainLabels.length);
+      const init = (fanIn: number) => (rand() * 2 - 1) * Math.sqrt(6 / fanIn);
+      const model: Network = {
+        mean,
+        std,
+        w1: Array.from({ length: HIDDEN_UNITS }, () => Array.from({ length: dims }, () => init(dims))),
+        b1: new Array<number>(HIDDEN_UNITS).fill(0),
+        w2: Array.from({ length: trainLabels.length }, () => Array.from({ length: HIDDEN_UNITS }, () => init(HIDDEN_UNITS))),
+        b2: new Array<number>(trainLabels.length).fill(0)
+      };
+      const vw1 = model.w1.map(row => row.map(() => 0));
+      const vw2 = model.w2.map(row => row.map(() => 0));
+      const vb1 = model.b1.map(() => 0);
+      const vb2 = model.b2.map(() => 0);
+
+      const inputs = trainExamples.map(ex => ex.vector.map((v, i) => (v - mean[i]) / std[i]));
+      const targets = trainExamples.map(ex => trainLabels.indexOf(ex.label));
+      const order = inputs.map((_, i) => i);
+
+      for (let epoch = 0; epoch < EPOCHS; epoch++) {
+        for (let i = order.length - 1; i > 0; i--) {
+          const j = Math.floor(rand() * (i + 1));
+          [order[i], order[j]] = [order[j], order[i]];
+        }
+        const lr = LEARNING_RATE / order.length;
+
+        order.forEach(n => {
+          const x = inputs[n].map(v => v + (rand() * 2 - 1) * TRAIN_NOISE);
+          const { hidden, probs } = forward(model, x);
+          const dLogits = probs.map((p, c) => p - (c === targets[n] ? 1 : 0));
+
+          const dHidden = hidden.map((h, k) => {
+            if (h <= 0) return 0;
+            let sum = 0;
+            for (let c = 0; c < dLogits.length; c++) sum += model.w2[c][k] * dLogits[c];
+            return sum;
+          });
+
+          dLogits.forEach((g, c) => {
+            for (let k = 0; k < hidden.length; k++) {
+              vw2[c][k] = MOMENTUM * vw2[c][k] - lr * g * hidden[k];
+              model.w2[c][k] += vw2[c][k];
+            }
+            vb2[c] = MOMENTUM * vb2[c] - lr * g;
+            model.b2[c] += vb2[c];
+          });
+          dHidden.forEach((g, k) => {
+            if (g === 0) return;
+            for (let i = 0; i < x.length; i++) {
+              vw1[k][i] = MOMENTUM * vw1[k][i] - lr * g * x[i];
+              model.w1[k][i] += vw1[k][i];
+            }
+            vb1[k] = MOMENTUM * vb1[k] - lr * g;
+            model.b1[k] += vb1[k];
+          });
+        });
+
+        if (epoch % EPOCHS_PER_CHUNK === EPOCHS_PER_CHUNK - 1) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+          // A newer library arrived while we were training
+          if (run !== generation) return;
+        }
+      }
+
+      net = model;
+      examples = trainExamples;
+      index = indexExamples(trainExamples);
+      labels = trainLabels;
+    },
+    classify: (pose) => {
+      if (!net) return [];
+      const vector = poseToVector(pose);
+      const { probs } = forward(net, vector.map((v, i) => (v - net!.mean[i]) / net!.std[i]));
+      const nearest = nearestByLabel(examples, index, vector);
+      return labels.map((label, c) => ({
+        label,
+        confidence: probs[c] * closeness(nearest.get(label) ?? Infinity)
+      }));
+    }
+  };
+};
+
+export const createClassifier = (id: ClassifierId): SignClassifier => {
+  switch (id) {
+    case 'knn': return createKnnClassifier();
+    case 'neural': return createNeuralClassifier();
+    default: return createMatcherClassifier();
+  }
+};
@@ -0,0 +1,237 @@
+import { ConversationContext, Message } from '../types.ts';
+import { generateContent } from './gemini.ts';
+import { stem, tokenize } from './signLookup.ts';
+
+export type ContextEngineId = 'ngram' | 'gemini';
+
+// Something said in the conversation: a signed sentence (with its gloss) or
+// speech heard from the other person
+export interface ContextEvent {
+  sender: Message['sender'];
+  text: string;
+  gloss?: string[];
+}
+
+// Sign-to-sign transition counts learned from signed sentences, keyed by the
+// previous label ('' at the start of a sentence). Kept across sessions.
+export type NgramModel = Record<string, Record<string, number>>;
+
+// Keeps track of what the conversation is about and how likely each sign is
+// to come next. `prior` is cheap and runs every frame; `summarize` may call
+// out to an LLM.
+export interface ContextEngine {
+  readonly id: ContextEngineId;
+  readonly name: string;
+  observe(event: ContextEvent): void;
+  // Forgets the conversation, but not the learned transitions
+  reset(): void;
+  // Bias per label in [-1, 1]: positive for likely next signs, negative for
+  // unlikely ones, 0 when there is nothing to go on
+  prior(previous: string | null, labels: string[]): Map<string, number>;
+  summarize(vocabulary: string[]): Promise<ConversationContext>;
+  model(): NgramModel;
+}
+
+export const CONTEXT_ENGINE_OPTIONS: { id: ContextEngineId; name: string }[] = [
+  { id: 'ngram', name: 'N-gram' },
+  { id: 'gemini', name: 'Gemini' }
+];
+
+export const EMPTY_CONTEXT: ConversationContext = { topic: '', mood: 'neutral', summary: '' };
+
+// Events the topic and summary are drawn from
+const WINDOW = 6;
+// Weight of each older event relative to the next one
+const RECENCY_DECAY = 0.7;
+// Add-k smoothing, and how much the bigram counts against the unigram
+const SMOOTHING = 0.5;
+const BIGRAM_WEIGHT = 0.7;
+// Bias added for signs whose words match the current topic
+const TOPIC_BOOST = 1;
+
+const START = '';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'so', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'from', 'by',
+  'i', 'me', 'my', 'you', 'your', 'we', 'us', 'our', 'they', 'them', 'their', 'he', 'him', 'his', 'she',
+  'her', 'it', 'its', 'this', 'that', 'these', 'those', 'be', 'is', 'am', 'are', 'was', 'were', 'do',
+  'does', 'did', 'have', 'has', 'had', 'not', 'no', 'yes', 'can', 'will', 'would', 'should', 'could',
+  'what', 'where', 'who', 'why', 'how', 'when', 'which', 'there', 'here', 'just', 'very', 'too', 'also',
+  'please', 'ok', 'okay', 'oh', 'um', 'uh', 'hello', 'hi', 'bye', 'goodbye', 'thank', 'thanks'
+]);
+
+const POSITIVE = new Set([
+  'good', 'great', 'happy', 'glad', 'love', 'like', 'thank', 'nice', 'fine', 'wonderful', 'excellent',
+  'excited', 'fun', 'beautiful', 'yes', 'enjoy', 'perfect', 'welcome'
+].map(stem));
+const NEGATIVE = new Set([
+  'bad', 'sad', 'angry', 'hate', 'sorry', 'sick', 'hurt', 'pain', 'tired', 'wrong', 'problem', 'worried',
+  'afraid', 'scared', 'upset', 'terrible', 'awful', 'lost', 'help', 'emergency'
+].map(stem));
+const QUESTION_WORDS = new Set(['what', 'where', 'who', 'why', 'how', 'when', 'which']);
+
+const labelStems = (label: string) => tokenize(label).map(stem);
+
+export const createNgramEngine = (saved: NgramModel = {}): ContextEngine => {
+  const bigrams: NgramModel = JSON.parse(JSON.stringify(saved));
+  let recent: ContextEvent[] = [];
+
+  const unigrams = () => {
+    const counts = new Map<string, number>();
+    let total = 0;
+    Object.values(bigrams).forEach(next => Object.entries(next).forEach(([label, n]) => {
+      counts.set(label, (counts.get(label) || 0) + n);
+      total += n;
+    }));
+    return { counts, total };
+  };
+
+  // Content-word stems of the recent events, newest weighing most, along
+  // with the last spelling seen for display
+  const topicWords = () => {
+    const weights = new Map<string, { weight: number; word: string }>();
+    recent.forEach((event, i) => {
+      const weight = Math.pow(RECENCY_DECAY, recent.length - 1 - i);
+      tokenize(event.text).filter(w => w.length > 2 && !STOP_WORDS.has(w)).forEach(w => {
+        const key = stem(w);
+        const entry = weights.get(key);
+        weights.set(key, { weight: (entry?.weight || 0) + weight, word: w });
+      });
+    });
+    return weights;
+  };
+
+  const mood = () => {
+    const last = recent[recent.length - 1];
+    if (!last) return EMPTY_CONTEXT.mood;
+    let score = 0;
+    recent.forEach((event, i) => {
+      const weight = Math.pow(RECENCY_DECAY, recent.length - 1 - i);
+      tokenize(event.text).map(stem).forEach(s => {
+        if (POSITIVE.has(s)) score += weight;
+        if (NEGATIVE.has(s)) score -= weight;
+      });
+    });
+    if (score >= 0.5) return 'positive';
+    if (score <= -0.5) return 'negative';
+    if (last.text.trim().endsWith('?') || tokenize(last.text).some(w => QUESTION_WORDS.has(w))) return 'curious';
+    return 'neutral';
+  };
+
+  return {
+    id: 'ngram',
+    name: 'N-gram',
+    observe: (event) => {
+      if (!event.text.trim() && !event.gloss?.length) return;
+      recent = [...recent, event].slice(-WINDOW);
+      if (!event.gloss) return;
+      let previous = START;
+      event.gloss.forEach(label => {
+        const next = (bigrams[previous] = bigrams[previous] || {});
+        next[label] = (next[label] || 0) + 1;
+        previous = label;
+      });
+    },
+    reset: () => { recent = []; },
+    prior: (previous, labels) => {
+      const bias = new Map<string, number>();
+      if (labels.length === 0) return bias;
+      const { counts, total } = unigrams();
+      const vocabulary = new Set([...counts.keys(), ...labels]).size;
+      const following = bigrams[previous ?? START] || {};
+      const followingTotal = Object.values(following).reduce((sum, n) => sum + n, 0);
+      const topic = topicWords();
+
+      labels.forEach(label => {
+        const unigram = ((counts.get(label) || 0) + SMOOTHING) / (total + SMOOTHING * vocabulary);
+        const bigram = ((following[label] || 0) + SMOOTHING) / (followingTotal + SMOOTHING * vocabulary);
+        const p = BIGRAM_WEIGHT * bigram + (1 - BIGRAM_WEIGHT) * unigram;
+        // Log-ratio against every sign being equally likely
+        let score = Math.log2(p * vocabulary);
+        const stems = labelStems(label);
+        if (stems.length > 0 && stems.every(s => topic.has(s))) {
+          score += TOPIC_BOOST * Math.min(1, Math.min(...stems.map(s => topic.get(s)!.weight)));
+        }
+        bias.set(label, Math.tanh(score / 2));
+      });
+      return bias;
+    },
+    summarize: async () => {
+      const topic = [...topicWords().values()]
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, 3)
+        .map(t => t.word)
+        .join(', ');
+      const summary = recent.slice(-2)
+        .map(e => `${e.sender === 'me' ? 'Signed' : 'Heard'}: ${e.text || e.gloss?.join(' ')}`)
+        .join(' · ');
+      return { topic, mood: mood(), summary };
+    },
+    model: () => bigrams
+  };
+};
+
+const GEMINI_INSTRUCTIONS =
+  'You follow a conversation between a signer (lines starting "Signed:") and a hearing person ' +
+  '(lines starting "Heard:"). Reply with JSON only: {"topic": a few words, "mood": one word, ' +
+  '"summary": one short sentence, "expected": up to five labels from the given sign list that ' +
+  'the signer is likely to use next}.';
+
+// The local n-gram engine with Gemini writing the topic, mood and summary,
+// and suggesting signs that fit the conversation. The suggestions raise the
+// prior like topic words do. Falls back to the local summary on failure.
+export const createGeminiContextEngine = (saved?: NgramModel, apiKey?: string, baseUrl?: string): ContextEngine => {
+  const local = createNgramEngine(saved);
+  let recent: ContextEvent[] = [];
+  let expected = new Set<string>();
+
+  return {
+    ...local,
+    id: 'gemini',
+    name: 'Gemini',
+    observe: (event) => {
+      local.observe(event);
+      recent = [...recent, event].slice(-WINDOW);
+    },
+    reset: () => {
+      local.reset();
+      recent = [];
+      expected = new Set();
+    },
+    prior: (previous, labels) => {
+      const bias = local.prior(previous, labels);
+      expected.forEach(label => {
+        if (bias.has(label)) bias.set(label, Math.min(1, bias.get(label)! + TOPIC_BOOST / 2));
+      });
+      return bias;
+    },
+    summarize: async (vocabulary) => {
+      if (recent.length === 0) return EMPTY_CONTEXT;
+      const transcript = recent.map(e => `${e.sender === 'me' ? 'Signed' : 'Heard'}: ${e.text || e.gloss?.join(' ')}`).join('\n');
+      try {
+        const reply = await generateContent(
+          GEMINI_INSTRUCTIONS,
+          `Signs: ${vocabulary.join(', ')}\n\n${transcript}`,
+          { temperature: 0.2, maxOutputTokens: 200, json: true },
+          apiKey,
+          baseUrl
+        );
+        const data = JSON.parse(reply);
+        const known = new Set(vocabulary);
+        expected = new Set((Array.isArray(data.expected) ? data.expected : []).filter((l: unknown) => typeof l === 'string' && known.has(l)));
+        return {
+          topic: String(data.topic || ''),
+          mood: String(data.mood || EMPTY_CONTEXT.mood).toLowerCase(),
+          summary: String(data.summary || '')
+        };
+      } catch (err) {
+        console.error('Gemini context failed, using n-gram:', err);
+        expected = new Set();
+        return local.summarize(vocabulary);
+      }
+    }
+  };
+};
+
+export const createContextEngine = (id: ContextEngineId, saved?: NgramModel): ContextEngine =>
+  id === 'gemini' ? createGeminiContextEngine(saved) : createNgramEngine(saved);
@@ -0,0 +1,124 @@
+import { CustomSign } from '../types.ts';
+import { SignClassifier } from './classifiers.ts';
+
+export interface SignAccuracy {
+  label: string;
+  tested: number;
+  correct: number;
+}
+
+export interface ConfusedPair {
+  a: string;
+  b: string;
+  // Leave-one-out trials where one sign was recognized as the other
+  errors: number;
+  // Highest confidence either sign's samples gave to the other sign
+  peakConfidence: number;
+}
+
+export interface EvaluationReport {
+  labels: string[];
+  // confusion[actual][predicted]; the extra last column counts "no prediction"
+  confusion: number[][];
+  perSign: SignAccuracy[];
+  confusedPairs: ConfusedPair[];
+  // Signs with a single recorded variation can't be tested by leaving it out
+  untested: string[];
+  tested: number;
+  correct: number;
+  suggestedThreshold: number;
+}
+
+// Range the suggested threshold is kept within: live video contains
+// transitional shapes the library never saw, so very low values misfire
+const MIN_THRESHOLD = 0.6;
+const MAX_THRESHOLD = 0.95;
+// A wrong word costs more than a missed one
+const FALSE_ACCEPT_COST = 3;
+const MAX_PAIRS = 5;
+
+// Leave-one-out validation over every recorded static HandSample: each
+// sample is classified by an engine trained on the rest of the library.
+// Synthetic variations are never tested, and are left out along with the
+// sample they were made from, or they would give its answer away.
+export const evaluateLibrary = async (
+  signs: CustomSign[],
+  createEngine: () => SignClassifier,
+  onProgress?: (done: number, total: number) => void
+): Promise<EvaluationReport> => {
+  const testable = signs.filter(s => s.samples.length > 0);
+  const labels = testable.map(s => s.label);
+  const confusion = labels.map(() => new Array<number>(labels.length + 1).fill(0));
+  const crossPeak = labels.map(() => new Array<number>(labels.length).fill(0));
+  const trials: { confidence: number; correct: boolean }[] = [];
+  const recorded = testable.map(s => s.samples.filter(x => !x.source));
+  const untested = testable.filter((_, a) => recorded[a].length < 2).map(s => s.label);
+  const total = recorded.reduce((n, samples) => n + (samples.length > 1 ? samples.length : 0), 0);
+  let done = 0;
+
+  for (let a = 0; a < testable.length; a++) {
+    const sign = testable[a];
+    if (recorded[a].length < 2) continue;
+
+    for (const sample of recorded[a]) {
+      const heldOut = testable.map(s => s.id === sign.id
+        ? { ...s, samples: s.samples.filter(x => x.id !== sample.id && x.source !== sample.id) }
+        : s);
+      const engine = createEngine();
+      await engine.train(heldOut);
+      const ranked = engine.classify(sample).sort((x, y) => y.confidence - x.confidence);
+      const top = ranked[0];
+      const predicted = top ? labels.indexOf(top.label) : -1;
+
+      confusion[a][predicted >= 0 ? predicted : labels.length]++;
+      trials.push({ confidence: top?.confidence ?? 0, correct: predicted === a });
+      ranked.forEach(p => {
+        const b = labels.indexOf(p.label);
+        if (b >= 0 && b !== a) crossPeak[a][b] = Math.max(crossPeak[a][b], p.confidence);
+      });
+
+      onProgress?.(++done, total);
+    }
+  }
+
+  const perSign = testable.map((s, a) => ({
+    label: s.label,
+    tested: recorded[a].length > 1 ? recorded[a].length : 0,
+    correct: recorded[a].length > 1 ? confusion[a][a] : 0
+  }));
+
+  const confusedPairs: ConfusedPair[] = [];
+  for (let a = 0; a < labels.length; a++) {
+    for (let b = a + 1; b < labels.length; b++) {
+      confusedPairs.push({
+        a: labels[a],
+        b: labels[b],
+        errors: confusion[a][b] + confusion[b][a],
+        peakConfidence: Math.max(crossPeak[a][b], crossPeak[b][a])
+      });
+    }
+  }
+  confusedPairs.sort((x, y) => y.errors - x.errors || y.peakConfidence - x.peakConfidence);
+
+  let suggestedThreshold = MIN_THRESHOLD;
+  let bestScore = -Infinity;
+  for (let t = MIN_THRESHOLD; t <= MAX_THRESHOLD + 1e-9; t += 0.01) {
+    const accepted = trials.filter(r => r.confidence >= t);
+    const score = accepted.filter(r => r.correct).length - FALSE_ACCEPT_COST * accepted.filter(r => !r.correct).length;
+    if (score > bestScore) {
+      bestScore = score;
+      suggestedThreshold = Math.round(t * 100) / 100;
+    }
+  }
+
+  return {
+    labels,
+    confusion,
+    perSign,
+    confusedPairs: confusedPairs.filter(p => p.peakConfidence > 0).slice(0, MAX_PAIRS),
+    untested,
+    tested: trials.length,
+    correct: trials.filter(r => r.correct).length,
+    suggestedThreshold
+  };
+};
@@ -0,0 +1,167 @@
+import { CustomSign, HandFrame, HandPose, HandShape, Handedness, LandmarkPoint } from '../types.ts';
+
+// Wrist → MCP → PIP → DIP → tip for each finger, thumb first
+const FINGER_CHAINS = [
+  [0, 1, 2, 3, 4],
+  [0, 5, 6, 7, 8],
+  [0, 9, 10, 11, 12],
+  [0, 13, 14, 15, 16],
+  [0, 17, 18, 19, 20]
+];
+const TIPS = [4, 8, 12, 16, 20];
+const PIPS = [2, 6, 10, 14, 18];
+const PALM_BASE = 9;
+// Frame shape assumed for samples recorded before the aspect ratio was known
+// (getUserMedia's default 640×480)
+const LEGACY_ASPECT = 4 / 3;
+
+export interface FeatureOptions {
+  // Video width / height. MediaPipe's x and y are fractions of each, so x is
+  // stretched by this to make distances and angles match the real hand.
+  aspect: number;
+  // The camera delivers an already-mirrored (selfie) image
+  mirroredCamera: boolean;
+}
+
+export const DEFAULT_FEATURE_OPTIONS: FeatureOptions = { aspect: LEGACY_ASPECT, mirroredCamera: false };
+
+export interface Point3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+const length = (p: Point3) => Math.sqrt(p.x * p.x + p.y * p.y + p.z * p.z);
+
+// Bend at joint b of a → b → c: 0 for a straight finger, up to π when folded back
+const flexion = (a: Point3, b: Point3, c: Point3) => {
+  const u = { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+  const v = { x: c.x - b.x, y: c.y - b.y, z: c.z - b.z };
+  const cos = (u.x * v.x + u.y * v.y + u.z * v.z) / ((length(u) * length(v)) || 1);
+  return Math.PI - Math.acos(Math.max(-1, Math.min(1, cos)));
+};
+
+// Three flexion angles per finger (MCP, PIP, DIP; CMC, MCP, IP for the thumb)
+const jointAngles = (points: Point3[]) =>
+  FINGER_CHAINS.flatMap(chain => [1, 2, 3].map(j => flexion(points[chain[j - 1]], points[chain[j]], points[chain[j + 1]])));
+
+// Curl states and joint angles of wrist-relative landmarks. Both are
+// unaffected by in-plane rotation and scale, so aligned points will do.
+export const articulation = (points: Point3[]) => ({
+  curlStates: TIPS.map((tipIdx, i) =>
+    Math.hypot(points[tipIdx].x, points[tipIdx].y) < Math.hypot(points[PIPS[i]].x, points[PIPS[i]].y) ? 1 : 0
+  ),
+  jointAngles: jointAngles(points)
+});
+
+// In-plane angle of the wrist → middle MCP axis, 0 when the hand points up
+const rollOf = (palm: { x: number; y: number }) => Math.atan2(palm.x, -palm.y);
+
+const rotate = (p: Point3, angle: number): Point3 => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { x: p.x * cos - p.y * sin, y: p.x * sin + p.y * cos, z: p.z };
+};
+
+// Landmarks relative to the wrist in palm lengths, rotated so the palm points
+// straight up. Depth is kept, left hands can be mirrored into right-handed
+// geometry, and the rotation that was removed is returned as `roll` so the
+// hand's orientation can still be compared on its own.
+export const processHandData = (landmarks: any[], mirror = false, aspect = LEGACY_ASPECT) => {
+  const wrist = landmarks[0];
+  const flip = mirror ? -1 : 1;
+  const centred: Point3[] = landmarks.map(l => ({
+    x: flip * (l.x - wrist.x) * aspect,
+    y: l.y - wrist.y,
+    z: ((l.z ?? 0) - (wrist.z ?? 0)) * aspect
+  }));
+  const palmScale = length(centred[PALM_BASE]) || 0.01;
+  const roll = rollOf(centred[PALM_BASE]);
+  const aligned = centred.map(p => rotate({ x: p.x / palmScale, y: p.y / palmScale, z: p.z / palmScale }, -roll));
+
+  return {
+    normalized: aligned.map(p => ({ nx: p.x, ny: p.y, nz: p.z })),
+    ...articulation(aligned),
+    roll,
+    wrist: { x: wrist.x, y: wrist.y },
+    scale: palmScale
+  };
+};
+
+// MediaPipe labels handedness assuming a mirrored selfie image. Unless the
+// camera itself mirrors, the frames we send are not, so its 'Left' is the
+// signer's right hand.
+export const physicalHand = (handedness: any, mirroredCamera = false): Handedness =>
+  (handedness?.label === 'Left') !== mirroredCamera ? 'Right' : 'Left';
+
+// Picks the dominant hand (the only hand, or the one matching the signer's
+// preference) and mirrors left-dominant signing into right-handed geometry.
+export const processHands = (
+  results: any,
+  dominantHand: Handedness,
+  options: FeatureOptions = DEFAULT_FEATURE_OPTIONS
+): Omit<HandFrame, 't'> | null => {
+  const hands = (results.multiHandLandmarks || []).map((landmarks: any[], i: number) => ({
+    landmarks,
+    side: physicalHand(results.multiHandedness?.[i], options.mirroredCamera)
+  }));
+  if (hands.length === 0) return null;
+
+  const dominantIdx = hands.length > 1 ? Math.max(0, hands.findIndex((h: any) => h.side === dominantHand)) : 0;
+  const dominant = hands[dominantIdx];
+  const other = hands.find((_: any, i: number) => i !== dominantIdx);
+  // A mirrored image of a right hand already looks like a left hand
+  const mirror = (dominant.side === 'Left') !== options.mirroredCamera;
+
+  const primary = processHandData(dominant.landmarks, mirror, options.aspect);
+  const data: Omit<HandFrame, 't'> = { ...primary, handedness: dominant.side, mirrored: mirror, aspect: options.aspect };
+  if (other) {
+    const { normalized, curlStates, jointAngles: angles, roll, wrist } = processHandData(other.landmarks, mirror, options.aspect);
+    data.secondary = { normalized, curlStates, jointAngles: angles, roll };
+    data.offset = {
+      dx: (mirror ? -1 : 1) * (wrist.x - primary.wrist.x) * options.aspect / primary.scale,
+      dy: (wrist.y - primary.wrist.y) / primary.scale
+    };
+  }
+  return data;
+};
+
+// Samples saved before format v2 have 2D landmarks that were neither aspect
+// corrected nor rotation aligned, and no joint angles or roll. Everything but
+// depth can be recovered from the stored points; `factor` is the new palm
+// length in old units, for rescaling offsets and motion scale.
+const isLegacyShape = (shape: any) => typeof shape.roll !== 'number' || !Array.isArray(shape.jointAngles);
+
+const upgradeShape = (shape: any): { shape: HandShape; factor: number } => {
+  if (!isLegacyShape(shape)) return { shape, factor: 1 };
+  const stretched: Point3[] = shape.normalized.map((p: LandmarkPoint) => ({ x: p.nx * LEGACY_ASPECT, y: p.ny, z: 0 }));
+  const factor = length(stretched[PALM_BASE]) || 1;
+  const roll = rollOf(stretched[PALM_BASE]);
+  const aligned = stretched.map(p => rotate({ x: p.x / factor, y: p.y / factor, z: 0 }, -roll));
+  return {
+    shape: {
+      ...shape,
+      normalized: aligned.map(p => ({ nx: p.x, ny: p.y })),
+      jointAngles: jointAngles(aligned),
+      roll
+    },
+    factor
+  };
+};
+
+// Re-featurizes a legacy sample or motion frame; current ones are returned as is
+export const upgradePose = <T extends HandPose>(pose: T): T => {
+  if (!isLegacyShape(pose)) return pose;
+  const { shape, factor } = upgradeShape(pose);
+  const upgraded: any = { ...shape };
+  if (pose.secondary) upgraded.secondary = upgradeShape(pose.secondary).shape;
+  if (pose.offset) upgraded.offset = { dx: (pose.offset.dx * LEGACY_ASPECT) / factor, dy: pose.offset.dy / factor };
+  if (typeof upgraded.scale === 'number') upgraded.scale *= factor;
+  return upgraded;
+};
+
+export const upgradeSign = (sign: CustomSign): CustomSign => ({
+  ...sign,
+  samples: sign.samples.map(upgradePose),
+  ...(sign.sequences ? { sequences: sign.sequences.map(seq => ({ ...seq, frames: seq.frames.map(upgradePose) })) } : {})
+});
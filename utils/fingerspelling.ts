@@ -0,0 +1,176 @@
+import { CustomSign } from '../types.ts';
+import { editDistance, tokenize } from './signLookup.ts';
+import { COMMON_WORDS } from './wordList.ts';
+
+// Letters of the manual alphabet are ordinary library signs labelled in
+// fingerspelling gloss: FS-A … FS-Z. Fingerspelled words that aren't in
+// the library or dictionary (usually names) enter the gloss the same way,
+// e.g. FS-MARIA.
+export const LETTER_PREFIX = 'FS-';
+export const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+export const letterLabel = (letter: string) => `${LETTER_PREFIX}${letter.toUpperCase()}`;
+
+export const isLetterLabel = (label: string) => /^FS-[A-Z]$/.test(label);
+
+export const isLetterSign = (sign: CustomSign) => isLetterLabel(sign.label);
+
+// Everything but the alphabet: what word recognition and lookup work with
+export const wordSigns = (signs: CustomSign[]) => signs.filter(s => !isLetterSign(s));
+
+export const isFingerspelled = (gloss: string) => gloss.startsWith(LETTER_PREFIX);
+
+// FS-A → A, FS-MARIA → MARIA; other labels are returned unchanged
+export const unspell = (gloss: string) => isFingerspelled(gloss) ? gloss.slice(LETTER_PREFIX.length) : gloss;
+
+export interface SpellingOptions {
+  // How long a letter must be held, with the hand still, to count
+  holdMs: number;
+  // Drift in palm lengths that still counts as holding still
+  stillness: number;
+  // Sliding or bouncing a held letter this far (palm lengths) repeats it,
+  // which is how double letters are signed
+  repeatTravel: number;
+  // A pause this long after the last letter ends the word
+  wordGapMs: number;
+}
+
+export const DEFAULT_SPELLING_OPTIONS: SpellingOptions = {
+  holdMs: 350,
+  stillness: 0.15,
+  repeatTravel: 0.35,
+  wordGapMs: 1500
+};
+
+// One camera frame as seen by the speller: the best letter (null when no
+// hand or nothing confident) and where the hand is. Motion letters (J, Z)
+// are recognized at the end of their movement, so they count at once
+// instead of having to be held.
+export interface SpellingFrame {
+  t: number;
+  letter: string | null;
+  moving?: boolean;
+  wrist?: { x: number; y: number };
+  scale?: number;
+}
+
+export type SpellingEvent =
+  | { type: 'letter'; letter: string; letters: string }
+  | { type: 'word'; word: string };
+
+export interface LetterSegmenter {
+  push(frame: SpellingFrame): SpellingEvent[];
+  // Ends the current word now, e.g. when spelling is switched off
+  flush(): SpellingEvent[];
+  reset(): void;
+}
+
+type Point = { x: number; y: number };
+
+// Turns a stream of per-frame letter guesses into letters and words. A
+// letter counts once it has been held still for `holdMs`; it then stays
+// latched, so holding it longer doesn't repeat it, until the hand changes
+// shape, drops, or slides it along for a double letter.
+export const createLetterSegmenter = (options: SpellingOptions = DEFAULT_SPELLING_OPTIONS): LetterSegmenter => {
+  let letters = '';
+  let candidate: string | null = null;
+  let since = 0;
+  let anchor: Point | null = null;
+  let latched: string | null = null;
+  let latchAnchor: Point | null = null;
+  let lastLetterAt = 0;
+
+  const distance = (a: Point | null, b: Point | undefined, scale = 0.1) =>
+    a && b ? Math.hypot(a.x - b.x, a.y - b.y) / (scale || 0.1) : 0;
+
+  const endWord = (): SpellingEvent[] => {
+    const word = letters;
+    letters = '';
+    latched = null;
+    candidate = null;
+    return word ? [{ type: 'word', word }] : [];
+  };
+
+  const commit = (frame: SpellingFrame, letter: string): SpellingEvent => {
+    letters += letter;
+    latched = letter;
+    latchAnchor = frame.wrist || null;
+    lastLetterAt = frame.t;
+    return { type: 'letter', letter, letters };
+  };
+
+  return {
+    push: (frame) => {
+      const events: SpellingEvent[] = letters && frame.t - lastLetterAt >= options.wordGapMs ? endWord() : [];
+      const { letter } = frame;
+      if (!letter) {
+        // Dropping the hand between two identical letters also separates them
+        candidate = null;
+        latched = null;
+        return events;
+      }
+
+      if (latched && latched !== letter) latched = null;
+      if (latched && distance(latchAnchor, frame.wrist, frame.scale) > options.repeatTravel) latched = null;
+      if (latched) return events;
+
+      if (frame.moving) {
+        events.push(commit(frame, letter));
+        return events;
+      }
+      if (letter !== candidate || distance(anchor, frame.wrist, frame.scale) > options.stillness) {
+        candidate = letter;
+        since = frame.t;
+        anchor = frame.wrist || null;
+        return events;
+      }
+      if (frame.t - since >= options.holdMs) events.push(commit(frame, letter));
+      return events;
+    },
+    flush: endWord,
+    reset: () => {
+      letters = '';
+      candidate = null;
+      latched = null;
+    }
+  };
+};
+
+const libraryWords = (signs: CustomSign[]) =>
+  signs.filter(s => !isLetterSign(s)).map(s => tokenize(s.label).join(' ')).filter(w => w && !w.includes(' '));
+
+const closest = (spelled: string, words: string[], maxEdits: number) => {
+  let best: string | null = null;
+  let bestDistance = maxEdits + 1;
+  for (const candidate of words) {
+    const d = editDistance(spelled, candidate, maxEdits);
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best;
+};
+
+// The closest word within a small number of edits, or the word itself.
+// Misread letters and a missed double letter are the usual errors; short
+// words need an exact match. The signer's own library is tried before the
+// dictionary, so a near miss on a trained sign becomes that sign.
+export const autocorrect = (word: string, signs: CustomSign[]) => {
+  const spelled = word.toLowerCase();
+  const library = libraryWords(signs);
+  if (library.includes(spelled) || COMMON_WORDS.includes(spelled)) return spelled;
+  const maxEdits = spelled.length >= 7 ? 2 : spelled.length >= 4 ? 1 : 0;
+  if (maxEdits === 0) return spelled;
+  return closest(spelled, library, maxEdits) ?? closest(spelled, COMMON_WORDS, maxEdits) ?? spelled;
+};
+
+// The gloss a finished word adds to the sentence: the library sign it
+// spells, a dictionary word, or the spelling itself as FS-WORD
+export const spelledGloss = (word: string, signs: CustomSign[]) => {
+  const corrected = autocorrect(word, signs);
+  const sign = signs.find(s => !isLetterSign(s) && tokenize(s.label).join(' ') === corrected);
+  if (sign) return sign.label;
+  if (COMMON_WORDS.includes(corrected)) return corrected.toUpperCase();
+  return `${LETTER_PREFIX}${word.toUpperCase()}`;
+};
@@ -0,0 +1,50 @@
+const GEMINI_BASE_URL = process.env.GEMINI_BASE_URL || 'https://generativelanguage.googleapis.com';
+const GEMINI_MODEL = 'gemini-2.5-flash';
+const REQUEST_TIMEOUT_MS = 6000;
+
+export const isGeminiConfigured = () => !!process.env.GEMINI_API_KEY;
+
+export interface GenerateOptions {
+  temperature: number;
+  maxOutputTokens: number;
+  // Asks for a JSON reply instead of prose
+  json?: boolean;
+}
+
+// One call to Gemini's generateContent REST endpoint, returning the reply
+// text. GEMINI_BASE_URL points it at a stand-in such as
+// scripts/mock-gemini.mjs for offline testing.
+export const generateContent = async (
+  instructions: string,
+  text: string,
+  options: GenerateOptions,
+  apiKey = process.env.GEMINI_API_KEY || '',
+  baseUrl = GEMINI_BASE_URL
+): Promise<string> => {
+  if (!apiKey) throw new Error('GEMINI_API_KEY is not set');
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${baseUrl}/v1beta/models/${GEMINI_MODEL}:generateContent`, {
+      method: 'POST',
+      signal: controller.signal,
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+      body: JSON.stringify({
+        systemInstruction: { parts: [{ text: instructions }] },
+        contents: [{ role: 'user', parts: [{ text }] }],
+        generationConfig: {
+          temperature: options.temperature,
+          maxOutputTokens: options.maxOutputTokens,
+          ...(options.json ? { responseMimeType: 'application/json' } : {})
+        }
+      })
+    });
+    if (!response.ok) throw new Error(`Gemini API error: ${response.status}`);
+    const data = await response.json();
+    const reply = (data.candidates?.[0]?.content?.parts || []).map((p: any) => p.text || '').join('').trim();
+    if (!reply) throw new Error('Gemini returned no content');
+    return reply;
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,747 @@
+export type LanguageId = 'en' | 'es' | 'ur';
+
+export interface Language {
+  id: LanguageId;
+  // English name, and the name speakers of the language use
+  name: string;
+  nativeName: string;
+  // BCP 47 tag for speech recognition and synthesis
+  speechLang: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: Language[] = [
+  { id: 'en', name: 'English', nativeName: 'English', speechLang: 'en-US', dir: 'ltr' },
+  { id: 'es', name: 'Spanish', nativeName: 'Español', speechLang: 'es-ES', dir: 'ltr' },
+  { id: 'ur', name: 'Urdu', nativeName: 'اردو', speechLang: 'ur-PK', dir: 'rtl' }
+];
+
+export const getLanguage = (id: LanguageId) => LANGUAGES.find(l => l.id === id) || LANGUAGES[0];
+
+// The browser's preferred language if we have it, otherwise English
+export const browserLanguage = (): LanguageId => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language];
+  for (const tag of preferred) {
+    const match = LANGUAGES.find(l => tag?.toLowerCase().split('-')[0] === l.id);
+    if (match) return match.id;
+  }
+  return 'en';
+};
+
+// Interface text. `{name}` placeholders are filled in by `t`.
+const EN = {
+  'mode.INTERPRETER': 'Interpreter',
+  'mode.LISTENER': 'Listener',
+  'mode.CONVERSATION': 'Conversation',
+  'mode.ACADEMY': 'Academy',
+  'mode.TRAINING': 'Training',
+
+  'sync.success': 'Synchronized',
+  'sync.syncing': 'Syncing variations...',
+  'sync.offline': 'Offline · {count} queued',
+  'sync.error': 'Sync error · retrying',
+  'sync.local': 'Local Only',
+  'sync.idle': 'Supabase Active',
+
+  'engine.start': 'Activate Camera',
+  'engine.stats': '{fps} FPS · {latency} ms · {skipped}% skipped',
+  'engine.mainThread': 'Recognition is running on the main thread',
+  'engine.stop': 'Disable Engine',
+  'recording.motion': '● Recording Motion',
+  'capture.center': 'Hold the sign in the middle of the frame',
+  'capture.left': 'Move it to your left',
+  'capture.right': 'Now to your right',
+  'capture.near': 'Bring it closer to the camera',
+  'capture.far': 'Move it further away',
+  'capture.hold': '● Hold still',
+  'session.record': 'Record Session',
+  'session.stopRecording': '● Stop & Save',
+  'session.replay': 'Replay Session',
+  'session.stopReplay': 'Stop Replay',
+  'session.speed': 'Replay speed',
+  'session.fastest': 'Fastest',
+  'session.matched': 'Replay produced the same sentences as the recording.',
+  'session.differs': 'Replay differs: recorded "{expected}", replayed "{actual}".',
+  'session.download': 'Save Result',
+  'session.dismiss': 'Dismiss',
+  'context.title': 'Context · {engine}',
+
+  'academy.title': 'Visual Academy',
+  'academy.practice': 'Practice',
+  'academy.quiz': 'Quiz',
+  'academy.summary': '{learned} of {total} learned · {due} due',
+  'academy.empty': 'Train some signs to practice them',
+  'academy.make': 'Make the sign',
+  'academy.reveal': 'Show me',
+  'academy.match': 'Your attempt',
+  'academy.startCamera': 'Start the camera to practice',
+  'academy.passed': 'Well done!',
+  'academy.missed': 'Try this one again soon',
+  'academy.skip': 'Skip',
+  'academy.next': 'Next',
+  'academy.progress': 'Progress',
+  'academy.best': 'Best {score}%',
+  'academy.new': 'New',
+  'academy.dueNow': 'Due now',
+  'academy.dueMinutes': 'In {n} min',
+  'academy.dueHours': 'In {n} h',
+  'academy.dueDays': 'In {n} days',
+  'academy.finger.thumb': 'Thumb',
+  'academy.finger.index': 'Index',
+  'academy.finger.middle': 'Middle',
+  'academy.finger.ring': 'Ring',
+  'academy.finger.pinky': 'Pinky',
+  'academy.status.ok': 'Good',
+  'academy.status.bend': 'Bend',
+  'academy.status.straighten': 'Straighten',
+  'academy.status.adjust': 'Adjust',
+
+  'interpreter.waiting': 'Waiting for signs...',
+  'interpreter.clear': 'Clear Sentence',
+  'interpreter.signs': 'Signs',
+  'interpreter.fingerspell': 'Fingerspell',
+  'interpreter.waitingLetters': 'Waiting for letters...',
+  'interpreter.noAlphabet': 'Install the alphabet in Training to fingerspell',
+
+  'listener.title': 'Speech-to-Sign Mode',
+  'listener.prompt': 'Activate microphone...',
+  'listener.start': '🎤 Start Microphone',
+  'listener.listening': '🎤 Listening...',
+  'listener.active': '● Speech Recognition Active',
+  'listener.off': '○ Microphone Off',
+  'listener.placeholder': 'Type a sentence...',
+  'listener.search': 'Search',
+  'listener.match': '"{words}" ({match} match)',
+  'listener.unmatched': 'No sign for this word',
+  'listener.sign': 'Sign: {label}',
+  'listener.noMatch': 'No trained signs match those words',
+  'listener.empty': 'Speak or type a sentence with trained signs',
+  'listener.available': 'Available: {labels}',
+  'listener.noneTrained': 'None trained yet',
+
+  'training.title': 'Variation Manager',
+  'training.report': 'Accuracy report',
+  'training.name': 'Gesture Name',
+  'training.translation': 'In {language}',
+  'training.static': 'Static Pose',
+  'training.motion': 'Motion',
+  'training.recording': 'Recording...',
+  'training.capturing': 'Capturing...',
+  'training.guidedCapture': 'Guided Capture',
+  'training.augment': 'Add synthetic variations',
+  'training.addVariation': 'Add Variation',
+  'training.trainNew': 'Train New',
+  'training.library': 'Variation Library',
+  'training.cloud': 'Safe Cloud',
+  'training.device': 'On Device',
+  'training.empty': 'Empty Library',
+  'training.twoHands': '2 Hands',
+  'training.recorded': '{count} Recorded',
+  'training.noFrames': 'Not enough hand frames were captured. Keep your hand in view while recording.',
+  'training.clearCloud': 'This will permanently delete ALL variations from the cloud and this device. Continue?',
+  'training.clearDevice': 'This will permanently delete ALL variations from this device. Continue?',
+  'training.installAlphabet': 'Install alphabet',
+  'training.alphabetHint': 'Adds FS-A … FS-Z for fingerspelling. The shapes are approximate: add your own variations of each letter.',
+  'training.noHand': 'No hand was in view when the sample was taken.',
+  'training.partialHand': 'Part of the hand was out of view or hard to track. Keep your whole hand in the frame.',
+  'training.duplicate': 'This sample is almost identical to one you already saved, so it adds little. Save it anyway?',
+  'training.confused': 'This sample looks more like {label} than the sign you are training. Save it anyway?',
+  'training.edit': 'Edit variations',
+  'training.rename': 'Sign name',
+  'training.variationN': 'Variation {n}',
+  'training.moveTo': 'Move to sign…',
+  'training.deleteVariation': 'Delete variation',
+  'training.confirmMerge': '{label} already exists. Merge the two signs?',
+  'training.kindMismatch': 'Static and motion signs can\'t share variations.',
+  'training.namePlaceholder': 'e.g. HELLO',
+
+  'report.title': 'Library Accuracy',
+  'report.subtitle': 'Leave-one-out validation of every static variation using the {engine} engine.',
+  'report.close': 'Close',
+  'report.evaluating': 'Evaluating {done}/{total}',
+  'report.run': 'Run Evaluation',
+  'report.runAgain': 'Run Again',
+  'report.overall': 'Overall',
+  'report.variations': '{correct} of {tested} variations',
+  'report.suggested': 'Suggested Threshold',
+  'report.current': 'Current: {value}%',
+  'report.untested': 'Needs 2+ Variations',
+  'report.perSign': 'Per-Sign Accuracy',
+  'report.confusions': 'Most Likely Confusions',
+  'report.errors': 'Errors: {n} · peak {peak}%',
+  'report.matrix': 'Confusion Matrix (actual ↓ / predicted →)',
+  'report.none': 'NONE',
+
+  'cloud.title': 'Cloud Sync',
+  'cloud.linkSent': 'Check your inbox for a sign-in link.',
+  'cloud.email': 'you@example.com',
+  'cloud.signIn': 'Sign In',
+  'cloud.signOut': 'Sign Out',
+
+  'transfer.export': 'Export',
+  'transfer.import': 'Import',
+  'transfer.combine': 'Combine',
+  'transfer.combineHint': 'Add imported variations to existing signs',
+  'transfer.replace': 'Replace',
+  'transfer.replaceHint': 'Use the imported variations instead',
+  'transfer.keep': 'Keep',
+  'transfer.keepHint': 'Leave existing signs untouched',
+  'transfer.conflicts': '{conflicts} of {total} signs in {file} already exist.',
+  'transfer.cancel': 'Cancel',
+  'transfer.imported': 'New signs imported: {n}',
+  'transfer.kept': 'kept: {n}',
+  'transfer.replaced': 'replaced: {n}',
+  'transfer.combined': 'combined: {n}',
+  'transfer.skipped': 'skipped, static and motion can\'t be combined: {n}',
+  'transfer.failed': 'Import failed',
+
+  'listener.micDenied': 'Please allow microphone access for speech recognition.',
+
+  'conversation.title': 'Conversation',
+  'conversation.history': 'History',
+  'conversation.new': 'New',
+  'conversation.startMic': '🎤 Start Mic',
+  'conversation.listening': '🎤 Listening',
+  'conversation.text': 'Text',
+  'conversation.subtitles': 'Subtitles',
+  'conversation.noSaved': 'No Saved Conversations',
+  'conversation.untitled': 'Empty',
+  'conversation.messages': '{count} messages',
+  'conversation.delete': 'Delete',
+  'conversation.begin': 'Sign or speak to begin',
+  'conversation.signed': 'Signed',
+  'conversation.heard': 'Heard',
+
+  'settings.title': 'Settings',
+  'settings.frames': '{n} frames',
+  'settings.profile': 'Profile',
+  'settings.new': 'New',
+  'settings.delete': 'Delete',
+  'settings.profileName': 'Profile name',
+  'settings.engines': 'Engines',
+  'settings.engine': 'Engine',
+  'settings.training': 'Training',
+  'settings.translation': 'Translation',
+  'settings.context': 'Context',
+  'settings.speechInput': 'Speech Input',
+  'settings.geminiHint': 'Set GEMINI_API_KEY to enable',
+  'settings.sttHint': 'Set VITE_STT_URL to enable',
+  'settings.unsupported': 'Not supported in this browser',
+  'settings.language': 'Language',
+  'settings.spokenLanguage': 'Spoken',
+  'settings.uiLanguage': 'Interface',
+  'settings.camera': 'Camera',
+  'settings.defaultCamera': 'Default Camera',
+  'settings.unavailableCamera': 'Unavailable Camera',
+  'settings.cameraN': 'Camera {n}',
+  'settings.cameraImage': 'Camera Image',
+  'settings.normal': 'Normal',
+  'settings.mirrored': 'Mirrored',
+  'settings.dominantHand': 'Dominant Hand',
+  'settings.Left': 'Left',
+  'settings.Right': 'Right',
+  'settings.Recognition': 'Recognition',
+  'settings.Timing': 'Timing',
+  'settings.Tracking': 'Tracking',
+  'settings.voice': 'Voice',
+  'settings.reset': 'Reset Profile to Defaults',
+
+  'setting.confidenceThreshold': 'Commit Confidence',
+  'setting.candidateThreshold': 'Show Candidates Above',
+  'setting.contextWeight': 'Context Influence',
+  'setting.holdFrames': 'Hold Sign For',
+  'setting.clearDelayMs': 'Prediction Display',
+  'setting.sentencePauseMs': 'Sentence Pause',
+  'setting.transcriptResetMs': 'Speech Reset',
+  'setting.minDetectionConfidence': 'Hand Detection',
+  'setting.minTrackingConfidence': 'Hand Tracking',
+
+  'voice.default': 'Default voice',
+  'voice.test': 'Test',
+  'voice.rate': 'Rate',
+  'voice.pitch': 'Pitch',
+  'voice.sample': 'Hello, this is EchoAssist.'
+};
+
+export type MessageKey = keyof typeof EN;
+
+// Missing entries fall back to English, so a language can be added piecemeal
+const MESSAGES: Record<LanguageId, Partial<Record<MessageKey, string>>> = {
+  en: EN,
+  es: {
+    'mode.INTERPRETER': 'Intérprete',
+    'mode.LISTENER': 'Oyente',
+    'mode.CONVERSATION': 'Conversación',
+    'mode.ACADEMY': 'Academia',
+    'mode.TRAINING': 'Entrenamiento',
+
+    'sync.success': 'Sincronizado',
+    'sync.syncing': 'Sincronizando variaciones...',
+    'sync.offline': 'Sin conexión · {count} en cola',
+    'sync.error': 'Error de sincronización · reintentando',
+    'sync.local': 'Solo local',
+    'sync.idle': 'Supabase activo',
+
+    'engine.start': 'Activar cámara',
+    'engine.stats': '{fps} FPS · {latency} ms · {skipped}% omitidos',
+    'engine.mainThread': 'El reconocimiento se ejecuta en el hilo principal',
+    'engine.stop': 'Detener motor',
+    'recording.motion': '● Grabando movimiento',
+    'capture.center': 'Mantén la seña en el centro de la imagen',
+    'capture.left': 'Muévela a tu izquierda',
+    'capture.right': 'Ahora a tu derecha',
+    'capture.near': 'Acércala a la cámara',
+    'capture.far': 'Aléjala de la cámara',
+    'capture.hold': '● No te muevas',
+    'session.record': 'Grabar sesión',
+    'session.stopRecording': '● Detener y guardar',
+    'session.replay': 'Reproducir sesión',
+    'session.stopReplay': 'Detener reproducción',
+    'session.speed': 'Velocidad de reproducción',
+    'session.fastest': 'Máxima',
+    'session.matched': 'La reproducción dio las mismas frases que la grabación.',
+    'session.differs': 'La reproducción difiere: grabado "{expected}", reproducido "{actual}".',
+    'session.download': 'Guardar resultado',
+    'session.dismiss': 'Cerrar',
+    'context.title': 'Contexto · {engine}',
+
+    'academy.title': 'Academia visual',
+    'academy.practice': 'Práctica',
+    'academy.quiz': 'Prueba',
+    'academy.summary': '{learned} de {total} aprendidas · {due} pendientes',
+    'academy.empty': 'Entrena algunas señas para practicarlas',
+    'academy.make': 'Haz la seña',
+    'academy.reveal': 'Muéstrame',
+    'academy.match': 'Tu intento',
+    'academy.startCamera': 'Inicia la cámara para practicar',
+    'academy.passed': '¡Muy bien!',
+    'academy.missed': 'Volverás a intentarla pronto',
+    'academy.skip': 'Saltar',
+    'academy.next': 'Siguiente',
+    'academy.progress': 'Progreso',
+    'academy.best': 'Mejor {score}%',
+    'academy.new': 'Nueva',
+    'academy.dueNow': 'Pendiente',
+    'academy.dueMinutes': 'En {n} min',
+    'academy.dueHours': 'En {n} h',
+    'academy.dueDays': 'En {n} días',
+    'academy.finger.thumb': 'Pulgar',
+    'academy.finger.index': 'Índice',
+    'academy.finger.middle': 'Medio',
+    'academy.finger.ring': 'Anular',
+    'academy.finger.pinky': 'Meñique',
+    'academy.status.ok': 'Bien',
+    'academy.status.bend': 'Dobla',
+    'academy.status.straighten': 'Estira',
+    'academy.status.adjust': 'Ajusta',
+
+    'interpreter.waiting': 'Esperando señas...',
+    'interpreter.clear': 'Borrar frase',
+    'interpreter.signs': 'Señas',
+    'interpreter.fingerspell': 'Deletreo',
+    'interpreter.waitingLetters': 'Esperando letras...',
+    'interpreter.noAlphabet': 'Instala el alfabeto en Entrenamiento para deletrear',
+
+    'listener.title': 'Modo voz a señas',
+    'listener.prompt': 'Activa el micrófono...',
+    'listener.start': '🎤 Activar micrófono',
+    'listener.listening': '🎤 Escuchando...',
+    'listener.active': '● Reconocimiento de voz activo',
+    'listener.off': '○ Micrófono apagado',
+    'listener.placeholder': 'Escribe una frase...',
+    'listener.search': 'Buscar',
+    'listener.match': '"{words}" (coincidencia {match})',
+    'listener.unmatched': 'No hay seña para esta palabra',
+    'listener.sign': 'Seña: {label}',
+    'listener.noMatch': 'Ninguna seña entrenada coincide con esas palabras',
+    'listener.empty': 'Di o escribe una frase con señas entrenadas',
+    'listener.available': 'Disponibles: {labels}',
+    'listener.noneTrained': 'Ninguna entrenada todavía',
+
+    'training.title': 'Gestor de variaciones',
+    'training.report': 'Informe de precisión',
+    'training.name': 'Nombre del gesto',
+    'training.translation': 'En {language}',
+    'training.static': 'Pose fija',
+    'training.motion': 'Movimiento',
+    'training.recording': 'Grabando...',
+    'training.capturing': 'Capturando...',
+    'training.guidedCapture': 'Captura guiada',
+    'training.augment': 'Añadir variaciones sintéticas',
+    'training.addVariation': 'Añadir variación',
+    'training.trainNew': 'Entrenar nueva',
+    'training.library': 'Biblioteca de variaciones',
+    'training.cloud': 'Nube segura',
+    'training.device': 'En el dispositivo',
+    'training.empty': 'Biblioteca vacía',
+    'training.twoHands': '2 manos',
+    'training.recorded': '{count} grabadas',
+    'training.noFrames': 'No se capturaron suficientes fotogramas de la mano. Mantén la mano a la vista mientras grabas.',
+    'training.clearCloud': 'Se borrarán para siempre TODAS las variaciones de la nube y de este dispositivo. ¿Continuar?',
+    'training.clearDevice': 'Se borrarán para siempre TODAS las variaciones de este dispositivo. ¿Continuar?',
+    'training.installAlphabet': 'Instalar alfabeto',
+    'training.alphabetHint': 'Añade FS-A … FS-Z para deletrear. Las formas son aproximadas: añade tus propias variaciones de cada letra.',
+    'training.noHand': 'No había ninguna mano a la vista al tomar la muestra.',
+    'training.partialHand': 'Parte de la mano quedó fuera de la imagen o era difícil de seguir. Mantén toda la mano en el encuadre.',
+    'training.duplicate': 'Esta muestra es casi idéntica a una que ya guardaste y aporta poco. ¿Guardarla de todos modos?',
+    'training.confused': 'Esta muestra se parece más a {label} que a la seña que estás entrenando. ¿Guardarla de todos modos?',
+    'training.edit': 'Editar variaciones',
+    'training.rename': 'Nombre de la seña',
+    'training.variationN': 'Variación {n}',
+    'training.moveTo': 'Mover a la seña…',
+    'training.deleteVariation': 'Borrar variación',
+    'training.confirmMerge': '{label} ya existe. ¿Unir las dos señas?',
+    'training.kindMismatch': 'Las señas fijas y las de movimiento no pueden compartir variaciones.',
+    'training.namePlaceholder': 'p. ej. HOLA',
+
+    'report.title': 'Precisión de la biblioteca',
+    'report.subtitle': 'Validación dejando uno fuera de cada variación fija con el motor {engine}.',
+    'report.close': 'Cerrar',
+    'report.evaluating': 'Evaluando {done}/{total}',
+    'report.run': 'Evaluar',
+    'report.runAgain': 'Evaluar de nuevo',
+    'report.overall': 'Total',
+    'report.variations': '{correct} de {tested} variaciones',
+    'report.suggested': 'Umbral sugerido',
+    'report.current': 'Actual: {value}%',
+    'report.untested': 'Necesitan 2+ variaciones',
+    'report.perSign': 'Precisión por seña',
+    'report.confusions': 'Confusiones más probables',
+    'report.errors': 'Errores: {n} · máximo {peak}%',
+    'report.matrix': 'Matriz de confusión (real ↓ / predicha →)',
+    'report.none': 'NINGUNA',
+
+    'cloud.title': 'Sincronización en la nube',
+    'cloud.linkSent': 'Revisa tu correo: te enviamos un enlace para entrar.',
+    'cloud.email': 'tu@ejemplo.com',
+    'cloud.signIn': 'Entrar',
+    'cloud.signOut': 'Salir',
+
+    'transfer.export': 'Exportar',
+    'transfer.import': 'Importar',
+    'transfer.combine': 'Combinar',
+    'transfer.combineHint': 'Añadir las variaciones importadas a las señas existentes',
+    'transfer.replace': 'Reemplazar',
+    'transfer.replaceHint': 'Usar las variaciones importadas en su lugar',
+    'transfer.keep': 'Conservar',
+    'transfer.keepHint': 'No tocar las señas existentes',
+    'transfer.conflicts': '{conflicts} de {total} señas de {file} ya existen.',
+    'transfer.cancel': 'Cancelar',
+    'transfer.imported': 'Señas nuevas importadas: {n}',
+    'transfer.kept': 'conservadas: {n}',
+    'transfer.replaced': 'reemplazadas: {n}',
+    'transfer.combined': 'combinadas: {n}',
+    'transfer.skipped': 'omitidas, no se pueden combinar fijas y de movimiento: {n}',
+    'transfer.failed': 'No se pudo importar',
+
+    'listener.micDenied': 'Permite el acceso al micrófono para el reconocimiento de voz.',
+
+    'conversation.title': 'Conversación',
+    'conversation.history': 'Historial',
+    'conversation.new': 'Nueva',
+    'conversation.startMic': '🎤 Activar micro',
+    'conversation.listening': '🎤 Escuchando',
+    'conversation.text': 'Texto',
+    'conversation.subtitles': 'Subtítulos',
+    'conversation.noSaved': 'No hay conversaciones guardadas',
+    'conversation.untitled': 'Vacía',
+    'conversation.messages': '{count} mensajes',
+    'conversation.delete': 'Eliminar',
+    'conversation.begin': 'Haz señas o habla para empezar',
+    'conversation.signed': 'Señado',
+    'conversation.heard': 'Oído',
+
+    'settings.title': 'Ajustes',
+    'settings.frames': '{n} fotogramas',
+    'settings.profile': 'Perfil',
+    'settings.new': 'Nuevo',
+    'settings.delete': 'Eliminar',
+    'settings.profileName': 'Nombre del perfil',
+    'settings.engines': 'Motores',
+    'settings.engine': 'Motor',
+    'settings.training': 'Entrenando',
+    'settings.translation': 'Traducción',
+    'settings.context': 'Contexto',
+    'settings.speechInput': 'Entrada de voz',
+    'settings.geminiHint': 'Configura GEMINI_API_KEY para activarlo',
+    'settings.sttHint': 'Configura VITE_STT_URL para activarlo',
+    'settings.unsupported': 'No compatible con este navegador',
+    'settings.language': 'Idioma',
+    'settings.spokenLanguage': 'Hablado',
+    'settings.uiLanguage': 'Interfaz',
+    'settings.camera': 'Cámara',
+    'settings.defaultCamera': 'Cámara predeterminada',
+    'settings.unavailableCamera': 'Cámara no disponible',
+    'settings.cameraN': 'Cámara {n}',
+    'settings.cameraImage': 'Imagen de cámara',
+    'settings.normal': 'Normal',
+    'settings.mirrored': 'Espejo',
+    'settings.dominantHand': 'Mano dominante',
+    'settings.Left': 'Izquierda',
+    'settings.Right': 'Derecha',
+    'settings.Recognition': 'Reconocimiento',
+    'settings.Timing': 'Tiempos',
+    'settings.Tracking': 'Seguimiento',
+    'settings.voice': 'Voz',
+    'settings.reset': 'Restablecer perfil',
+
+    'setting.confidenceThreshold': 'Confianza para aceptar',
+    'setting.candidateThreshold': 'Mostrar candidatos desde',
+    'setting.contextWeight': 'Influencia del contexto',
+    'setting.holdFrames': 'Mantener seña durante',
+    'setting.clearDelayMs': 'Mostrar predicción',
+    'setting.sentencePauseMs': 'Pausa de frase',
+    'setting.transcriptResetMs': 'Reinicio de voz',
+    'setting.minDetectionConfidence': 'Detección de manos',
+    'setting.minTrackingConfidence': 'Seguimiento de manos',
+
+    'voice.default': 'Voz predeterminada',
+    'voice.test': 'Probar',
+    'voice.rate': 'Velocidad',
+    'voice.pitch': 'Tono',
+    'voice.sample': 'Hola, soy EchoAssist.'
+  },
+  ur: {
+    'mode.INTERPRETER': 'ترجمان',
+    'mode.LISTENER': 'سامع',
+    'mode.CONVERSATION': 'گفتگو',
+    'mode.ACADEMY': 'اکیڈمی',
+    'mode.TRAINING': 'تربیت',
+
+    'sync.success': 'ہم آہنگ',
+    'sync.syncing': 'ہم آہنگی جاری ہے...',
+    'sync.offline': 'آف لائن · {count} قطار میں',
+    'sync.error': 'ہم آہنگی میں خرابی · دوبارہ کوشش',
+    'sync.local': 'صرف مقامی',
+    'sync.idle': 'Supabase فعال',
+
+    'engine.start': 'کیمرا چلائیں',
+    'engine.stats': '{fps} FPS · {latency} ms · {skipped}% چھوڑے گئے',
+    'engine.mainThread': 'شناخت مرکزی تھریڈ پر چل رہی ہے',
+    'engine.stop': 'انجن بند کریں',
+    'recording.motion': '● حرکت ریکارڈ ہو رہی ہے',
+    'capture.center': 'اشارہ فریم کے بیچ میں رکھیں',
+    'capture.left': 'اسے اپنے بائیں جانب لے جائیں',
+    'capture.right': 'اب اپنے دائیں جانب',
+    'capture.near': 'اسے کیمرے کے قریب لائیں',
+    'capture.far': 'اسے کیمرے سے دور لے جائیں',
+    'capture.hold': '● ساکن رہیں',
+    'session.record': 'سیشن ریکارڈ کریں',
+    'session.stopRecording': '● روکیں اور محفوظ کریں',
+    'session.replay': 'سیشن دوبارہ چلائیں',
+    'session.stopReplay': 'ری پلے روکیں',
+    'session.speed': 'ری پلے کی رفتار',
+    'session.fastest': 'تیز ترین',
+    'session.matched': 'ری پلے نے ریکارڈنگ والے ہی جملے بنائے۔',
+    'session.differs': 'ری پلے مختلف ہے: ریکارڈ شدہ "{expected}"، دوبارہ چلایا گیا "{actual}"۔',
+    'session.download': 'نتیجہ محفوظ کریں',
+    'session.dismiss': 'بند کریں',
+    'context.title': 'سیاق · {engine}',
+
+    'academy.title': 'بصری اکیڈمی',
+    'academy.practice': 'مشق',
+    'academy.quiz': 'کوئز',
+    'academy.summary': '{total} میں سے {learned} سیکھے · {due} باقی',
+    'academy.empty': 'مشق کے لیے کچھ اشارے سکھائیں',
+    'academy.make': 'یہ اشارہ بنائیں',
+    'academy.reveal': 'دکھائیں',
+    'academy.match': 'آپ کی کوشش',
+    'academy.startCamera': 'مشق کے لیے کیمرہ شروع کریں',
+    'academy.passed': 'شاباش!',
+    'academy.missed': 'یہ جلد دوبارہ آئے گا',
+    'academy.skip': 'چھوڑیں',
+    'academy.next': 'اگلا',
+    'academy.progress': 'پیش رفت',
+    'academy.best': 'بہترین {score}%',
+    'academy.new': 'نیا',
+    'academy.dueNow': 'ابھی',
+    'academy.dueMinutes': '{n} منٹ میں',
+    'academy.dueHours': '{n} گھنٹے میں',
+    'academy.dueDays': '{n} دن میں',
+    'academy.finger.thumb': 'انگوٹھا',
+    'academy.finger.index': 'شہادت',
+    'academy.finger.middle': 'درمیانی',
+    'academy.finger.ring': 'انامیکا',
+    'academy.finger.pinky': 'چھنگلی',
+    'academy.status.ok': 'ٹھیک',
+    'academy.status.bend': 'موڑیں',
+    'academy.status.straighten': 'سیدھا کریں',
+    'academy.status.adjust': 'درست کریں',
+
+    'interpreter.waiting': 'اشاروں کا انتظار...',
+    'interpreter.clear': 'جملہ صاف کریں',
+    'interpreter.signs': 'اشارے',
+    'interpreter.fingerspell': 'ہجے',
+    'interpreter.waitingLetters': 'حروف کا انتظار...',
+    'interpreter.noAlphabet': 'ہجے کرنے کے لیے تربیت میں حروفِ تہجی انسٹال کریں',
+
+    'listener.title': 'آواز سے اشارہ',
+    'listener.prompt': 'مائیکروفون چلائیں...',
+    'listener.start': '🎤 مائیکروفون چلائیں',
+    'listener.listening': '🎤 سن رہا ہے...',
+    'listener.active': '● آواز کی شناخت فعال',
+    'listener.off': '○ مائیکروفون بند',
+    'listener.placeholder': 'جملہ لکھیں...',
+    'listener.search': 'تلاش',
+    'listener.match': '"{words}" ({match})',
+    'listener.unmatched': 'اس لفظ کا کوئی اشارہ نہیں',
+    'listener.sign': 'اشارہ: {label}',
+    'listener.noMatch': 'ان الفاظ سے کوئی سکھایا گیا اشارہ نہیں ملتا',
+    'listener.empty': 'سکھائے گئے اشاروں والا جملہ بولیں یا لکھیں',
+    'listener.available': 'دستیاب: {labels}',
+    'listener.noneTrained': 'ابھی کوئی نہیں سکھایا گیا',
+
+    'training.title': 'تغیرات کا منتظم',
+    'training.report': 'درستگی کی رپورٹ',
+    'training.name': 'اشارے کا نام',
+    'training.translation': '{language} میں',
+    'training.static': 'ساکن انداز',
+    'training.motion': 'حرکت',
+    'training.recording': 'ریکارڈنگ...',
+    'training.capturing': 'محفوظ ہو رہا ہے...',
+    'training.guidedCapture': 'رہنمائی کے ساتھ ریکارڈنگ',
+    'training.augment': 'مصنوعی مختلف صورتیں شامل کریں',
+    'training.addVariation': 'تغیر شامل کریں',
+    'training.trainNew': 'نیا سکھائیں',
+    'training.library': 'تغیرات کی لائبریری',
+    'training.cloud': 'محفوظ کلاؤڈ',
+    'training.device': 'اس آلے پر',
+    'training.empty': 'لائبریری خالی ہے',
+    'training.twoHands': 'دو ہاتھ',
+    'training.recorded': '{count} ریکارڈ شدہ',
+    'training.noFrames': 'ہاتھ کے کافی فریم محفوظ نہیں ہوئے۔ ریکارڈنگ کے دوران ہاتھ نظر میں رکھیں۔',
+    'training.clearCloud': 'یہ کلاؤڈ اور اس آلے سے تمام تغیرات ہمیشہ کے لیے حذف کر دے گا۔ جاری رکھیں؟',
+    'training.clearDevice': 'یہ اس آلے سے تمام تغیرات ہمیشہ کے لیے حذف کر دے گا۔ جاری رکھیں؟',
+    'training.installAlphabet': 'حروفِ تہجی انسٹال کریں',
+    'training.alphabetHint': 'ہجے کے لیے FS-A … FS-Z شامل کرتا ہے۔ شکلیں تخمینی ہیں: ہر حرف کے اپنے تغیرات شامل کریں۔',
+    'training.noHand': 'نمونہ لیتے وقت کوئی ہاتھ نظر نہیں آیا۔',
+    'training.partialHand': 'ہاتھ کا کچھ حصہ تصویر سے باہر تھا یا واضح نہیں تھا۔ پورا ہاتھ فریم میں رکھیں۔',
+    'training.duplicate': 'یہ نمونہ پہلے سے محفوظ ایک نمونے جیسا ہی ہے، اس لیے کم فائدہ دے گا۔ پھر بھی محفوظ کریں؟',
+    'training.confused': 'یہ نمونہ سکھائے جانے والے اشارے کے بجائے {label} سے زیادہ ملتا ہے۔ پھر بھی محفوظ کریں؟',
+    'training.edit': 'تغیرات میں ترمیم',
+    'training.rename': 'اشارے کا نام',
+    'training.variationN': 'تغیر {n}',
+    'training.moveTo': 'اشارے میں منتقل کریں…',
+    'training.deleteVariation': 'تغیر حذف کریں',
+    'training.confirmMerge': '{label} پہلے سے موجود ہے۔ دونوں اشارے ملا دیں؟',
+    'training.kindMismatch': 'ساکن اور حرکت والے اشارے تغیرات شریک نہیں کر سکتے۔',
+    'training.namePlaceholder': 'مثلاً HELLO',
+
+    'report.title': 'لائبریری کی درستگی',
+    'report.subtitle': '{engine} انجن سے ہر ساکن تغیر کی ایک-چھوڑ جانچ۔',
+    'report.close': 'بند کریں',
+    'report.evaluating': 'جانچ جاری {done}/{total}',
+    'report.run': 'جانچ چلائیں',
+    'report.runAgain': 'دوبارہ چلائیں',
+    'report.overall': 'مجموعی',
+    'report.variations': '{tested} میں سے {correct} تغیرات',
+    'report.suggested': 'تجویز کردہ حد',
+    'report.current': 'موجودہ: {value}%',
+    'report.untested': '2+ تغیرات درکار',
+    'report.perSign': 'ہر اشارے کی درستگی',
+    'report.confusions': 'سب سے ممکنہ الجھنیں',
+    'report.errors': 'غلطیاں: {n} · زیادہ سے زیادہ {peak}%',
+    'report.matrix': 'الجھن میٹرکس (اصل ↓ / پیش گوئی →)',
+    'report.none': 'کوئی نہیں',
+
+    'cloud.title': 'کلاؤڈ ہم آہنگی',
+    'cloud.linkSent': 'سائن ان لنک کے لیے اپنا ان باکس دیکھیں۔',
+    'cloud.email': 'you@example.com',
+    'cloud.signIn': 'سائن ان',
+    'cloud.signOut': 'سائن آؤٹ',
+
+    'transfer.export': 'برآمد',
+    'transfer.import': 'درآمد',
+    'transfer.combine': 'ملائیں',
+    'transfer.combineHint': 'درآمد شدہ تغیرات موجودہ اشاروں میں شامل کریں',
+    'transfer.replace': 'بدلیں',
+    'transfer.replaceHint': 'اس کے بجائے درآمد شدہ تغیرات استعمال کریں',
+    'transfer.keep': 'رکھیں',
+    'transfer.keepHint': 'موجودہ اشاروں کو نہ چھیڑیں',
+    'transfer.conflicts': '{file} کے {total} میں سے {conflicts} اشارے پہلے سے موجود ہیں۔',
+    'transfer.cancel': 'منسوخ',
+    'transfer.imported': 'درآمد شدہ نئے اشارے: {n}',
+    'transfer.kept': 'رکھے گئے: {n}',
+    'transfer.replaced': 'بدلے گئے: {n}',
+    'transfer.combined': 'ملائے گئے: {n}',
+    'transfer.skipped': 'چھوڑے گئے، ساکن اور حرکت والے نہیں مل سکتے: {n}',
+    'transfer.failed': 'درآمد ناکام',
+
+    'listener.micDenied': 'آواز کی شناخت کے لیے مائیکروفون کی اجازت دیں۔',
+
+    'conversation.title': 'گفتگو',
+    'conversation.history': 'تاریخ',
+    'conversation.new': 'نئی',
+    'conversation.startMic': '🎤 مائیک چلائیں',
+    'conversation.listening': '🎤 سن رہا ہے',
+    'conversation.text': 'متن',
+    'conversation.subtitles': 'سب ٹائٹل',
+    'conversation.noSaved': 'کوئی محفوظ گفتگو نہیں',
+    'conversation.untitled': 'خالی',
+    'conversation.messages': '{count} پیغامات',
+    'conversation.delete': 'حذف کریں',
+    'conversation.begin': 'شروع کرنے کے لیے اشارہ کریں یا بولیں',
+    'conversation.signed': 'اشارہ کیا',
+    'conversation.heard': 'سنا',
+
+    'settings.title': 'ترتیبات',
+    'settings.frames': '{n} فریم',
+    'settings.profile': 'پروفائل',
+    'settings.new': 'نیا',
+    'settings.delete': 'حذف کریں',
+    'settings.profileName': 'پروفائل کا نام',
+    'settings.engines': 'انجن',
+    'settings.engine': 'انجن',
+    'settings.training': 'تربیت',
+    'settings.translation': 'ترجمہ',
+    'settings.context': 'سیاق',
+    'settings.speechInput': 'آواز کا ان پٹ',
+    'settings.geminiHint': 'فعال کرنے کے لیے GEMINI_API_KEY مقرر کریں',
+    'settings.sttHint': 'فعال کرنے کے لیے VITE_STT_URL مقرر کریں',
+    'settings.unsupported': 'یہ براؤزر اس کی حمایت نہیں کرتا',
+    'settings.language': 'زبان',
+    'settings.spokenLanguage': 'بول چال',
+    'settings.uiLanguage': 'انٹرفیس',
+    'settings.camera': 'کیمرا',
+    'settings.defaultCamera': 'طے شدہ کیمرا',
+    'settings.unavailableCamera': 'کیمرا دستیاب نہیں',
+    'settings.cameraN': 'کیمرا {n}',
+    'settings.cameraImage': 'کیمرے کی تصویر',
+    'settings.normal': 'عام',
+    'settings.mirrored': 'آئینہ',
+    'settings.dominantHand': 'غالب ہاتھ',
+    'settings.Left': 'بایاں',
+    'settings.Right': 'دایاں',
+    'settings.Recognition': 'شناخت',
+    'settings.Timing': 'وقت',
+    'settings.Tracking': 'ٹریکنگ',
+    'settings.voice': 'آواز',
+    'settings.reset': 'پروفائل کو طے شدہ پر لائیں',
+
+    'setting.confidenceThreshold': 'قبولیت کا اعتماد',
+    'setting.candidateThreshold': 'امیدوار دکھائیں از',
+    'setting.contextWeight': 'سیاق کا اثر',
+    'setting.holdFrames': 'اشارہ روکے رکھیں',
+    'setting.clearDelayMs': 'پیش گوئی کا دورانیہ',
+    'setting.sentencePauseMs': 'جملے کا وقفہ',
+    'setting.transcriptResetMs': 'آواز کی بحالی',
+    'setting.minDetectionConfidence': 'ہاتھ کی شناخت',
+    'setting.minTrackingConfidence': 'ہاتھ کی ٹریکنگ',
+
+    'voice.default': 'طے شدہ آواز',
+    'voice.test': 'آزمائیں',
+    'voice.rate': 'رفتار',
+    'voice.pitch': 'سر',
+    'voice.sample': 'السلام علیکم، میں ایکو اسسٹ ہوں۔'
+  }
+};
+
+export type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+export const createTranslate = (id: LanguageId): Translate => {
+  const messages = MESSAGES[id];
+  return (key, vars) => {
+    const text = messages[key] ?? EN[key];
+    return vars ? text.replace(/\{(\w+)\}/g, (match, name) => name in vars ? String(vars[name]) : match) : text;
+  };
+};
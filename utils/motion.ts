@@ -0,0 +1,149 @@
+import { CustomSign, HandFrame, MotionSample } from '../types.ts';
+import { DEFAULT_FEATURE_OPTIONS } from './features.ts';
+
+// How long a motion capture runs in TRAINING mode
+export const MOTION_CAPTURE_MS = 2000;
+// How much live history the interpreter keeps for motion matching
+export const MOTION_BUFFER_MS = 4000;
+// A gap longer than this (hand lost) starts a fresh live buffer
+export const MOTION_GAP_MS = 300;
+
+// Stored recordings are resampled to this many frames to keep the library small
+const STORE_LENGTH = 32;
+// Both sequences are resampled to this length before time-warping
+const MATCH_LENGTH = 16;
+// Sakoe-Chiba band as a fraction of MATCH_LENGTH
+const WARP_BAND = 0.25;
+// Overall speed factors tried against each recording (slow and fast signers)
+const SPEED_FACTORS = [0.7, 1, 1.4];
+// Minimum distance, in palm lengths, the hand must travel to count as motion
+const MIN_TRAVEL = 0.6;
+const MIN_FRAMES = 5;
+const SHAPE_WEIGHT = 0.5;
+
+type SimilarityFn = (live: HandFrame, saved: HandFrame) => number;
+
+export const isMotionSign = (sign: CustomSign) => sign.kind === 'motion';
+
+// Adds a live frame to the motion buffer, starting afresh after a gap and
+// dropping frames older than MOTION_BUFFER_MS
+export const bufferFrame = (buffer: HandFrame[], frame: HandFrame) => {
+  if (buffer.length > 0 && frame.t - buffer[buffer.length - 1].t > MOTION_GAP_MS) buffer.length = 0;
+  buffer.push(frame);
+  while (buffer.length > 0 && frame.t - buffer[0].t > MOTION_BUFFER_MS) buffer.shift();
+};
+
+const lerp = (a: number, b: number, k: number) => a + (b - a) * k;
+
+export const resampleSequence = (frames: HandFrame[], length: number): HandFrame[] => {
+  if (frames.length === 0) return [];
+  if (frames.length === 1) return Array.from({ length }, () => frames[0]);
+
+  const start = frames[0].t;
+  const span = frames[frames.length - 1].t - start || 1;
+  const out: HandFrame[] = [];
+  let j = 0;
+
+  for (let i = 0; i < length; i++) {
+    const target = start + (span * i) / (length - 1);
+    while (j < frames.length - 2 && frames[j + 1].t < target) j++;
+    const a = frames[j];
+    const b = frames[j + 1];
+    const k = b.t === a.t ? 0 : Math.min(1, Math.max(0, (target - a.t) / (b.t - a.t)));
+
+    out.push({
+      t: target,
+      normalized: a.normalized.map((p, n) => ({
+        nx: lerp(p.nx, b.normalized[n].nx, k),
+        ny: lerp(p.ny, b.normalized[n].ny, k),
+        ...(p.nz !== undefined && b.normalized[n].nz !== undefined ? { nz: lerp(p.nz, b.normalized[n].nz!, k) } : {})
+      })),
+      curlStates: k < 0.5 ? a.curlStates : b.curlStates,
+      jointAngles: a.jointAngles.map((angle, n) => lerp(angle, b.jointAngles[n], k)),
+      roll: a.roll + k * Math.atan2(Math.sin(b.roll - a.roll), Math.cos(b.roll - a.roll)),
+      handedness: a.handedness,
+      secondary: k < 0.5 ? a.secondary : b.secondary,
+      offset: k < 0.5 ? a.offset : b.offset,
+      wrist: { x: lerp(a.wrist.x, b.wrist.x, k), y: lerp(a.wrist.y, b.wrist.y, k) },
+      scale: lerp(a.scale, b.scale, k),
+      ...(a.mirrored !== undefined ? { mirrored: a.mirrored } : {}),
+      ...(a.aspect !== undefined ? { aspect: a.aspect } : {})
+    });
+  }
+  return out;
+};
+
+// Wrist path relative to the first frame, in palm lengths, stretched for the
+// frame's aspect and mirrored exactly when the landmarks were. Older
+// recordings don't say, and were mirrored for left-dominant signers.
+export const wristPath = (frames: HandFrame[]) => {
+  const origin = frames[0].wrist;
+  const scale = frames.reduce((sum, f) => sum + f.scale, 0) / frames.length || 0.01;
+  const mirrored = frames[0].mirrored ?? frames[0].handedness === 'Left';
+  const stretch = (mirrored ? -1 : 1) * (frames[0].aspect ?? DEFAULT_FEATURE_OPTIONS.aspect);
+  return frames.map(f => ({ x: (stretch * (f.wrist.x - origin.x)) / scale, y: (f.wrist.y - origin.y) / scale }));
+};
+
+const travel = (path: { x: number; y: number }[]) =>
+  path.reduce((max, p) => Math.max(max, Math.sqrt(p.x * p.x + p.y * p.y)), 0);
+
+// Dynamic time warping over two equal-length sequences, averaged per step
+const dtwDistance = (length: number, cost: (i: number, j: number) => number) => {
+  const band = Math.max(1, Math.ceil(length * WARP_BAND));
+  const D = Array.from({ length: length + 1 }, () => new Array<number>(length + 1).fill(Infinity));
+  D[0][0] = 0;
+
+  for (let i = 1; i <= length; i++) {
+    for (let j = Math.max(1, i - band); j <= Math.min(length, i + band); j++) {
+      D[i][j] = cost(i - 1, j - 1) + Math.min(D[i - 1][j], D[i][j - 1], D[i - 1][j - 1]);
+    }
+  }
+  return D[length][length] / length;
+};
+
+// Converts a raw capture into a stored recording with timestamps starting at 0
+export const createMotionSample = (frames: HandFrame[]): MotionSample | null => {
+  if (frames.length < MIN_FRAMES) return null;
+  const start = frames[0].t;
+  const rebased = frames.map(f => ({ ...f, t: f.t - start }));
+  return {
+    id: Date.now().toString(),
+    duration: rebased[rebased.length - 1].t,
+    frames: resampleSequence(rebased, STORE_LENGTH)
+  };
+};
+
+// Scores the tail of the live buffer against one recording, 0..1
+export const matchMotion = (buffer: HandFrame[], sample: MotionSample, similarity: SimilarityFn) => {
+  if (buffer.length < MIN_FRAMES || sample.frames.length < 2) return 0;
+
+  const reference = resampleSequence(sample.frames, MATCH_LENGTH);
+  const refPath = wristPath(reference);
+  const minTravel = Math.min(MIN_TRAVEL, travel(refPath) * 0.5);
+  const now = buffer[buffer.length - 1].t;
+  let best = 0;
+
+  SPEED_FACTORS.forEach(factor => {
+    const span = sample.duration * factor;
+    // Not enough history yet to cover this window
+    if (buffer[0].t > now - span * 0.8) return;
+
+    const window = buffer.filter(f => f.t >= now - span);
+    if (window.length < MIN_FRAMES) return;
+
+    const live = resampleSequence(window, MATCH_LENGTH);
+    const livePath = wristPath(live);
+    if (travel(livePath) < minTravel) return;
+
+    const dist = dtwDistance(MATCH_LENGTH, (i, j) => {
+      const shape = 1 - similarity(live[i], reference[j]);
+      const dx = livePath[i].x - refPath[j].x;
+      const dy = livePath[i].y - refPath[j].y;
+      const path = Math.min(1, Math.sqrt(dx * dx + dy * dy) / 2);
+      return shape * SHAPE_WEIGHT + path * (1 - SHAPE_WEIGHT);
+    });
+    best = Math.max(best, 1 - dist);
+  });
+
+  return Math.max(0, best);
+};
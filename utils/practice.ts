@@ -0,0 +1,171 @@
+import { CustomSign, HandFrame, HandPose, HandShape } from '../types.ts';
+import { isMotionSign, matchMotion } from './motion.ts';
+import { calculateSimilarity } from './similarity.ts';
+
+export type Finger = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+export const FINGERS: Finger[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+
+// Landmarks of each finger, thumb first, excluding the shared wrist
+const FINGER_POINTS = [
+  [1, 2, 3, 4],
+  [5, 6, 7, 8],
+  [9, 10, 11, 12],
+  [13, 14, 15, 16],
+  [17, 18, 19, 20]
+];
+// Mean distance (palm lengths) of a finger's joints from the target that
+// still counts as right
+const FINGER_TOLERANCE = 0.18;
+// Summed flexion difference (radians) that decides whether a misplaced
+// finger should bend or straighten
+const FLEX_TOLERANCE = 0.5;
+
+// 'bend' and 'straighten' say which way to move the finger; 'adjust' means
+// its bend is about right but it points the wrong way
+export type FingerStatus = 'ok' | 'bend' | 'straighten' | 'adjust';
+
+export interface FingerFeedback {
+  finger: Finger;
+  status: FingerStatus;
+  // Mean joint distance from the target, in palm lengths
+  distance: number;
+}
+
+export interface AttemptScore {
+  // 0..1 from the similarity function (or motion matching for motion signs)
+  score: number;
+  fingers: FingerFeedback[];
+}
+
+const pointDistance = (live: HandShape, target: HandShape, i: number) => {
+  const a = live.normalized[i];
+  const b = target.normalized[i];
+  const dz = a.nz !== undefined && b.nz !== undefined ? a.nz - b.nz : 0;
+  return Math.sqrt((a.nx - b.nx) ** 2 + (a.ny - b.ny) ** 2 + dz * dz);
+};
+
+const flexionOf = (shape: HandShape, finger: number) =>
+  shape.jointAngles.slice(finger * 3, finger * 3 + 3).reduce((sum, a) => sum + a, 0);
+
+// Compares each finger of the live hand with the target: a different curl
+// state says which way to move it, landmark distance how far off it is
+export const fingerFeedback = (live: HandShape, target: HandShape): FingerFeedback[] =>
+  FINGERS.map((finger, f) => {
+    const distance = FINGER_POINTS[f].reduce((sum, i) => sum + pointDistance(live, target, i), 0) / FINGER_POINTS[f].length;
+    let status: FingerStatus = 'ok';
+    if (live.curlStates[f] !== target.curlStates[f]) {
+      status = target.curlStates[f] ? 'bend' : 'straighten';
+    } else if (distance > FINGER_TOLERANCE) {
+      const flexDiff = flexionOf(target, f) - flexionOf(live, f);
+      status = flexDiff > FLEX_TOLERANCE ? 'bend' : flexDiff < -FLEX_TOLERANCE ? 'straighten' : 'adjust';
+    }
+    return { finger, status, distance };
+  });
+
+// Scores one live frame against every variation of the sign and gives
+// feedback against the closest one. Motion signs are scored on the recent
+// frames, with finger feedback against the handshape the motion ends in.
+export const scoreAttempt = (pose: HandPose, buffer: HandFrame[], sign: CustomSign): AttemptScore => {
+  let score = 0;
+  let closest: HandShape | null = null;
+  if (isMotionSign(sign)) {
+    let endScore = -1;
+    for (const sequence of sign.sequences || []) {
+      score = Math.max(score, matchMotion(buffer, sequence, calculateSimilarity));
+      const end = sequence.frames[sequence.frames.length - 1];
+      const similarity = end ? calculateSimilarity(pose, end) : -1;
+      if (end && similarity > endScore) {
+        endScore = similarity;
+        closest = end;
+      }
+    }
+  } else {
+    for (const sample of sign.samples) {
+      const similarity = calculateSimilarity(pose, sample);
+      if (!closest || similarity > score) {
+        score = Math.max(score, similarity);
+        closest = sample;
+      }
+    }
+  }
+  return { score, fingers: closest ? fingerFeedback(pose, closest) : [] };
+};
+
+// Spaced repetition, SM-2 style: each pass multiplies the interval by the
+// sign's ease, a miss starts it over and makes the sign come back sooner
+export interface SignProgress {
+  signId: string;
+  // Consecutive passes
+  streak: number;
+  ease: number;
+  intervalMs: number;
+  dueAt: number;
+  attempts: number;
+  passes: number;
+  bestScore: number;
+  lastPracticedAt: number;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Intervals after the first and second pass in a row, before ease applies
+const LEARNING_STEPS = [10 * MINUTE, DAY];
+// A missed sign comes back within the session
+const RETRY_MS = MINUTE;
+
+// A score this far above the pass mark counts as an easy recall
+const EASY_MARGIN = 0.12;
+
+export const newProgress = (signId: string): SignProgress => ({
+  signId,
+  streak: 0,
+  ease: INITIAL_EASE,
+  intervalMs: 0,
+  dueAt: 0,
+  attempts: 0,
+  passes: 0,
+  bestScore: 0,
+  lastPracticedAt: 0
+});
+
+// Records one graded attempt. `passMark` is the score needed to pass,
+// normally the recognition confidence threshold.
+export const recordAttempt = (progress: SignProgress, score: number, passMark: number, now = Date.now()): SignProgress => {
+  const passed = score >= passMark;
+  // SM-2 quality: 5 easy, 4 pass, 1 miss
+  const quality = !passed ? 1 : score >= passMark + EASY_MARGIN ? 5 : 4;
+  const ease = Math.max(MIN_EASE, progress.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  const streak = passed ? progress.streak + 1 : 0;
+  const intervalMs = !passed
+    ? RETRY_MS
+    : streak <= LEARNING_STEPS.length ? LEARNING_STEPS[streak - 1] : Math.round(progress.intervalMs * ease);
+  return {
+    ...progress,
+    streak,
+    ease,
+    intervalMs,
+    dueAt: now + intervalMs,
+    attempts: progress.attempts + 1,
+    passes: progress.passes + (passed ? 1 : 0),
+    bestScore: Math.max(progress.bestScore, score),
+    lastPracticedAt: now
+  };
+};
+
+// What to practice next: the most overdue sign, then one never practiced,
+// then whichever comes due soonest. `skip` avoids repeating the sign just shown.
+export const nextSign = (signs: CustomSign[], progress: Record<string, SignProgress>, skip: string | null = null, now = Date.now()) => {
+  const pool = signs.length > 1 ? signs.filter(s => s.id !== skip) : signs;
+  const dueAt = (sign: CustomSign) => progress[sign.id]?.dueAt ?? Infinity;
+  const overdue = pool.filter(s => dueAt(s) <= now).sort((a, b) => dueAt(a) - dueAt(b));
+  if (overdue.length > 0) return overdue[0];
+  const fresh = pool.find(s => !progress[s.id]);
+  if (fresh) return fresh;
+  return pool.slice().sort((a, b) => dueAt(a) - dueAt(b))[0] ?? null;
+};
+
+// Signs that have been passed and aren't due yet
+export const isLearned = (progress: SignProgress | undefined, now = Date.now()) =>
+  !!progress && progress.streak > 0 && progress.dueAt > now;
@@ -0,0 +1,319 @@
+import { CustomSign, Handedness, HandFrame, Prediction } from '../types.ts';
+import { ClassifierId, createClassifier, SignClassifier } from './classifiers.ts';
+import { ContextEngine } from './context.ts';
+import { processHands } from './features.ts';
+import { createLetterSegmenter, isLetterSign, LetterSegmenter, SpellingEvent, spelledGloss, unspell, wordSigns } from './fingerspelling.ts';
+import { bufferFrame, isMotionSign, matchMotion } from './motion.ts';
+import { calculateSimilarity } from './similarity.ts';
+
+// Predictions shown per frame
+const MAX_PREDICTIONS = 3;
+// Weight of the newest frame in each sign's smoothed confidence
+const SMOOTHING = 0.5;
+// A sign already held stays held down to this much below the commit
+// confidence, so it doesn't flicker out and back in
+const HYSTERESIS = 0.08;
+// Frames of rest, or of another sign, after which the last committed sign
+// may be committed again
+const RELEASE_FRAMES = 3;
+
+// The recognition part of Settings (see utils/settings.ts)
+export interface RecognitionOptions {
+  confidenceThreshold: number;
+  candidateThreshold: number;
+  contextWeight: number;
+  // Frames a sign must stay the best match before it is committed
+  holdFrames: number;
+}
+
+// What features depend on besides the landmarks: the frame's aspect ratio
+// (width / height) and how the camera and signer are set up
+export interface CameraOptions {
+  aspect: number;
+  mirroredCamera: boolean;
+  dominantHand: Handedness;
+}
+
+export type RecognitionEvent =
+  // The best matches for a frame, when the first is confident
+  | { type: 'predictions'; predictions: Prediction[] }
+  // A sign, or a fingerspelled word, joins the sentence. `startsSentence`
+  // when it follows a closed sentence and so replaces it.
+  | { type: 'word'; label: string; startsSentence: boolean }
+  // The letters of the word being fingerspelled so far
+  | { type: 'letters'; letters: string; startsSentence: boolean };
+
+// Raw confidence of every sign for a frame: the classifiers for static
+// signs, time-warping over the motion buffer for motion signs. The costly
+// part of recognition, so it can run elsewhere, e.g. in a worker.
+export interface SignScorer {
+  train(signs: CustomSign[]): Promise<void>;
+  setClassifier(id: ClassifierId): void;
+  // Only the alphabet while fingerspelling, only words otherwise
+  score(frame: HandFrame, buffer: HandFrame[], spelling: boolean): Prediction[];
+}
+
+export const createSignScorer = (classifierId: ClassifierId): SignScorer => {
+  let signs: CustomSign[] = [];
+  let classifier: SignClassifier = createClassifier(classifierId);
+  // Fingerspelling has its own classifier, trained on the alphabet only
+  let letterClassifier: SignClassifier = createClassifier(classifierId);
+  return {
+    train: async (library) => {
+      signs = library;
+      const staticSigns = library.filter(s => !isMotionSign(s));
+      await Promise.all([
+        classifier.train(wordSigns(staticSigns)),
+        letterClassifier.train(staticSigns.filter(isLetterSign))
+      ]);
+    },
+    setClassifier: (id) => {
+      if (classifier.id !== id) classifier = createClassifier(id);
+      if (letterClassifier.id !== id) letterClassifier = createClassifier(id);
+    },
+    score: (frame, buffer, spelling) => {
+      const motionMatches: Prediction[] = signs.filter(s => isMotionSign(s) && isLetterSign(s) === spelling).map(sign => ({
+        label: sign.label,
+        confidence: (sign.sequences || []).reduce((best, sequence) => Math.max(best, matchMotion(buffer, sequence, calculateSimilarity)), 0)
+      }));
+      return [...(spelling ? letterClassifier : classifier).classify(frame), ...motionMatches];
+    }
+  };
+};
+
+export interface RecognitionEngine {
+  // Features of the dominant (and other) hand in a MediaPipe result, kept in
+  // the motion buffer; null when no hand is in view. `t` is in ms.
+  track(results: any, t: number, camera: CameraOptions): HandFrame | null;
+  // Recognizes the latest tracked frame (null for a frame without hands).
+  // A sign is committed once it has been the confident best match for
+  // holdFrames frames in a row, and again only after the hand has rested
+  // or moved on to something else.
+  // `scores` are the frame's raw scores when they were worked out elsewhere;
+  // without them the engine's own scorer is used.
+  recognize(frame: HandFrame | null, t: number, scores?: Prediction[]): RecognitionEvent[];
+  // track and recognize in one
+  push(results: any, t: number, camera: CameraOptions): { frame: HandFrame | null; events: RecognitionEvent[] };
+  // Recent frames, for matching motion
+  readonly motionBuffer: HandFrame[];
+  // Forgets buffered motion once it has been used, so it isn't matched twice
+  consumeMotion(): void;
+  // Counts consumeMotion calls (and resets), so a copy of the buffer kept
+  // elsewhere can be cleared to match
+  readonly motionEpoch: number;
+  // Takes a new library, and retrains the engine's own scorer if it has one
+  train(signs: CustomSign[]): Promise<void>;
+  setClassifier(id: ClassifierId): void;
+  setOptions(options: RecognitionOptions): void;
+  // While fingerspelling only the alphabet is recognized, and only words
+  // otherwise. Switching off ends the word being spelled.
+  setSpelling(spelling: boolean): RecognitionEvent[];
+  readonly isSpelling: boolean;
+  // The sentence has been translated; the next word starts a new one
+  closeSentence(): void;
+  readonly isSentenceClosed: boolean;
+  // The sign being held and for how many frames, with null for rest: no
+  // hand, or nothing confident (e.g. moving between signs)
+  readonly held: HeldSign;
+  // Forgets the sentence, the word being spelled and buffered motion
+  reset(): void;
+}
+
+export interface HeldSign {
+  label: string | null;
+  frames: number;
+}
+
+export interface RecognitionEngineConfig {
+  classifierId: ClassifierId;
+  // Set to null when every frame's scores will be passed to recognize
+  scorer?: SignScorer | null;
+  options: RecognitionOptions;
+  // Biases close calls towards signs that fit the conversation; read on
+  // every frame, so the engine behind it can be swapped
+  context?: () => Pick<ContextEngine, 'prior'> | null;
+}
+
+// Turns MediaPipe hand landmarks into predictions and committed words, given
+// a sign library. Works on plain data with no DOM, so it runs the same in
+// the app, a worker or Node.
+export const createRecognitionEngine = (config: RecognitionEngineConfig): RecognitionEngine => {
+  let options = config.options;
+  let signs: CustomSign[] = [];
+  let motionLabels = new Set<string>();
+  const scorer = config.scorer === undefined ? createSignScorer(config.classifierId) : config.scorer;
+  let spelling = false;
+  const segmenter: LetterSegmenter = createLetterSegmenter();
+  const buffer: HandFrame[] = [];
+  let motionEpoch = 0;
+  let sentenceClosed = false;
+  // Last word added to the sentence, for the context bias
+  let lastWord: string | null = null;
+  // Smoothed confidence of each sign over recent frames
+  let smoothed = new Map<string, number>();
+  let held: HeldSign = { label: null, frames: 0 };
+  // The sign committed last, until the hand has let go of it
+  let latched: string | null = null;
+
+  const startWord = () => {
+    const startsSentence = sentenceClosed;
+    sentenceClosed = false;
+    if (startsSentence) lastWord = null;
+    return startsSentence;
+  };
+
+  const addWord = (label: string): RecognitionEvent[] => {
+    const startsSentence = startWord();
+    lastWord = label;
+    return [{ type: 'word', label, startsSentence }];
+  };
+
+  const fromSpelling = (events: SpellingEvent[]): RecognitionEvent[] => events.flatMap(event =>
+    event.type === 'word'
+      ? addWord(spelledGloss(event.word, signs))
+      : [{ type: 'letters' as const, letters: event.letters, startsSentence: startWord() }]
+  );
+
+  // Feeds one frame's best letter to the segmenter. Motion letters (J, Z)
+  // are only matched once their movement is over, so they count at once.
+  const spellFrame = (t: number, frame: HandFrame | null, top: Prediction | null) => {
+    const sign = top ? signs.find(s => s.label === top.label) : undefined;
+    const moving = !!sign && isMotionSign(sign);
+    const events = segmenter.push({ t, letter: top ? unspell(top.label) : null, moving, wrist: frame?.wrist, scale: frame?.scale });
+    // A committed motion must not be matched again from the same frames
+    if (moving && events.some(e => e.type === 'letter')) consumeMotion();
+    return fromSpelling(events);
+  };
+
+  const consumeMotion = () => {
+    buffer.length = 0;
+    motionEpoch++;
+  };
+
+  // Signs that fit the conversation so far win close calls; unlikely ones
+  // need a clearer shape
+  const rank = (scores: Prediction[]) => {
+    const candidates = scores.filter(p => p.confidence > options.candidateThreshold);
+    const previous = sentenceClosed ? null : lastWord;
+    const context = spelling ? null : config.context?.();
+    const bias = context ? context.prior(previous, candidates.map(p => p.label)) : new Map<string, number>();
+    return candidates
+      .map(p => ({ ...p, confidence: Math.min(1, Math.max(0, p.confidence + options.contextWeight * (bias.get(p.label) || 0))) }))
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, MAX_PREDICTIONS);
+  };
+
+  // Averages each static sign's confidence over recent frames. Motion
+  // matches already cover a stretch of frames and peak as the movement ends,
+  // so they're used as they are.
+  const smooth = (scores: Prediction[]) => {
+    const next = new Map<string, number>();
+    const result = scores.map(p => {
+      if (motionLabels.has(p.label)) return p;
+      const confidence = (smoothed.get(p.label) ?? p.confidence) * (1 - SMOOTHING) + p.confidence * SMOOTHING;
+      next.set(p.label, confidence);
+      return { label: p.label, confidence };
+    });
+    smoothed = next;
+    return result;
+  };
+
+  // What the hand is doing this frame: the held sign while it stays close
+  // to the commit confidence, a new sign once one is confident, rest otherwise
+  const decide = (predictions: Prediction[]) => {
+    const current = held.label && predictions.find(p => p.label === held.label);
+    const top = predictions[0];
+    if (top && top.confidence > options.confidenceThreshold && top.label !== held.label) return top.label;
+    if (current && current.confidence > options.confidenceThreshold - HYSTERESIS) return current.label;
+    return null;
+  };
+
+  const hold = (label: string | null) => {
+    held = label === held.label ? { label, frames: held.frames + 1 } : { label, frames: 1 };
+    if (latched && held.label !== latched && held.frames >= RELEASE_FRAMES) latched = null;
+  };
+
+  const track = (results: any, t: number, camera: CameraOptions) => {
+    const handData = processHands(results, camera.dominantHand, { aspect: camera.aspect, mirroredCamera: camera.mirroredCamera });
+    if (!handData) return null;
+    const frame: HandFrame = { t, ...handData };
+    bufferFrame(buffer, frame);
+    return frame;
+  };
+
+  const recognize = (frame: HandFrame | null, t: number, scores?: Prediction[]): RecognitionEvent[] => {
+    // Lowering the hand separates double letters and lets the word end
+    if (!frame) {
+      smoothed = new Map();
+      hold(null);
+      return spelling ? spellFrame(t, null, null) : [];
+    }
+
+    const raw = scores ?? scorer?.score(frame, buffer, spelling) ?? [];
+    // The segmenter does its own holding, so letters aren't smoothed
+    if (spelling) {
+      const predictions = rank(raw);
+      const isConfident = predictions.length > 0 && predictions[0].confidence > options.confidenceThreshold;
+      const events: RecognitionEvent[] = isConfident ? [{ type: 'predictions', predictions }] : [];
+      return [...events, ...spellFrame(t, frame, isConfident ? predictions[0] : null)];
+    }
+
+    const predictions = rank(smooth(raw));
+    const label = decide(predictions);
+    hold(label);
+    const events: RecognitionEvent[] = label ? [{ type: 'predictions', predictions }] : [];
+    if (!label || label === latched) return events;
+    // Motions are only matched once their movement is over, so they count at once
+    const moving = motionLabels.has(label);
+    if (!moving && held.frames < options.holdFrames) return events;
+    events.push(...addWord(label));
+    latched = label;
+    // A committed motion must not be matched again from the same frames
+    if (moving) consumeMotion();
+    return events;
+  };
+
+  return {
+    track,
+    recognize,
+    push: (results, t, camera) => {
+      const frame = track(results, t, camera);
+      return { frame, events: recognize(frame, t) };
+    },
+    motionBuffer: buffer,
+    consumeMotion,
+    get motionEpoch() { return motionEpoch; },
+    train: async (library) => {
+      signs = library;
+      motionLabels = new Set(library.filter(isMotionSign).map(s => s.label));
+      await scorer?.train(library);
+    },
+    setClassifier: (id) => scorer?.setClassifier(id),
+    setOptions: (next) => { options = next; },
+    setSpelling: (next) => {
+      if (next === spelling) return [];
+      spelling = next;
+      smoothed = new Map();
+      held = { label: null, frames: 0 };
+      latched = null;
+      if (next) {
+        segmenter.reset();
+        return [];
+      }
+      return fromSpelling(segmenter.flush());
+    },
+    get isSpelling() { return spelling; },
+    closeSentence: () => { sentenceClosed = true; },
+    get isSentenceClosed() { return sentenceClosed; },
+    get held() { return held; },
+    reset: () => {
+      segmenter.reset();
+      consumeMotion();
+      sentenceClosed = false;
+      lastWord = null;
+      smoothed = new Map();
+      held = { label: null, frames: 0 };
+      latched = null;
+    }
+  };
+};
@@ -0,0 +1,238 @@
+import { CustomSign, HandFrame, Prediction } from '../types.ts';
+import { ClassifierId } from './classifiers.ts';
+import { CameraOptions, createRecognitionEngine, createSignScorer, RecognitionEngine, RecognitionEngineConfig, RecognitionEvent, SignScorer } from './recognition.ts';
+
+// Messages to and from utils/recognitionWorker.ts. Every tracked frame is
+// sent so the worker's motion buffer matches ours; only frames with `score`
+// set are scored and answered. `epoch` is the engine's motionEpoch.
+export type WorkerRequest =
+  | { type: 'classifier'; classifierId: ClassifierId }
+  | { type: 'train'; id: number; signs: CustomSign[] }
+  | { type: 'frame'; id: number; frame: HandFrame; epoch: number; score: boolean; spelling: boolean };
+
+export type WorkerReply =
+  | { type: 'trained'; id: number }
+  | { type: 'scores'; id: number; scores: Prediction[]; ms: number }
+  | { type: 'error'; id: number; message: string };
+
+// Frames per second the camera delivered over the last second, how long
+// from a frame arriving to it being recognized and how much of that was
+// scoring, and the share of frames not scored because scoring was behind
+export interface FrameStats {
+  fps: number;
+  latencyMs: number;
+  scoringMs: number;
+  skipped: number;
+}
+
+export interface RecognitionPipeline {
+  readonly engine: RecognitionEngine;
+  // Whether scoring runs off the main thread. It moves back onto it for
+  // good if the worker fails.
+  readonly inWorker: boolean;
+  // Tracks a MediaPipe result at once and returns its frame; recognition
+  // events follow through onEvents once the frame has been scored
+  push(results: any, t: number, camera: CameraOptions): HandFrame | null;
+  train(signs: CustomSign[]): Promise<void>;
+  setClassifier(id: ClassifierId): void;
+  // Adaptive (the default) skips scoring frames that arrive while the
+  // worker is still busy, so recognition keeps up with the camera instead
+  // of falling behind. Otherwise every frame is scored, in order, which
+  // replays need to come out the same every time.
+  setAdaptive(adaptive: boolean): void;
+  // Resolves once every frame pushed so far has been recognized
+  idle(): Promise<void>;
+  stats(): FrameStats;
+  // Stops the worker. Using the pipeline again starts a new one with the
+  // same library, so a component that mounts twice can keep one pipeline.
+  dispose(): void;
+}
+
+export interface RecognitionPipelineConfig extends RecognitionEngineConfig {
+  onEvents: (events: RecognitionEvent[]) => void;
+}
+
+const STATS_WINDOW_MS = 1000;
+// Weight of the newest sample in the latency averages
+const SMOOTHING = 0.2;
+
+const openWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./recognitionWorker.ts', import.meta.url), { type: 'module' });
+  } catch (err) {
+    console.error('Recognition worker unavailable, scoring on the main thread:', err);
+    return null;
+  }
+};
+
+interface Job {
+  // Null frames (no hand) aren't sent; they wait their turn behind scored ones
+  id: number | null;
+  frame: HandFrame | null;
+  t: number;
+  arrivedAt: number;
+}
+
+// Runs the recognition engine with scoring in a Web Worker where there is
+// one, and in-process otherwise (e.g. in Node)
+export const createRecognitionPipeline = (config: RecognitionPipelineConfig): RecognitionPipeline => {
+  // Scores are always passed in: from the worker, or from `local`
+  const engine = createRecognitionEngine({ ...config, scorer: null });
+  let worker: Worker | null = null;
+  // Set once the worker can't be used; scoring stays in-process from then on
+  let local: SignScorer | null = null;
+  let localTraining: Promise<void> = Promise.resolve();
+  let library: CustomSign[] = [];
+  let classifierId = config.classifierId;
+  let adaptive = true;
+  let nextId = 0;
+  // Sent frames awaiting scores, in order, with no-hand frames between them
+  const waiting: Job[] = [];
+  const trainings = new Map<number, () => void>();
+  let idlers: (() => void)[] = [];
+
+  const arrivals: { at: number; skipped: boolean }[] = [];
+  let latencyMs = 0;
+  let scoringMs = 0;
+  const average = (current: number, sample: number) => current ? current + SMOOTHING * (sample - current) : sample;
+
+  const send = (request: WorkerRequest) => worker!.postMessage(request);
+
+  const deliver = (job: Job, scores?: Prediction[]) => {
+    config.onEvents(engine.recognize(job.frame, job.t, scores ?? []));
+    latencyMs = average(latencyMs, performance.now() - job.arrivedAt);
+  };
+
+  // No-hand frames queued behind the frame just answered
+  const drainEmpty = () => {
+    while (waiting.length > 0 && waiting[0].id === null) deliver(waiting.shift()!);
+    if (waiting.length > 0) return;
+    idlers.forEach(resolve => resolve());
+    idlers = [];
+  };
+
+  // Lets go of the worker: frames it still owed are recognized unscored,
+  // and trainings waiting on it are resolved once `trained` is
+  const release = (trained: Promise<void>) => {
+    worker?.terminate();
+    worker = null;
+    waiting.splice(0).forEach(job => deliver(job, []));
+    drainEmpty();
+    const pending = [...trainings.values()];
+    trainings.clear();
+    trained.then(() => pending.forEach(resolve => resolve()));
+  };
+
+  const fallBack = (reason?: unknown) => {
+    if (reason) console.error('Recognition worker failed, scoring on the main thread:', reason);
+    local = createSignScorer(classifierId);
+    localTraining = local.train(library).catch(err => console.error('Classifier training failed:', err));
+    release(localTraining);
+  };
+
+  const onReply = (reply: WorkerReply) => {
+    if (reply.type === 'error') console.error('Recognition worker error:', reply.message);
+    const training = trainings.get(reply.id);
+    if (training) {
+      trainings.delete(reply.id);
+      training();
+      return;
+    }
+    if (reply.type === 'trained') return;
+    const index = waiting.findIndex(job => job.id === reply.id);
+    if (index < 0) return;
+    // Anything ahead of it was lost with an error; recognize it unscored
+    waiting.splice(0, index).forEach(job => deliver(job, []));
+    const job = waiting.shift()!;
+    if (reply.type === 'scores') scoringMs = average(scoringMs, reply.ms);
+    deliver(job, reply.type === 'scores' ? reply.scores : []);
+    drainEmpty();
+  };
+
+  const trainWorker = (signs: CustomSign[]) => new Promise<void>(resolve => {
+    const id = ++nextId;
+    trainings.set(id, resolve);
+    send({ type: 'train', id, signs });
+  });
+
+  // The worker in use, started (again after dispose) with the current
+  // classifier and library; null when scoring in-process
+  const connect = (): Worker | null => {
+    if (worker || local) return worker;
+    worker = openWorker();
+    if (!worker) {
+      fallBack();
+      return null;
+    }
+    // Ignore anything from a worker already let go of
+    const opened = worker;
+    opened.onmessage = (e: MessageEvent<WorkerReply>) => { if (worker === opened) onReply(e.data); };
+    opened.onerror = (e) => {
+      e.preventDefault();
+      if (worker === opened) fallBack(e.message || 'worker error');
+    };
+    opened.onmessageerror = () => { if (worker === opened) fallBack('unreadable message from worker'); };
+    send({ type: 'classifier', classifierId });
+    if (library.length > 0) trainWorker(library);
+    return worker;
+  };
+  connect();
+
+  return {
+    engine,
+    get inWorker() { return !!worker; },
+    push: (results, t, camera) => {
+      const arrivedAt = performance.now();
+      const frame = engine.track(results, t, camera);
+      const scoring = connect();
+      const skipped = !!scoring && !!frame && adaptive && waiting.length > 0;
+      arrivals.push({ at: arrivedAt, skipped });
+      while (arrivals.length > 0 && arrivedAt - arrivals[0].at > STATS_WINDOW_MS) arrivals.shift();
+
+      const job: Job = { id: null, frame, t, arrivedAt };
+      if (!scoring) {
+        deliver(job, frame && local ? local.score(frame, engine.motionBuffer, engine.isSpelling) : []);
+        if (frame) scoringMs = average(scoringMs, performance.now() - arrivedAt);
+        return frame;
+      }
+      if (!frame) {
+        if (waiting.length > 0) waiting.push(job);
+        else deliver(job);
+        return frame;
+      }
+      const id = ++nextId;
+      send({ type: 'frame', id, frame, epoch: engine.motionEpoch, score: !skipped, spelling: engine.isSpelling });
+      if (!skipped) waiting.push({ ...job, id });
+      return frame;
+    },
+    train: async (signs) => {
+      const scoring = connect();
+      library = signs;
+      await engine.train(signs);
+      if (!scoring) {
+        localTraining = local!.train(signs);
+        return localTraining;
+      }
+      await trainWorker(signs);
+    },
+    setClassifier: (id) => {
+      classifierId = id;
+      local?.setClassifier(id);
+      if (worker) send({ type: 'classifier', classifierId: id });
+    },
+    setAdaptive: (next) => { adaptive = next; },
+    idle: () => waiting.length === 0 ? Promise.resolve() : new Promise<void>(resolve => idlers.push(resolve)),
+    stats: () => {
+      const now = performance.now();
+      const recent = arrivals.filter(a => now - a.at <= STATS_WINDOW_MS);
+      return {
+        fps: recent.length * 1000 / STATS_WINDOW_MS,
+        latencyMs,
+        scoringMs,
+        skipped: recent.length > 0 ? recent.filter(a => a.skipped).length / recent.length : 0
+      };
+    },
+    dispose: () => release(Promise.resolve())
+  };
+};
@@ -0,0 +1,51 @@
+import { HandFrame } from '../types.ts';
+import { bufferFrame } from './motion.ts';
+import { createSignScorer } from './recognition.ts';
+import type { WorkerReply, WorkerRequest } from './recognitionPipeline.ts';
+
+// Worker side of utils/recognitionPipeline.ts: keeps a trained SignScorer
+// and its own copy of the motion buffer, and scores the frames it is asked to.
+
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(reply: WorkerReply): void;
+};
+
+const scorer = createSignScorer('matcher');
+const buffer: HandFrame[] = [];
+let epoch = 0;
+
+// Messages are handled in order, so a frame is never scored against a
+// library older than the last one sent
+let queue = Promise.resolve();
+
+const handle = async (request: WorkerRequest) => {
+  switch (request.type) {
+    case 'classifier':
+      scorer.setClassifier(request.classifierId);
+      return;
+    case 'train':
+      await scorer.train(request.signs);
+      scope.postMessage({ type: 'trained', id: request.id });
+      return;
+    case 'frame': {
+      // The main thread consumed its buffer since the last frame
+      if (request.epoch !== epoch) {
+        buffer.length = 0;
+        epoch = request.epoch;
+      }
+      bufferFrame(buffer, request.frame);
+      if (!request.score) return;
+      const started = performance.now();
+      const scores = scorer.score(request.frame, buffer, request.spelling);
+      scope.postMessage({ type: 'scores', id: request.id, scores, ms: performance.now() - started });
+    }
+  }
+};
+
+scope.onmessage = (e) => {
+  queue = queue.then(() => handle(e.data)).catch(err => {
+    console.error('Recognition worker failed:', err);
+    scope.postMessage({ type: 'error', id: 'id' in e.data ? e.data.id : -1, message: String(err?.message || err) });
+  });
+};
@@ -0,0 +1,268 @@
+import { createBlob } from './audio.ts';
+
+export type RecognizerId = 'browser' | 'stream';
+
+// A piece of recognized speech. Interim text replaces the previous interim
+// text; final text is settled and the next segment starts fresh.
+export interface TranscriptEvent {
+  text: string;
+  isFinal: boolean;
+}
+
+export interface RecognizerHandlers {
+  onTranscript(event: TranscriptEvent): void;
+  onActiveChange(active: boolean): void;
+  onError(message: string): void;
+}
+
+// A speech-to-text backend. Once started it keeps listening, recovering
+// from dropouts by itself, until `stop` is called.
+export interface SpeechRecognizer {
+  readonly id: RecognizerId;
+  readonly name: string;
+  isAvailable(): boolean;
+  start(lang: string): Promise<void>;
+  stop(): void;
+}
+
+export const RECOGNIZER_OPTIONS: { id: RecognizerId; name: string }[] = [
+  { id: 'browser', name: 'Browser' },
+  { id: 'stream', name: 'Streaming' }
+];
+
+export const DEFAULT_RECOGNITION_LANG = 'en-US';
+
+// Restarts after failures wait this long, doubling up to the maximum
+const RETRY_MS = 500;
+const MAX_RETRY_MS = 8000;
+// Errors the browser won't recover from by trying again
+const FATAL_ERRORS = new Set(['not-allowed', 'service-not-allowed', 'language-not-supported']);
+
+const browserRecognition = () =>
+  typeof window === 'undefined' ? null : (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition || null;
+
+const streamingSupported = () => typeof AudioWorkletNode !== 'undefined' && typeof WebSocket !== 'undefined';
+
+export const isRecognizerAvailable = (id: RecognizerId) =>
+  id === 'stream' ? !!import.meta.env.VITE_STT_URL && streamingSupported() : !!browserRecognition();
+
+// The Web Speech API (Chrome, Edge, Safari). It ends by itself after
+// silence or network hiccups, so it is restarted until stopped, backing off
+// when restarts keep failing.
+export const createBrowserRecognizer = (handlers: RecognizerHandlers): SpeechRecognizer => {
+  let rec: any = null;
+  let running = false;
+  let retryMs = RETRY_MS;
+  let retryTimer: number | null = null;
+
+  const restart = () => {
+    if (!running || retryTimer !== null) return;
+    retryTimer = window.setTimeout(() => {
+      retryTimer = null;
+      if (!running) return;
+      try {
+        rec.start();
+      } catch (e) {
+        // Already started
+      }
+    }, retryMs);
+    retryMs = Math.min(MAX_RETRY_MS, retryMs * 2);
+  };
+
+  return {
+    id: 'browser',
+    name: 'Browser',
+    isAvailable: () => !!browserRecognition(),
+    start: async (lang) => {
+      const SR = browserRecognition();
+      if (!SR) throw new Error('Speech recognition is not supported in this browser');
+      if (running) return;
+      running = true;
+      retryMs = RETRY_MS;
+      rec = new SR();
+      rec.continuous = true;
+      rec.interimResults = true;
+      rec.lang = lang;
+      rec.onstart = () => handlers.onActiveChange(true);
+      rec.onresult = (e: any) => {
+        retryMs = RETRY_MS;
+        let interim = '';
+        for (let i = e.resultIndex; i < e.results.length; ++i) {
+          const transcript = e.results[i][0].transcript;
+          if (e.results[i].isFinal) handlers.onTranscript({ text: transcript, isFinal: true });
+          else interim += transcript;
+        }
+        if (interim) handlers.onTranscript({ text: interim, isFinal: false });
+      };
+      rec.onerror = (e: any) => {
+        if (e.error === 'no-speech' || e.error === 'aborted') return;
+        handlers.onError(e.error);
+        if (FATAL_ERRORS.has(e.error)) running = false;
+      };
+      rec.onend = () => {
+        handlers.onActiveChange(false);
+        restart();
+      };
+      rec.start();
+    },
+    stop: () => {
+      running = false;
+      if (retryTimer !== null) clearTimeout(retryTimer);
+      retryTimer = null;
+      rec?.stop();
+    }
+  };
+};
+
+// Audio is sent at 16 kHz, in chunks of this length
+const STREAM_SAMPLE_RATE = 16000;
+const CHUNK_MS = 100;
+
+// Downmixes the microphone to mono, resamples it to 16 kHz by averaging and
+// posts fixed-size Float32 chunks to the main thread
+const CAPTURE_WORKLET = `
+class PcmCapture extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.ratio = sampleRate / options.processorOptions.targetRate;
+    this.chunk = new Float32Array(options.processorOptions.chunkSize);
+    this.filled = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.position = 0;
+  }
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+    const frames = input[0].length;
+    for (let i = 0; i < frames; i++) {
+      let sample = 0;
+      for (let c = 0; c < input.length; c++) sample += input[c][i];
+      this.sum += sample / input.length;
+      this.count++;
+      this.position++;
+      if (this.position >= this.ratio) {
+        this.position -= this.ratio;
+        this.chunk[this.filled++] = this.sum / this.count;
+        this.sum = 0;
+        this.count = 0;
+        if (this.filled === this.chunk.length) {
+          this.port.postMessage(this.chunk.slice());
+          this.filled = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCapture);
+`;
+
+// Streams microphone audio over a WebSocket, in the style of the Gemini
+// Live API, to the server at VITE_STT_URL (scripts/mock-stt.mjs for
+// offline testing). The client sends
+//   { setup: { languageCode, sampleRate } }
+//   { realtimeInput: { audio: { data, mimeType } } }   (base64 16-bit PCM)
+//   { realtimeInput: { audioStreamEnd: true } }
+// and the server answers with { setupComplete: {} } and
+//   { serverContent: { inputTranscription: { text, finished } } }
+// where `finished` marks the segment's text as final. Dropped connections
+// are reopened while the recognizer runs.
+export const createStreamingRecognizer = (handlers: RecognizerHandlers, url = import.meta.env.VITE_STT_URL || ''): SpeechRecognizer => {
+  let running = false;
+  let lang = DEFAULT_RECOGNITION_LANG;
+  let socket: WebSocket | null = null;
+  let stream: MediaStream | null = null;
+  let context: AudioContext | null = null;
+  let retryMs = RETRY_MS;
+  let retryTimer: number | null = null;
+
+  const connect = () => {
+    const ws = new WebSocket(url);
+    socket = ws;
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ setup: { languageCode: lang, sampleRate: STREAM_SAMPLE_RATE } }));
+    };
+    ws.onmessage = (e) => {
+      let message: any;
+      try {
+        message = JSON.parse(e.data);
+      } catch (err) {
+        return;
+      }
+      if (message.setupComplete) {
+        retryMs = RETRY_MS;
+        handlers.onActiveChange(true);
+      }
+      const transcription = message.serverContent?.inputTranscription;
+      if (transcription?.text) handlers.onTranscript({ text: transcription.text, isFinal: !!transcription.finished });
+      if (message.error) handlers.onError(message.error.message || 'Speech server error');
+    };
+    ws.onerror = () => handlers.onError('Speech server connection failed');
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      handlers.onActiveChange(false);
+      if (!running) return;
+      retryTimer = window.setTimeout(() => {
+        retryTimer = null;
+        if (running) connect();
+      }, retryMs);
+      retryMs = Math.min(MAX_RETRY_MS, retryMs * 2);
+    };
+  };
+
+  const release = () => {
+    stream?.getTracks().forEach(t => t.stop());
+    stream = null;
+    context?.close().catch(() => {});
+    context = null;
+  };
+
+  return {
+    id: 'stream',
+    name: 'Streaming',
+    isAvailable: () => !!url && streamingSupported(),
+    start: async (language) => {
+      if (!url) throw new Error('VITE_STT_URL is not set');
+      if (running) return;
+      running = true;
+      lang = language;
+      retryMs = RETRY_MS;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true } });
+        context = new AudioContext();
+        const module = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: 'application/javascript' }));
+        await context.audioWorklet.addModule(module);
+        URL.revokeObjectURL(module);
+        // No outputs: the node is a sink and runs without being connected onwards
+        const capture = new AudioWorkletNode(context, 'pcm-capture', {
+          numberOfOutputs: 0,
+          processorOptions: { targetRate: STREAM_SAMPLE_RATE, chunkSize: STREAM_SAMPLE_RATE * CHUNK_MS / 1000 }
+        });
+        capture.port.onmessage = (e: MessageEvent<Float32Array>) => {
+          if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ realtimeInput: { audio: createBlob(e.data) } }));
+        };
+        context.createMediaStreamSource(stream).connect(capture);
+        await context.resume();
+      } catch (err) {
+        running = false;
+        release();
+        throw err;
+      }
+      if (!running) return release();
+      connect();
+    },
+    stop: () => {
+      running = false;
+      if (retryTimer !== null) clearTimeout(retryTimer);
+      retryTimer = null;
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ realtimeInput: { audioStreamEnd: true } }));
+      socket?.close();
+      release();
+    }
+  };
+};
+
+export const createRecognizer = (id: RecognizerId, handlers: RecognizerHandlers): SpeechRecognizer =>
+  id === 'stream' ? createStreamingRecognizer(handlers) : createBrowserRecognizer(handlers);
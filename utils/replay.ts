@@ -0,0 +1,89 @@
+import { RecordedSession, toResults } from '../storage/sessionFile.ts';
+
+// Playback rate; 'max' feeds frames as fast as recognition keeps up
+export type ReplaySpeed = 1 | 2 | 4 | 'max';
+export const REPLAY_SPEEDS: ReplaySpeed[] = [1, 2, 4, 'max'];
+
+export interface SessionReplay {
+  stop(): void;
+  // Resolves true once every frame has been fed, false if stopped first
+  done: Promise<boolean>;
+}
+
+// Feeds a recorded session to `onFrame` in the shape of MediaPipe results,
+// keeping the recorded spacing between frames (divided by `speed`). Frame
+// times are passed on shifted to the present, so everything that measures
+// time from frame to frame sees exactly the recorded timing at any speed.
+// Timers that run on the wall clock, like the sentence pause, only match at
+// speed 1; compare faster replays with `bySentence` off.
+export const replaySession = (
+  session: RecordedSession,
+  onFrame: (results: any, t: number) => void,
+  speed: ReplaySpeed = 1
+): SessionReplay => {
+  const base = Date.now();
+  let index = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let finish: (completed: boolean) => void = () => {};
+  const done = new Promise<boolean>(resolve => { finish = resolve; });
+
+  const step = () => {
+    const frame = session.frames[index++];
+    onFrame(toResults(frame, session.camera), base + frame.t);
+    const next = session.frames[index];
+    if (!next) {
+      timer = null;
+      finish(true);
+      return;
+    }
+    const delay = speed === 'max' ? 0 : Math.max(0, (base + next.t / speed) - Date.now());
+    timer = setTimeout(step, delay);
+  };
+  timer = setTimeout(step, 0);
+
+  return {
+    stop: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      finish(false);
+    },
+    done
+  };
+};
+
+// The distinct sentences a session produced, in order
+const sentenceLog = (session: RecordedSession) =>
+  session.sentences.map(s => s.gloss.join(' ')).filter((gloss, i, all) => gloss && gloss !== all[i - 1]);
+
+// Every sign the session committed, in order, wherever its sentences split.
+// The gloss only grows by a sign or starts over with a new sentence.
+const signLog = (session: RecordedSession) => {
+  const signs: string[] = [];
+  let previous: string[] = [];
+  session.sentences.forEach(({ gloss }) => {
+    const grew = gloss.length > previous.length && previous.every((sign, i) => gloss[i] === sign);
+    signs.push(...(grew ? gloss.slice(previous.length) : gloss));
+    previous = gloss;
+  });
+  return signs;
+};
+
+export interface ReplayComparison {
+  matches: boolean;
+  // The first sentence that came out differently, if any
+  expected?: string;
+  actual?: string;
+}
+
+// Whether replaying produced the sentences the recording did. Replays
+// faster than recorded end sentences after shorter pauses, so with
+// `bySentence` off only the signs are compared, and the first differing sign
+// is reported.
+export const compareSessions = (recorded: RecordedSession, replayed: RecordedSession, bySentence = true): ReplayComparison => {
+  const expected = bySentence ? sentenceLog(recorded) : signLog(recorded);
+  const actual = bySentence ? sentenceLog(replayed) : signLog(replayed);
+  const i = expected.findIndex((gloss, j) => actual[j] !== gloss);
+  if (i < 0 && actual.length === expected.length) return { matches: true };
+  const at = i < 0 ? expected.length : i;
+  return { matches: false, expected: expected[at] ?? '', actual: actual[at] ?? '' };
+};
@@ -0,0 +1,60 @@
+import { CustomSign, HandPose } from '../types.ts';
+import { calculateSimilarity } from './similarity.ts';
+
+// Similarity above which a new sample adds nothing to the sign's existing ones
+const DUPLICATE_SIMILARITY = 0.97;
+// MediaPipe's own confidence in a hand below which it is probably cut off or blurred
+const MIN_TRACKING_SCORE = 0.8;
+// Landmarks may sit this far outside the frame before the hand counts as cut off
+const FRAME_MARGIN = 0.01;
+
+export type SampleIssue =
+  | { type: 'noHand' }
+  | { type: 'partialHand' }
+  | { type: 'duplicate'; similarity: number }
+  // The sample looks more like another sign than the one it is for
+  | { type: 'confused'; label: string; similarity: number };
+
+// Whether every tracked hand is whole and confidently tracked in the
+// latest MediaPipe results
+export const isHandComplete = (results: any) => {
+  const hands: any[][] = results?.multiHandLandmarks || [];
+  const inFrame = (p: any) => p.x >= -FRAME_MARGIN && p.x <= 1 + FRAME_MARGIN && p.y >= -FRAME_MARGIN && p.y <= 1 + FRAME_MARGIN;
+  const confident = (results?.multiHandedness || []).every((h: any) => (h?.score ?? 1) >= MIN_TRACKING_SCORE);
+  return hands.length > 0 && confident && hands.every(marks => marks.every(inFrame));
+};
+
+// Whether the pose adds nothing over samples already saved
+export const isNearDuplicate = (pose: HandPose, samples: HandPose[]) =>
+  samples.some(sample => calculateSimilarity(pose, sample) >= DUPLICATE_SIMILARITY);
+
+const bestMatch = (pose: HandPose, sign: CustomSign) =>
+  sign.samples.reduce((best, sample) => Math.max(best, calculateSimilarity(pose, sample)), 0);
+
+// The most serious problem with a static sample about to be saved under
+// `label`, if any. `threshold` is the recognition confidence threshold: for
+// a new sign, a sample that another sign would already claim is flagged.
+export const checkSample = (
+  pose: HandPose | null,
+  isComplete: boolean,
+  label: string,
+  signs: CustomSign[],
+  threshold: number
+): SampleIssue | null => {
+  if (!pose) return { type: 'noHand' };
+  if (!isComplete) return { type: 'partialHand' };
+
+  const own = signs.find(s => s.label === label);
+  const ownSimilarity = own ? bestMatch(pose, own) : 0;
+  if (own && ownSimilarity >= DUPLICATE_SIMILARITY) return { type: 'duplicate', similarity: ownSimilarity };
+
+  let rival: { label: string; similarity: number } | null = null;
+  for (const sign of signs) {
+    if (sign === own || sign.samples.length === 0) continue;
+    const similarity = bestMatch(pose, sign);
+    if (similarity > (rival?.similarity ?? 0)) rival = { label: sign.label, similarity };
+  }
+  const bar = own && own.samples.length > 0 ? ownSimilarity : threshold;
+  if (rival && rival.similarity > bar) return { type: 'confused', ...rival };
+  return null;
+};
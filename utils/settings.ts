@@ -0,0 +1,133 @@
+import { Handedness } from '../types.ts';
+import { CLASSIFIER_OPTIONS, ClassifierId } from './classifiers.ts';
+import { CONTEXT_ENGINE_OPTIONS, ContextEngineId } from './context.ts';
+import { isGeminiConfigured } from './gemini.ts';
+import { browserLanguage, LANGUAGES, LanguageId } from './i18n.ts';
+import { isRecognizerAvailable, RECOGNIZER_OPTIONS, RecognizerId } from './recognizers.ts';
+import { TRANSLATOR_OPTIONS, TranslatorId } from './translators.ts';
+import { DEFAULT_SPEECH_SETTINGS, PITCH_RANGE, RATE_RANGE, SpeechSettings, TTS_PROVIDERS } from './tts.ts';
+
+// Everything that tunes recognition, input and output for one signer and
+// their setup. Stored in profiles, see storage/profileStore.ts.
+export interface Settings {
+  // A sign is committed above this confidence; weaker matches below the
+  // candidate threshold aren't shown at all
+  confidenceThreshold: number;
+  candidateThreshold: number;
+  // Most the conversation context can raise or lower a confidence
+  contextWeight: number;
+  // Frames a sign must be held steady before it is committed
+  holdFrames: number;
+  // How long predictions stay on screen
+  clearDelayMs: number;
+  // Signing pause after which the gloss is translated and spoken
+  sentencePauseMs: number;
+  // Silence after which heard speech starts a new utterance
+  transcriptResetMs: number;
+  // MediaPipe Hands detection and tracking confidence
+  minDetectionConfidence: number;
+  minTrackingConfidence: number;
+  // Video input device; null uses the browser's default camera
+  cameraId: string | null;
+  // For cameras that already deliver a mirrored (selfie) image
+  mirroredCamera: boolean;
+  dominantHand: Handedness;
+  classifierId: ClassifierId;
+  translatorId: TranslatorId;
+  contextEngineId: ContextEngineId;
+  recognizerId: RecognizerId;
+  // Language the hearing side speaks: speech recognition, the voice and the
+  // words signs are translated to. The interface has its own language.
+  language: LanguageId;
+  uiLanguage: LanguageId;
+  speech: SpeechSettings;
+}
+
+type NumericKey = { [K in keyof Settings]: Settings[K] extends number ? K : never }[keyof Settings];
+
+export interface NumericSetting {
+  key: NumericKey;
+  group: 'Recognition' | 'Timing' | 'Tracking';
+  min: number;
+  max: number;
+  step: number;
+  unit: '%' | 'ms' | 'frames';
+}
+
+// Bounds of each numeric setting, in the order the settings panel shows them.
+// Labels are the `setting.<key>` interface strings.
+export const NUMERIC_SETTINGS: NumericSetting[] = [
+  { key: 'confidenceThreshold', group: 'Recognition', min: 0.5, max: 0.95, step: 0.01, unit: '%' },
+  { key: 'candidateThreshold', group: 'Recognition', min: 0.2, max: 0.7, step: 0.01, unit: '%' },
+  { key: 'contextWeight', group: 'Recognition', min: 0, max: 0.15, step: 0.01, unit: '%' },
+  { key: 'holdFrames', group: 'Timing', min: 2, max: 20, step: 1, unit: 'frames' },
+  { key: 'clearDelayMs', group: 'Timing', min: 500, max: 5000, step: 100, unit: 'ms' },
+  { key: 'sentencePauseMs', group: 'Timing', min: 1000, max: 6000, step: 100, unit: 'ms' },
+  { key: 'transcriptResetMs', group: 'Timing', min: 1000, max: 6000, step: 100, unit: 'ms' },
+  { key: 'minDetectionConfidence', group: 'Tracking', min: 0.3, max: 0.95, step: 0.05, unit: '%' },
+  { key: 'minTrackingConfidence', group: 'Tracking', min: 0.3, max: 0.95, step: 0.05, unit: '%' }
+];
+
+const availableRecognizer = () => RECOGNIZER_OPTIONS.find(o => isRecognizerAvailable(o.id))?.id || 'browser';
+
+export const DEFAULT_SETTINGS: Settings = {
+  confidenceThreshold: 0.72,
+  candidateThreshold: 0.45,
+  contextWeight: 0.06,
+  holdFrames: 6,
+  clearDelayMs: 1500,
+  sentencePauseMs: 2500,
+  transcriptResetMs: 2000,
+  minDetectionConfidence: 0.8,
+  minTrackingConfidence: 0.8,
+  cameraId: null,
+  mirroredCamera: false,
+  dominantHand: 'Right',
+  classifierId: 'matcher',
+  translatorId: isGeminiConfigured() ? 'gemini' : 'rules',
+  contextEngineId: 'ngram',
+  recognizerId: availableRecognizer(),
+  language: browserLanguage(),
+  uiLanguage: browserLanguage(),
+  speech: DEFAULT_SPEECH_SETTINGS
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const oneOf = <T extends string>(value: unknown, options: { id: T }[], fallback: T): T =>
+  options.some(o => o.id === value) ? value as T : fallback;
+
+// Fills in missing or invalid fields (from older versions, other devices or
+// hand edits) and drops choices this setup can't use, such as Gemini
+// without a key
+export const normalizeSettings = (value: any): Settings => {
+  const raw = value && typeof value === 'object' ? value : {};
+  const settings: Settings = { ...DEFAULT_SETTINGS };
+  NUMERIC_SETTINGS.forEach(({ key, min, max }) => {
+    settings[key] = clamp(raw[key], min, max, DEFAULT_SETTINGS[key]);
+  });
+  settings.cameraId = typeof raw.cameraId === 'string' && raw.cameraId ? raw.cameraId : null;
+  settings.mirroredCamera = raw.mirroredCamera === true;
+  settings.dominantHand = raw.dominantHand === 'Left' ? 'Left' : 'Right';
+  settings.classifierId = oneOf(raw.classifierId, CLASSIFIER_OPTIONS, DEFAULT_SETTINGS.classifierId);
+  settings.translatorId = oneOf(raw.translatorId, TRANSLATOR_OPTIONS, DEFAULT_SETTINGS.translatorId);
+  settings.contextEngineId = oneOf(raw.contextEngineId, CONTEXT_ENGINE_OPTIONS, DEFAULT_SETTINGS.contextEngineId);
+  settings.recognizerId = oneOf(raw.recognizerId, RECOGNIZER_OPTIONS, DEFAULT_SETTINGS.recognizerId);
+  settings.language = oneOf(raw.language, LANGUAGES, DEFAULT_SETTINGS.language);
+  settings.uiLanguage = oneOf(raw.uiLanguage, LANGUAGES, DEFAULT_SETTINGS.uiLanguage);
+  if (!isGeminiConfigured()) {
+    settings.translatorId = 'rules';
+    settings.contextEngineId = 'ngram';
+  }
+  if (!isRecognizerAvailable(settings.recognizerId)) settings.recognizerId = availableRecognizer();
+
+  const speech = raw.speech && typeof raw.speech === 'object' ? raw.speech : {};
+  settings.speech = {
+    providerId: oneOf(speech.providerId, TTS_PROVIDERS, DEFAULT_SPEECH_SETTINGS.providerId),
+    voiceId: typeof speech.voiceId === 'string' ? speech.voiceId : null,
+    rate: clamp(speech.rate, RATE_RANGE.min, RATE_RANGE.max, DEFAULT_SPEECH_SETTINGS.rate),
+    pitch: clamp(speech.pitch, PITCH_RANGE.min, PITCH_RANGE.max, DEFAULT_SPEECH_SETTINGS.pitch)
+  };
+  return settings;
+};
@@ -0,0 +1,186 @@
+import { CustomSign } from '../types.ts';
+import { LanguageId } from './i18n.ts';
+
+export type MatchKind = 'exact' | 'stem' | 'synonym' | 'fuzzy';
+
+// One entry of the sign sequence for a piece of text: either a sign with the
+// words it covers, or a word no sign was found for
+export type SequenceItem =
+  | { type: 'sign'; sign: CustomSign; words: string[]; match: MatchKind }
+  | { type: 'unmatched'; word: string };
+
+// Words (or phrases) that should find each other's signs
+const SYNONYM_GROUPS = [
+  ['hello', 'hi', 'hey'],
+  ['goodbye', 'bye', 'see you'],
+  ['thank you', 'thanks', 'thank'],
+  ['yes', 'yeah', 'yep', 'ok', 'okay'],
+  ['no', 'nope'],
+  ['i', 'me'],
+  ['we', 'us'],
+  ['want', 'wish'],
+  ['like', 'enjoy'],
+  ['help', 'assist'],
+  ['friend', 'buddy', 'pal'],
+  ['mother', 'mom', 'mum'],
+  ['father', 'dad'],
+  ['toilet', 'bathroom', 'restroom'],
+  ['home', 'house'],
+  ['happy', 'glad'],
+  ['sad', 'unhappy'],
+  ['big', 'large'],
+  ['small', 'little'],
+  ['good', 'fine'],
+  ['sorry', 'apologize']
+];
+
+// Past tenses and plurals the suffix rules can't undo
+const IRREGULAR: Record<string, string> = {
+  went: 'go', gone: 'go', goes: 'go', ate: 'eat', eaten: 'eat', saw: 'see', seen: 'see', bought: 'buy',
+  brought: 'bring', came: 'come', did: 'do', does: 'do', done: 'do', drank: 'drink', felt: 'feel',
+  forgot: 'forget', gave: 'give', had: 'have', has: 'have', knew: 'know', made: 'make', met: 'meet',
+  paid: 'pay', said: 'say', slept: 'sleep', spoke: 'speak', took: 'take', taught: 'teach', told: 'tell',
+  thought: 'think', understood: 'understand', wrote: 'write', was: 'be', were: 'be', is: 'be', am: 'be',
+  are: 'be', children: 'child', men: 'man', women: 'woman', people: 'person', feet: 'foot', teeth: 'tooth'
+};
+
+// Short words are too easily confused to be matched approximately
+const MIN_FUZZY_LENGTH = 4;
+
+export const tokenize = (text: string) =>
+  text.toLowerCase().replace(/[_-]/g, ' ').replace(/[^\p{L}\p{N}'\s]/gu, ' ').split(/\s+/).filter(Boolean);
+
+// Light suffix stripping, enough to fold plurals, tenses and -ing forms
+export const stem = (word: string) => {
+  const w = word.replace(/'s$/, '');
+  if (IRREGULAR[w]) return IRREGULAR[w];
+  if (w.length <= 3) return w;
+  let s = w;
+  if (s.endsWith('ies') || s.endsWith('ied')) s = `${s.slice(0, -3)}y`;
+  // going → go, but thing and bring keep their -ing
+  else if (s.endsWith('ing') && s.length > 4 && /[aeiouy]/.test(s.slice(0, -3))) s = s.slice(0, -3);
+  else if (s.endsWith('ed') && s.length > 4) s = s.slice(0, -2);
+  else if (/(ches|shes|sses|xes|zes)$/.test(s)) s = s.slice(0, -2);
+  else if (s.endsWith('s') && !s.endsWith('ss') && !s.endsWith('us')) s = s.slice(0, -1);
+  // running → run, stopped → stop
+  if (s !== w && /([^aeiouls])\1$/.test(s)) s = s.slice(0, -1);
+  // liked / liking / like all become "lik"
+  if (s.length > 3 && s.endsWith('e')) s = s.slice(0, -1);
+  return s;
+};
+
+// Optimal string alignment distance: Levenshtein plus swaps of adjacent
+// letters ("wtaer" is 1 from "water"), with an early exit once `max` is
+// exceeded
+export const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let before: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  let prevBest = 0;
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) row[j] = Math.min(row[j], before[j - 2] + 1);
+      best = Math.min(best, row[j]);
+    }
+    // A swap reaches back two rows, so both must be past `max`
+    if (best > max && prevBest > max) return max + 1;
+    before = prev;
+    prev = row;
+    prevBest = best;
+  }
+  return prev[b.length];
+};
+
+const synonymsOf = (phrase: string) => SYNONYM_GROUPS.find(group => group.includes(phrase))?.filter(s => s !== phrase) || [];
+
+interface SignIndex {
+  exact: Map<string, CustomSign>;
+  stemmed: Map<string, CustomSign>;
+  longest: number;
+}
+
+// The sign's word in a spoken language, falling back to its label
+export const signWord = (sign: CustomSign, language: LanguageId) =>
+  sign.translations?.[language] || sign.label.toLowerCase().replace(/[-_]/g, ' ');
+
+// Label → word for every sign with a translation into `language`
+export const signLexicon = (signs: CustomSign[], language: LanguageId): Record<string, string> =>
+  Object.fromEntries(signs.filter(s => s.translations?.[language]).map(s => [s.label, s.translations![language]]));
+
+// Synonyms and the stemming rules are English. In other languages a sign is
+// found by its translation first and its (English) label second.
+const buildIndex = (signs: CustomSign[], language: LanguageId): SignIndex => {
+  const exact = new Map<string, CustomSign>();
+  const stemmed = new Map<string, CustomSign>();
+  let longest = 1;
+  const add = (sign: CustomSign, text: string) => {
+    const words = tokenize(text);
+    if (words.length === 0) return;
+    longest = Math.max(longest, words.length);
+    const key = words.join(' ');
+    if (!exact.has(key)) exact.set(key, sign);
+    const stemKey = words.map(stem).join(' ');
+    if (!stemmed.has(stemKey)) stemmed.set(stemKey, sign);
+  };
+  if (language !== 'en') signs.forEach(sign => sign.translations?.[language] && add(sign, sign.translations[language]));
+  signs.forEach(sign => add(sign, sign.label));
+  return { exact, stemmed, longest };
+};
+
+const lookupPhrase = (index: SignIndex, words: string[]): { sign: CustomSign; match: MatchKind } | null => {
+  const key = words.join(' ');
+  const exact = index.exact.get(key);
+  if (exact) return { sign: exact, match: 'exact' };
+  const stemmed = index.stemmed.get(words.map(stem).join(' '));
+  if (stemmed) return { sign: stemmed, match: 'stem' };
+  for (const synonym of synonymsOf(key)) {
+    const synonymWords = tokenize(synonym);
+    const sign = index.exact.get(synonymWords.join(' ')) || index.stemmed.get(synonymWords.map(stem).join(' '));
+    if (sign) return { sign, match: 'synonym' };
+  }
+  return null;
+};
+
+const lookupFuzzy = (index: SignIndex, word: string): CustomSign | null => {
+  if (word.length < MIN_FUZZY_LENGTH) return null;
+  let best: CustomSign | null = null;
+  let bestDistance = word.length <= 6 ? 1 : 2;
+  for (const [key, sign] of index.exact) {
+    if (key.includes(' ') || key.length < MIN_FUZZY_LENGTH) continue;
+    const distance = editDistance(word, key, bestDistance);
+    if (distance < bestDistance || (distance === bestDistance && !best)) {
+      best = sign;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+// Turns text into signs in spoken order. At each word the longest matching
+// label wins (so "thank you" beats "you"); each candidate is tried exactly,
+// then stemmed, then through synonyms, and single words finally by spelling.
+export const textToSigns = (text: string, signs: CustomSign[], language: LanguageId = 'en'): SequenceItem[] => {
+  const words = tokenize(text);
+  const index = buildIndex(signs, language);
+  const items: SequenceItem[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    let found: SequenceItem | null = null;
+    for (let n = Math.min(index.longest, words.length - i); n >= 1 && !found; n--) {
+      const phrase = words.slice(i, i + n);
+      const hit = lookupPhrase(index, phrase);
+      if (hit) found = { type: 'sign', sign: hit.sign, words: phrase, match: hit.match };
+    }
+    if (!found) {
+      const sign = lookupFuzzy(index, words[i]);
+      if (sign) found = { type: 'sign', sign, words: [words[i]], match: 'fuzzy' };
+    }
+    items.push(found || { type: 'unmatched', word: words[i] });
+    i += found && found.type === 'sign' ? found.words.length : 1;
+  }
+  return items;
+};
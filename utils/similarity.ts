@@ -0,0 +1,68 @@
+import { HandPose, HandShape } from '../types.ts';
+
+// Fingertips carry most of a handshape's identity, so they weigh more than joints
+const LANDMARK_WEIGHTS = [1, 1, 1, 1, 4, 1, 1, 1, 4, 1, 1, 1, 4, 1, 1, 1, 4, 1, 1, 1, 4];
+// Turns the mean weighted landmark distance (in palm lengths) into a 0..1 penalty
+const DISTANCE_SCALE = 2.2;
+const GEOMETRY_WEIGHT = 0.6;
+const ARTICULATION_WEIGHT = 0.3;
+const ORIENTATION_WEIGHT = 0.1;
+// Mean joint-angle difference (radians) at which articulation scores 0
+const ANGLE_RANGE = 1.2;
+// Difference in roll (radians) at which orientation scores 0
+const ROLL_RANGE = Math.PI / 2;
+
+// One-handed sign with a second, idle hand in view
+const EXTRA_HAND_FACTOR = 0.95;
+// Two-handed sign attempted with one hand
+const MISSING_HAND_FACTOR = 0.5;
+const PRIMARY_WEIGHT = 0.55;
+const SECONDARY_WEIGHT = 0.3;
+const PLACEMENT_WEIGHT = 0.15;
+// Offset between the wrists, in palm lengths, at which placement scores 0
+const PLACEMENT_RANGE = 3;
+
+// Geometry compares the rotation-aligned landmarks (in 3D when both sides have
+// depth), articulation the joint angles, and orientation the removed roll.
+export const shapeSimilarity = (live: HandShape, saved: HandShape) => {
+  let totalDist = 0;
+  let weightSum = 0;
+  for (let i = 0; i < 21; i++) {
+    const a = live.normalized[i];
+    const b = saved.normalized[i];
+    const dz = a.nz !== undefined && b.nz !== undefined ? a.nz - b.nz : 0;
+    const dist = Math.sqrt(Math.pow(a.nx - b.nx, 2) + Math.pow(a.ny - b.ny, 2) + dz * dz);
+    totalDist += dist * LANDMARK_WEIGHTS[i];
+    weightSum += LANDMARK_WEIGHTS[i];
+  }
+  const geomScore = Math.max(0, 1 - (totalDist / weightSum * DISTANCE_SCALE));
+
+  let angleDiff = 0;
+  for (let i = 0; i < live.jointAngles.length; i++) {
+    angleDiff += Math.abs(live.jointAngles[i] - saved.jointAngles[i]);
+  }
+  const articulationScore = Math.max(0, 1 - angleDiff / live.jointAngles.length / ANGLE_RANGE);
+
+  const rollDiff = Math.abs(Math.atan2(Math.sin(live.roll - saved.roll), Math.cos(live.roll - saved.roll)));
+  const orientationScore = Math.max(0, 1 - rollDiff / ROLL_RANGE);
+
+  return (geomScore * GEOMETRY_WEIGHT) + (articulationScore * ARTICULATION_WEIGHT) + (orientationScore * ORIENTATION_WEIGHT);
+};
+
+export const calculateSimilarity = (live: HandPose, saved: HandPose) => {
+  const primary = shapeSimilarity(live, saved);
+  if (!saved.secondary) {
+    // An idle second hand in view shouldn't block one-handed signs
+    return live.secondary ? primary * EXTRA_HAND_FACTOR : primary;
+  }
+  // A two-handed sign can't be made with one hand
+  if (!live.secondary || !live.offset || !saved.offset) return primary * MISSING_HAND_FACTOR;
+
+  const secondary = shapeSimilarity(live.secondary, saved.secondary);
+  const offsetDist = Math.sqrt(
+    Math.pow(live.offset.dx - saved.offset.dx, 2) +
+    Math.pow(live.offset.dy - saved.offset.dy, 2)
+  );
+  const placement = Math.max(0, 1 - offsetDist / PLACEMENT_RANGE);
+  return (primary * PRIMARY_WEIGHT) + (secondary * SECONDARY_WEIGHT) + (placement * PLACEMENT_WEIGHT);
+};
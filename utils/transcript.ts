@@ -0,0 +1,40 @@
+import { Message } from '../types.ts';
+import { Conversation } from '../storage/conversationLog.ts';
+
+// Longest a subtitle stays up when the next message is a while away
+const MAX_CUE_MS = 5000;
+const MIN_CUE_MS = 1000;
+
+const speaker = (message: Message) => (message.sender === 'me' ? 'Me' : 'Them');
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const clockTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+// SRT timestamps: HH:MM:SS,mmm from the start of the conversation
+const srtTime = (ms: number) => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(total % 1000, 3)}`;
+};
+
+export const conversationToText = (conversation: Conversation) => [
+  `Conversation of ${conversation.startedAt.toLocaleString()}`,
+  '',
+  ...conversation.messages.map(m => `[${clockTime(m.timestamp)}] ${speaker(m)}: ${m.text}`)
+].join('\n');
+
+// Each message is shown from when it was said until the next one, within
+// MIN_CUE_MS..MAX_CUE_MS
+export const conversationToSubtitles = (conversation: Conversation) => {
+  const start = conversation.startedAt.getTime();
+  return conversation.messages.map((m, i) => {
+    const from = m.timestamp.getTime() - start;
+    const next = conversation.messages[i + 1];
+    const gap = next ? next.timestamp.getTime() - m.timestamp.getTime() : MAX_CUE_MS;
+    const to = from + Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, gap));
+    return `${i + 1}\n${srtTime(from)} --> ${srtTime(to)}\n${speaker(m)}: ${m.text}\n`;
+  }).join('\n');
+};
@@ -0,0 +1,203 @@
+import { generateContent } from './gemini.ts';
+import { isFingerspelled, unspell } from './fingerspelling.ts';
+import { getLanguage, LanguageId } from './i18n.ts';
+
+export type TranslatorId = 'rules' | 'gemini';
+
+// The spoken language to translate into, and the library's own words for
+// signs in it (label → word, see signLexicon)
+export interface TranslationTarget {
+  language: LanguageId;
+  lexicon: Record<string, string>;
+}
+
+export const ENGLISH_TARGET: TranslationTarget = { language: 'en', lexicon: {} };
+
+// Turns a sequence of sign labels (gloss, e.g. ["ME", "WANT", "WATER"]) into
+// a spoken sentence. `translate` may reject; callers fall back to the rules.
+export interface GlossTranslator {
+  readonly id: TranslatorId;
+  readonly name: string;
+  translate(gloss: string[], target?: TranslationTarget): Promise<string>;
+}
+
+export const TRANSLATOR_OPTIONS: { id: TranslatorId; name: string }[] = [
+  { id: 'rules', name: 'Rules' },
+  { id: 'gemini', name: 'Gemini' }
+];
+
+const geminiInstructions = ({ language, lexicon }: TranslationTarget) => {
+  const name = getLanguage(language).name;
+  const words = Object.entries(lexicon).map(([label, word]) => `${label} = ${word}`).join('; ');
+  return `You translate sign language gloss into natural spoken ${name}. The input is a sequence of ` +
+    `sign labels in signing order. Reply with a single short ${name} sentence and nothing else. ` +
+    'Do not add information that is not in the gloss. Labels starting with FS- are fingerspelled, ' +
+    'usually names; keep them as written without the prefix.' +
+    (words ? ` The signer uses these words for their signs: ${words}.` : '');
+};
+
+// Glosses that stand for a fixed English phrase
+const PHRASES: Record<string, string> = {
+  'THANK YOU': 'thank you',
+  'THANK-YOU': 'thank you',
+  'THANKS': 'thank you',
+  'HELLO': 'hello',
+  'HI': 'hi',
+  'BYE': 'goodbye',
+  'GOODBYE': 'goodbye',
+  'SORRY': 'sorry',
+  'PLEASE': 'please',
+  'YES': 'yes',
+  'NO': 'no'
+};
+
+// English forms of each pronoun sign and whether it takes third-person verbs
+const PRONOUNS: Record<string, { subject: string; object: string; possessive: string; copula: string; third: boolean }> = {
+  ME: { subject: 'I', object: 'me', possessive: 'my', copula: 'am', third: false },
+  I: { subject: 'I', object: 'me', possessive: 'my', copula: 'am', third: false },
+  YOU: { subject: 'you', object: 'you', possessive: 'your', copula: 'are', third: false },
+  WE: { subject: 'we', object: 'us', possessive: 'our', copula: 'are', third: false },
+  US: { subject: 'we', object: 'us', possessive: 'our', copula: 'are', third: false },
+  THEY: { subject: 'they', object: 'them', possessive: 'their', copula: 'are', third: false },
+  HE: { subject: 'he', object: 'him', possessive: 'his', copula: 'is', third: true },
+  SHE: { subject: 'she', object: 'her', possessive: 'her', copula: 'is', third: true },
+  IT: { subject: 'it', object: 'it', possessive: 'its', copula: 'is', third: true }
+};
+
+const POSSESSIVES: Record<string, string> = { MY: 'my', MINE: 'mine', YOUR: 'your', OUR: 'our', THEIR: 'their', HIS: 'his', HER: 'her' };
+
+// Verbs that change form in questions and negation (do/does). Other signs
+// after a subject are taken to be verbs too unless they are predicates.
+const VERBS = new Set([
+  'WANT', 'NEED', 'LIKE', 'LOVE', 'HATE', 'HAVE', 'GO', 'COME', 'EAT', 'DRINK', 'KNOW', 'THINK', 'SEE',
+  'LOOK', 'HELP', 'FEEL', 'UNDERSTAND', 'LEARN', 'WORK', 'LIVE', 'SLEEP', 'PLAY', 'READ', 'WRITE',
+  'CALL', 'MEET', 'FINISH', 'STOP', 'WAIT', 'BUY', 'PAY', 'GIVE', 'TAKE', 'MAKE', 'USE', 'SIGN', 'TALK',
+  'SAY', 'TELL', 'ASK', 'REMEMBER', 'FORGET', 'CAN', 'WILL', 'SHOULD', 'MUST'
+]);
+const MODALS = new Set(['CAN', 'WILL', 'SHOULD', 'MUST']);
+// Adjectives, nouns and places that follow "am/is/are" (ME HAPPY → I am happy)
+const PREDICATES = new Set([
+  'HAPPY', 'SAD', 'ANGRY', 'MAD', 'TIRED', 'SLEEPY', 'HUNGRY', 'THIRSTY', 'SICK', 'HURT', 'FINE', 'GOOD', 'BAD',
+  'OK', 'OKAY', 'GREAT', 'READY', 'BUSY', 'FREE', 'LATE', 'EARLY', 'HOT', 'COLD', 'SCARED', 'EXCITED', 'BORED',
+  'NERVOUS', 'SURE', 'RIGHT', 'WRONG', 'NEW', 'OLD', 'YOUNG', 'BIG', 'SMALL', 'DEAF', 'HEARING', 'BLIND',
+  'STUDENT', 'TEACHER', 'DOCTOR', 'NURSE', 'FRIEND', 'FAMILY', 'MOTHER', 'FATHER', 'SISTER', 'BROTHER',
+  'BOY', 'GIRL', 'MAN', 'WOMAN', 'BABY', 'CHILD', 'HERE', 'THERE', 'HOME', 'AWAY'
+]);
+// Greetings that open a sentence (HELLO ME NAME FS-BOB → Hello, my name is Bob)
+const GREETINGS = new Set(['HELLO', 'HI']);
+const NEGATIONS = new Set(['NOT', 'NO', "DON'T", 'DONT', 'NEVER']);
+const QUESTION_WORDS = new Set(['WHAT', 'WHERE', 'WHO', 'WHY', 'HOW', 'WHEN', 'WHICH']);
+// Time signs come first in ASL; English keeps them at the end
+const TIME_WORDS = new Set(['NOW', 'TODAY', 'TOMORROW', 'YESTERDAY', 'LATER', 'TONIGHT']);
+
+// Fingerspelled glosses (FS-MARIA) are names and keep their capital
+const word = (gloss: string) => isFingerspelled(gloss)
+  ? sentenceCase(unspell(gloss).toLowerCase())
+  : gloss.toLowerCase().replace(/[-_]/g, ' ');
+
+const thirdPerson = (verb: string) =>
+  /(s|sh|ch|x|o)$/.test(verb) ? `${verb}es` : /[^aeiou]y$/.test(verb) ? `${verb.slice(0, -1)}ies` : verb === 'have' ? 'has' : `${verb}s`;
+
+const sentenceCase = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Handles the common patterns of short signed sentences: an opening
+// greeting, pronoun subjects, a missing "to be", negation after the verb,
+// question words at the end, time signs at the start, and fixed phrases.
+// Anything else passes through. Repeated signs are kept; they are signed
+// that way on purpose (for emphasis or plurals).
+export const translateGloss = (gloss: string[]): string => {
+  const tokens = gloss.map(g => g.trim().toUpperCase()).filter(Boolean);
+  if (tokens.length === 0) return '';
+  if (tokens.length === 1 && PHRASES[tokens[0]]) return `${sentenceCase(PHRASES[tokens[0]])}.`;
+  const greeting = GREETINGS.has(tokens[0]) ? PHRASES[tokens.shift()!] : null;
+
+  const question = tokens.find(t => QUESTION_WORDS.has(t));
+  const time = tokens.filter(t => TIME_WORDS.has(t));
+  const negated = tokens.some(t => NEGATIONS.has(t));
+  const rest = tokens.filter(t => t !== question && !TIME_WORDS.has(t) && !NEGATIONS.has(t));
+
+  const words: string[] = [];
+  const subject = PRONOUNS[rest[0]];
+  if (subject) rest.shift();
+
+  if (question) {
+    // YOU NAME WHAT → what is your name; WHERE YOU GO → where do you go
+    const verb = rest.find(t => VERBS.has(t));
+    words.push(word(question));
+    if (verb && subject) {
+      words.push(MODALS.has(verb) ? word(verb) : subject.third ? 'does' : 'do');
+      if (negated) words.push('not');
+      words.push(subject.subject);
+      rest.filter(t => !MODALS.has(t)).forEach(t => words.push(PRONOUNS[t]?.object ?? POSSESSIVES[t] ?? word(t)));
+    } else if (subject && rest.length > 0) {
+      words.push(negated ? 'is not' : 'is', subject.possessive);
+      rest.forEach(t => words.push(POSSESSIVES[t] ?? word(t)));
+    } else if (subject) {
+      // WHO YOU → who are you
+      words.push(negated ? `${subject.copula} not` : subject.copula, subject.subject);
+    } else {
+      words.push(negated ? 'is not' : 'is');
+      rest.forEach(t => words.push(POSSESSIVES[t] ?? word(t)));
+    }
+  } else if (subject && rest[0] === 'NAME') {
+    // ME NAME FS-MARIA → my name is Maria
+    words.push(subject.possessive, 'name', negated ? 'is not' : 'is');
+    rest.slice(1).forEach(t => words.push(POSSESSIVES[t] ?? word(t)));
+  } else if (subject) {
+    words.push(subject.subject);
+    const [first, ...others] = rest;
+    // A name, a possessive (HE MY FRIEND) or a known predicate takes "to be";
+    // anything else is taken as a verb
+    const isPredicate = !first || PREDICATES.has(first) || !!POSSESSIVES[first] || isFingerspelled(first);
+    if (!isPredicate) {
+      if (negated) words.push(MODALS.has(first) ? `${word(first)} not` : `${subject.third ? 'does' : 'do'} not ${word(first)}`);
+      else words.push(subject.third && !MODALS.has(first) ? thirdPerson(word(first)) : word(first));
+    } else {
+      // ME HAPPY → I am happy
+      words.push(negated ? `${subject.copula} not` : subject.copula);
+      if (first) words.push(POSSESSIVES[first] ?? word(first));
+    }
+    others.forEach(t => words.push(PRONOUNS[t]?.object ?? POSSESSIVES[t] ?? PHRASES[t] ?? word(t)));
+  } else {
+    if (negated) words.push('not');
+    rest.forEach(t => words.push(PRONOUNS[t]?.object ?? POSSESSIVES[t] ?? PHRASES[t] ?? word(t)));
+  }
+
+  time.forEach(t => words.push(word(t)));
+  const text = words.join(' ').replace(/\bi\b/g, 'I');
+  return `${sentenceCase(greeting ? `${greeting}, ${text}` : text)}${question ? '?' : '.'}`;
+};
+
+// Sentence punctuation of languages that don't use English's
+const PUNCTUATION: Partial<Record<LanguageId, { statement: string; question: (text: string) => string }>> = {
+  es: { statement: '.', question: text => `¿${text}?` },
+  ur: { statement: '۔', question: text => `${text}؟` }
+};
+
+// The rules only know English grammar. For other languages each sign is
+// replaced by its word from the lexicon, in signing order, which keeps the
+// meaning even where the word order is off.
+export const translateGlossTo = (gloss: string[], target: TranslationTarget = ENGLISH_TARGET): string => {
+  if (target.language === 'en') return translateGloss(gloss);
+  const tokens = gloss.map(g => g.trim().toUpperCase()).filter(Boolean);
+  if (tokens.length === 0) return '';
+  const text = sentenceCase(tokens.map(t => target.lexicon[t] ?? word(t)).join(' '));
+  const punctuation = PUNCTUATION[target.language] || { statement: '.', question: (t: string) => `${t}?` };
+  return tokens.some(t => QUESTION_WORDS.has(t)) ? punctuation.question(text) : `${text}${punctuation.statement}`;
+};
+
+export const createRuleTranslator = (): GlossTranslator => ({
+  id: 'rules',
+  name: 'Rules',
+  translate: async (gloss, target) => translateGlossTo(gloss, target)
+});
+
+export const createGeminiTranslator = (apiKey?: string, baseUrl?: string): GlossTranslator => ({
+  id: 'gemini',
+  name: 'Gemini',
+  translate: (gloss, target = ENGLISH_TARGET) =>
+    generateContent(geminiInstructions(target), gloss.join(' '), { temperature: 0.2, maxOutputTokens: 60 }, apiKey, baseUrl)
+});
+
+export const createTranslator = (id: TranslatorId): GlossTranslator =>
+  id === 'gemini' ? createGeminiTranslator() : createRuleTranslator();
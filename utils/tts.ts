@@ -0,0 +1,145 @@
+export type TtsProviderId = 'elevenlabs' | 'browser' | 'http';
+
+export interface VoiceOption {
+  id: string;
+  name: string;
+}
+
+export interface SpeechSettings {
+  providerId: TtsProviderId;
+  // Provider-specific voice id; null uses the provider's default
+  voiceId: string | null;
+  // 1 is normal speed and pitch
+  rate: number;
+  pitch: number;
+}
+
+// A text-to-speech backend. 'clip' providers return audio that is cached and
+// played through the app's audio queue; 'direct' providers speak themselves.
+// `lang` is the BCP 47 tag of the text's language, e.g. 'es-ES'.
+export interface TtsProvider {
+  readonly id: TtsProviderId;
+  readonly name: string;
+  readonly kind: 'clip' | 'direct';
+  isAvailable(): boolean;
+  listVoices(): Promise<VoiceOption[]>;
+  synthesize?(text: string, settings: SpeechSettings, lang: string): Promise<Blob>;
+  speak?(text: string, settings: SpeechSettings, lang: string): void;
+}
+
+export const RATE_RANGE = { min: 0.5, max: 2 };
+export const PITCH_RANGE = { min: 0.5, max: 2 };
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  providerId: import.meta.env.VITE_ELEVENLABS_API_KEY ? 'elevenlabs' : 'browser',
+  voiceId: null,
+  rate: 1,
+  pitch: 1
+};
+
+const ELEVENLABS_URL = 'https://api.elevenlabs.io/v1';
+const ELEVENLABS_DEFAULT_VOICE = 'JBFqnCBsd6RMkjVDRZzb'; // George
+const ELEVENLABS_MODEL = 'eleven_turbo_v2_5';
+// ElevenLabs only accepts speeds in this range
+const ELEVENLABS_SPEED = { min: 0.7, max: 1.2 };
+
+const clamp = (value: number, range: { min: number; max: number }) => Math.min(range.max, Math.max(range.min, value));
+
+export const createElevenLabsProvider = (apiKey = import.meta.env.VITE_ELEVENLABS_API_KEY || ''): TtsProvider => ({
+  id: 'elevenlabs',
+  name: 'ElevenLabs',
+  kind: 'clip',
+  isAvailable: () => !!apiKey,
+  listVoices: async () => {
+    const response = await fetch(`${ELEVENLABS_URL}/voices`, { headers: { 'xi-api-key': apiKey } });
+    if (!response.ok) throw new Error(`ElevenLabs API error: ${response.status}`);
+    const data = await response.json();
+    return (data.voices || []).map((v: any) => ({ id: v.voice_id, name: v.name }));
+  },
+  synthesize: async (text, settings, lang) => {
+    // Pitch isn't adjustable; rate is applied here rather than at playback
+    // so the voice doesn't shift. The multilingual model speaks any
+    // language with the chosen voice.
+    const response = await fetch(`${ELEVENLABS_URL}/text-to-speech/${settings.voiceId || ELEVENLABS_DEFAULT_VOICE}`, {
+      method: 'POST',
+      headers: {
+        'Accept': 'audio/mpeg',
+        'Content-Type': 'application/json',
+        'xi-api-key': apiKey
+      },
+      body: JSON.stringify({
+        text,
+        model_id: ELEVENLABS_MODEL,
+        language_code: lang.split('-')[0],
+        voice_settings: { stability: 0.5, similarity_boost: 0.75, speed: clamp(settings.rate, ELEVENLABS_SPEED) }
+      })
+    });
+    if (!response.ok) throw new Error(`ElevenLabs API error: ${response.status}`);
+    return response.blob();
+  }
+});
+
+const browserVoices = () => new Promise<SpeechSynthesisVoice[]>(resolve => {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return resolve(voices);
+  // Some browsers only populate the list asynchronously
+  const timeoutId = setTimeout(() => resolve(window.speechSynthesis.getVoices()), 1000);
+  window.speechSynthesis.addEventListener('voiceschanged', () => {
+    clearTimeout(timeoutId);
+    resolve(window.speechSynthesis.getVoices());
+  }, { once: true });
+});
+
+export const createBrowserProvider = (): TtsProvider => ({
+  id: 'browser',
+  name: 'Browser',
+  kind: 'direct',
+  isAvailable: () => typeof window !== 'undefined' && 'speechSynthesis' in window,
+  listVoices: async () => (await browserVoices()).map(v => ({ id: v.voiceURI, name: `${v.name} (${v.lang})` })),
+  speak: (text, settings, lang) => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = lang;
+    utterance.rate = settings.rate;
+    utterance.pitch = settings.pitch;
+    // The chosen voice only if it speaks the language, otherwise the first
+    // voice that does
+    const primary = (tag: string) => tag.toLowerCase().split(/[-_]/)[0];
+    const voices = window.speechSynthesis.getVoices().filter(v => primary(v.lang) === primary(lang));
+    const voice = voices.find(v => v.voiceURI === settings.voiceId) || voices.find(v => v.lang === lang) || voices[0];
+    if (voice) utterance.voice = voice;
+    window.speechSynthesis.speak(utterance);
+  }
+});
+
+// Any server exposing GET /voices (→ [{ id, name }]) and POST /synthesize
+// ({ text, voice, rate, pitch, lang } → audio), such as a self-hosted engine or
+// scripts/mock-tts.mjs. Configured with VITE_TTS_URL.
+export const createHttpProvider = (baseUrl = import.meta.env.VITE_TTS_URL || ''): TtsProvider => ({
+  id: 'http',
+  name: 'Local Server',
+  kind: 'clip',
+  isAvailable: () => !!baseUrl,
+  listVoices: async () => {
+    const response = await fetch(`${baseUrl}/voices`);
+    if (!response.ok) throw new Error(`TTS server error: ${response.status}`);
+    return response.json();
+  },
+  synthesize: async (text, settings, lang) => {
+    const response = await fetch(`${baseUrl}/synthesize`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, voice: settings.voiceId, rate: settings.rate, pitch: settings.pitch, lang })
+    });
+    if (!response.ok) throw new Error(`TTS server error: ${response.status}`);
+    return response.blob();
+  }
+});
+
+export const TTS_PROVIDERS: TtsProvider[] = [createElevenLabsProvider(), createBrowserProvider(), createHttpProvider()];
+
+export const getTtsProvider = (id: TtsProviderId) => TTS_PROVIDERS.find(p => p.id === id) || TTS_PROVIDERS[1];
+
+// Identifies a synthesized clip: the same text in the same voice and
+// language is reused
+export const clipKey = (text: string, settings: SpeechSettings, lang: string) =>
+  [settings.providerId, settings.voiceId || 'default', settings.rate, settings.pitch, lang, text.trim().toLowerCase()].join('|');
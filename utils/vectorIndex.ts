@@ -0,0 +1,88 @@
+// Nearest-neighbour search over feature vectors. Small sets are scanned in
+// full; larger ones are split into clusters by k-means and only the
+// clusters nearest the query are searched (an inverted-file index), which
+// is approximate but keeps each query to a fraction of the library.
+
+// Below this many vectors an exact scan is as fast and always right
+const MIN_INDEXED = 256;
+// Clusters searched per query
+const PROBES = 3;
+const KMEANS_ITERATIONS = 8;
+
+export interface Neighbour {
+  // Position of the vector in the list the index was built from
+  index: number;
+  distance: number;
+}
+
+export interface VectorIndex {
+  readonly size: number;
+  // Whether searches may miss some of the true nearest vectors
+  readonly approximate: boolean;
+  // Up to `k` nearest vectors, closest first
+  search(query: number[], k: number): Neighbour[];
+}
+
+export const rmsDistance = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) * (a[i] - b[i]);
+  return Math.sqrt(sum / a.length);
+};
+
+const nearestK = (query: number[], vectors: number[][], members: number[], k: number): Neighbour[] =>
+  members
+    .map(index => ({ index, distance: rmsDistance(query, vectors[index]) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, k);
+
+const mean = (vectors: number[][], members: number[], fallback: number[]) => {
+  if (members.length === 0) return fallback;
+  const centre = new Array<number>(fallback.length).fill(0);
+  members.forEach(m => vectors[m].forEach((v, i) => { centre[i] += v / members.length; }));
+  return centre;
+};
+
+const closestCentre = (vector: number[], centres: number[][]) => {
+  let best = 0;
+  let bestDistance = Infinity;
+  centres.forEach((centre, c) => {
+    const d = rmsDistance(vector, centre);
+    if (d < bestDistance) {
+      best = c;
+      bestDistance = d;
+    }
+  });
+  return best;
+};
+
+// Deterministic: centres start on evenly spaced vectors, so the same
+// library always gives the same index
+export const createVectorIndex = (vectors: number[][]): VectorIndex => {
+  const all = vectors.map((_, i) => i);
+  if (vectors.length < MIN_INDEXED) {
+    return { size: vectors.length, approximate: false, search: (query, k) => nearestK(query, vectors, all, k) };
+  }
+
+  const clusterCount = Math.round(Math.sqrt(vectors.length));
+  let centres = Array.from({ length: clusterCount }, (_, c) => vectors[Math.floor((c * vectors.length) / clusterCount)]);
+  let clusters: number[][] = [];
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    clusters = centres.map(() => []);
+    all.forEach(i => clusters[closestCentre(vectors[i], centres)].push(i));
+    centres = centres.map((centre, c) => mean(vectors, clusters[c], centre));
+  }
+
+  return {
+    size: vectors.length,
+    approximate: true,
+    search: (query, k) => {
+      const order = centres
+        .map((centre, c) => ({ c, d: rmsDistance(query, centre) }))
+        .sort((a, b) => a.d - b.d);
+      // Probe more clusters if the nearest few hold fewer than k vectors
+      const members: number[] = [];
+      for (let p = 0; p < order.length && (p < PROBES || members.length < k); p++) members.push(...clusters[order[p].c]);
+      return nearestK(query, vectors, members, k);
+    }
+  };
+};
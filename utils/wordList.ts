@@ -0,0 +1,26 @@
+// Common English words for correcting fingerspelled words. Anything not
+// here or in the library (names, rarer words) is kept as spelled.
+export const COMMON_WORDS = `
+the be to of and a in that have i it for not on with he as you do at this but his by from they we say her she
+or an will my one all would there their what so up out if about who get which go me when make can like time no
+just him know take people into year your good some could them see other than then now look only come its over
+think also back after use two how our work first well way even new want because any these give day most us is
+are was were has had did said made went got came saw knew thought took told found gave
+name hello hi bye goodbye please thank thanks sorry yes okay help need love happy sad tired hungry thirsty sick
+hurt pain doctor nurse hospital medicine water food eat drink coffee tea milk juice bread breakfast lunch dinner
+home house school work office store shop bank bathroom toilet room door car bus train taxi airport street city
+family mother father mom dad sister brother son daughter baby child children friend wife husband boy girl man
+woman person teacher student deaf hearing sign language english spanish learn understand repeat slow again
+where why how when which who what today tomorrow yesterday now later morning afternoon evening night week month
+weekend monday tuesday wednesday thursday friday saturday sunday january february march april may june july
+august september october november december birthday holiday
+one two three four five six seven eight nine ten hundred thousand first last next number phone email address
+money pay buy sell price cheap expensive open close start stop finish wait walk run sit stand sleep wake drive
+call text write read watch listen speak talk tell ask answer question problem fine great bad better best worse
+big small little long short hot cold warm cool old young new same different easy hard right left wrong true
+more less many much few lot very really always never sometimes often maybe again still already soon here there
+up down in out near far early late fast slow
+feel felt live lived play played move moved meet meeting party game movie music book computer picture color
+red blue green yellow black white brown orange purple pink
+dog cat bird animal tree flower rain snow sun weather
+`.split(/\s+/).filter(Boolean);